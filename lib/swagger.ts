@@ -1,4 +1,5 @@
 import { createSwaggerSpec } from "next-swagger-doc";
+import { openApiSchemas } from "../src/lib/schemas";
 
 export const getApiDocs = async () => {
 
@@ -22,6 +23,298 @@ export const getApiDocs = async () => {
                         scheme: "bearer",
                         bearerFormat: "JWT",
                     },
+                    ApiKeyAuth: {
+                        type: "apiKey",
+                        in: "header",
+                        name: "X-API-Key",
+                        description: "A key created under /api/api-keys. It can also be sent as a Bearer token. Reading products needs the `products:read` scope, changing them `products:write`; other endpoints do not accept API keys.",
+                    },
+                },
+                schemas: {
+                    ...openApiSchemas,
+                    Money: {
+                        type: "object",
+                        description: "An amount of money. `amount` is exact, in minor units of the currency; `formatted` is for display only.",
+                        properties: {
+                            amount: { type: "integer", example: 99990 },
+                            currency: { type: "string", example: "SEK" },
+                            formatted: { type: "string", example: "999,90 kr" },
+                        },
+                    },
+                    ProductImage: {
+                        type: "object",
+                        properties: {
+                            _id: { type: "string", example: "675c0a11b3d5e9f4a2b8c912" },
+                            url: { type: "string", example: "/api/uploads/products/675a3c92f1a3b9b529c7e312/675c0a11b3d5e9f4a2b8c912.jpg" },
+                            thumbnailUrl: { type: "string", example: "/api/uploads/products/675a3c92f1a3b9b529c7e312/675c0a11b3d5e9f4a2b8c912_thumb.webp" },
+                            contentType: { type: "string", example: "image/jpeg" },
+                            size: { type: "integer", example: 482133 },
+                            width: { type: "integer", example: 1600 },
+                            height: { type: "integer", example: 1200 },
+                        },
+                    },
+                    ProductVariant: {
+                        type: "object",
+                        properties: {
+                            _id: { type: "string", example: "675d2a10c4e6fa05b3c9da11" },
+                            sku: { type: "string", example: "MBP-14-M3-SILVER" },
+                            size: { type: "string", example: "14-inch" },
+                            color: { type: "string", example: "Silver" },
+                            price: { allOf: [{ $ref: "#/components/schemas/Money" }], description: "Absent when the variant uses the product price" },
+                            stock: { type: "integer", example: 10 },
+                        },
+                    },
+                    Category: {
+                        type: "object",
+                        properties: {
+                            _id: { type: "string", example: "675d1f22c4e6fa05b3c9da01" },
+                            name: { type: "string", example: "Laptops" },
+                            slug: { type: "string", example: "laptops" },
+                            description: { type: "string", example: "Portable computers" },
+                            parent: { type: "string", nullable: true, example: "675d1f22c4e6fa05b3c9da00" },
+                            ancestors: {
+                                type: "array",
+                                description: "Path from the top-level category down to the parent",
+                                items: { type: "string" },
+                                example: ["675d1f22c4e6fa05b3c9da00"],
+                            },
+                            createdAt: { type: "string", format: "date-time" },
+                            updatedAt: { type: "string", format: "date-time" },
+                        },
+                    },
+                    Cart: {
+                        type: "object",
+                        properties: {
+                            items: {
+                                type: "array",
+                                items: {
+                                    type: "object",
+                                    properties: {
+                                        productId: { type: "string", example: "675a3c92f1a3b9b529c7e312" },
+                                        variantId: { type: "string", nullable: true, example: "675d2a10c4e6fa05b3c9da11" },
+                                        title: { type: "string", nullable: true, example: "Macbook" },
+                                        sku: { type: "string", nullable: true, example: "MBP-14-M3-SILVER" },
+                                        size: { type: "string", nullable: true, example: "14-inch" },
+                                        color: { type: "string", nullable: true, example: "Silver" },
+                                        unitPrice: { allOf: [{ $ref: "#/components/schemas/Money" }], nullable: true, description: "Current price of the product" },
+                                        quantity: { type: "integer", example: 2 },
+                                        lineTotal: { $ref: "#/components/schemas/Money" },
+                                        status: {
+                                            type: "string",
+                                            enum: ["available", "unpublished", "deleted"],
+                                            description: "Lines that are not available are excluded from the subtotal",
+                                        },
+                                    },
+                                },
+                            },
+                            itemCount: { type: "integer", example: 2 },
+                            currency: { type: "string", example: "SEK" },
+                            subtotal: { $ref: "#/components/schemas/Money" },
+                        },
+                    },
+                    Order: {
+                        type: "object",
+                        properties: {
+                            _id: { type: "string", example: "675b1e04a2c4d8e3f1a9b702" },
+                            buyer: { type: "string", example: "675a3c92f1a3b9b529c7e300" },
+                            items: {
+                                type: "array",
+                                items: {
+                                    type: "object",
+                                    description: "Snapshot of the product at purchase time",
+                                    properties: {
+                                        product: { type: "string", example: "675a3c92f1a3b9b529c7e312" },
+                                        variant: { type: "string", example: "675d2a10c4e6fa05b3c9da11" },
+                                        seller: { type: "string", example: "675a3c92f1a3b9b529c7e301" },
+                                        title: { type: "string", example: "Macbook" },
+                                        sku: { type: "string", example: "MBP-14-M3-SILVER" },
+                                        size: { type: "string", example: "14-inch" },
+                                        color: { type: "string", example: "Silver" },
+                                        unitPrice: { $ref: "#/components/schemas/Money" },
+                                        quantity: { type: "integer", example: 2 },
+                                        lineTotal: { $ref: "#/components/schemas/Money" },
+                                    },
+                                },
+                            },
+                            currency: { type: "string", example: "SEK" },
+                            subtotal: { $ref: "#/components/schemas/Money" },
+                            status: {
+                                type: "string",
+                                enum: ["pending", "paid", "shipped", "delivered", "cancelled", "refunded"],
+                            },
+                            statusHistory: {
+                                type: "array",
+                                items: {
+                                    type: "object",
+                                    properties: {
+                                        status: { type: "string", example: "pending" },
+                                        changedBy: { type: "string", example: "675a3c92f1a3b9b529c7e300" },
+                                        changedAt: { type: "string", format: "date-time" },
+                                        note: { type: "string" },
+                                    },
+                                },
+                            },
+                            createdAt: { type: "string", format: "date-time" },
+                            updatedAt: { type: "string", format: "date-time" },
+                        },
+                    },
+                    ProductRevision: {
+                        type: "object",
+                        description: "An earlier version of a product's details",
+                        properties: {
+                            _id: { type: "string", example: "675f0c33e8a1bc27d5ebf013" },
+                            product: { type: "string", example: "675a3c92f1a3b9b529c7e312" },
+                            revision: { type: "integer", example: 2 },
+                            title: { type: "string", example: "Macbook" },
+                            description: { type: "string", example: "14-inch laptop" },
+                            sku: { type: "string", example: "MBP-14-M3" },
+                            price: { $ref: "#/components/schemas/Money" },
+                            currency: { type: "string", example: "SEK" },
+                            prices: { type: "array", items: { $ref: "#/components/schemas/Money" } },
+                            published: { type: "boolean", example: true },
+                            categories: { type: "array", items: { type: "string", example: "675c1f20b3d5e9f4a2b8c901" } },
+                            replacedBy: { type: "string", description: "User whose edit replaced this version", example: "675a3c92f1a3b9b529c7e301" },
+                            createdAt: { type: "string", format: "date-time", description: "When this version was replaced" },
+                        },
+                    },
+                    BulkResult: {
+                        type: "object",
+                        description: "Outcome of a bulk request, one result per item in request order. In atomic mode either every item succeeded or nothing was changed.",
+                        properties: {
+                            atomic: { type: "boolean", example: false },
+                            succeeded: { type: "integer", example: 2 },
+                            failed: { type: "integer", example: 1 },
+                            results: {
+                                type: "array",
+                                items: {
+                                    type: "object",
+                                    properties: {
+                                        index: { type: "integer", example: 0 },
+                                        status: { type: "integer", description: "HTTP status the item would have had on its own; 424 when an atomic batch was rolled back because of another item", example: 201 },
+                                        id: { type: "string", nullable: true, example: "675a3c92f1a3b9b529c7e312" },
+                                        error: {
+                                            type: "object",
+                                            properties: {
+                                                code: { type: "string", example: "CONFLICT" },
+                                                message: { type: "string", example: "SKU is already used by another of your products" },
+                                                details: { nullable: true },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    AuditEvent: {
+                        type: "object",
+                        properties: {
+                            _id: { type: "string", example: "675e4b21d3f7ab16c4dae902" },
+                            actor: { type: "string", nullable: true, example: "675a3c92f1a3b9b529c7e301" },
+                            actorRole: { type: "string", nullable: true, example: "seller" },
+                            actorApiKey: { type: "string", nullable: true, description: "The API key the actor used, if any", example: null },
+                            action: { type: "string", example: "product.update" },
+                            target: {
+                                type: "object",
+                                nullable: true,
+                                properties: {
+                                    type: { type: "string", enum: ["user", "product", "category"] },
+                                    id: { type: "string", nullable: true, example: "675a3c92f1a3b9b529c7e312" },
+                                },
+                            },
+                            changes: {
+                                type: "array",
+                                items: {
+                                    type: "object",
+                                    properties: {
+                                        field: { type: "string", example: "price" },
+                                        before: { nullable: true, example: 1299900 },
+                                        after: { nullable: true, example: 1199900 },
+                                    },
+                                },
+                            },
+                            metadata: { type: "object", nullable: true },
+                            request: {
+                                type: "object",
+                                properties: {
+                                    requestId: { type: "string", example: "4f1c2a9e-8d7b-4c47-9a0e-2f6b1d3c5e7a" },
+                                    method: { type: "string", example: "PUT" },
+                                    path: { type: "string", example: "/api/products/675a3c92f1a3b9b529c7e312" },
+                                    ip: { type: "string", nullable: true, example: "203.0.113.7" },
+                                    userAgent: { type: "string", nullable: true },
+                                },
+                            },
+                            createdAt: { type: "string", format: "date-time" },
+                        },
+                    },
+                    ApiKey: {
+                        type: "object",
+                        properties: {
+                            _id: { type: "string", example: "675f2c81e4c8bd27d5ebf2b3" },
+                            name: { type: "string", example: "ERP sync" },
+                            prefix: { type: "string", description: "First characters of the key", example: "xyf_Q2hr9LmA" },
+                            scopes: { type: "array", items: { type: "string", enum: ["products:read", "products:write"] } },
+                            lastUsedAt: { type: "string", format: "date-time", description: "Accurate to about a minute" },
+                            expiresAt: { type: "string", format: "date-time" },
+                            revokedAt: { type: "string", format: "date-time" },
+                            createdAt: { type: "string", format: "date-time" },
+                        },
+                    },
+                    Webhook: {
+                        type: "object",
+                        properties: {
+                            _id: { type: "string", example: "675f1a02e4c8bd27d5ebf101" },
+                            user: { type: "string", example: "675a3c92f1a3b9b529c7e301" },
+                            url: { type: "string", example: "https://erp.example.com/hooks/xyfora" },
+                            events: { type: "array", items: { type: "string" }, example: ["product.created", "product.updated", "product.deleted"] },
+                            description: { type: "string", example: "ERP product sync" },
+                            active: { type: "boolean", example: true },
+                            createdAt: { type: "string", format: "date-time" },
+                            updatedAt: { type: "string", format: "date-time" },
+                        },
+                    },
+                    WebhookDelivery: {
+                        type: "object",
+                        description: "One event sent to one webhook. `payload` is the exact JSON body that is POSTed: `{ id, type, createdAt, data }`.",
+                        properties: {
+                            _id: { type: "string", example: "675f1b44e4c8bd27d5ebf1a0" },
+                            webhook: { type: "string", example: "675f1a02e4c8bd27d5ebf101" },
+                            eventId: { type: "string", example: "0b6f7c1e-3d52-4c1b-9a57-2e8d4f6a1c90" },
+                            event: { type: "string", example: "product.updated" },
+                            payload: { type: "object" },
+                            status: { type: "string", enum: ["pending", "succeeded", "failed"] },
+                            attempts: {
+                                type: "array",
+                                items: {
+                                    type: "object",
+                                    properties: {
+                                        at: { type: "string", format: "date-time" },
+                                        responseStatus: { type: "integer", example: 503 },
+                                        responseBody: { type: "string", description: "First 1024 characters of the response" },
+                                        error: { type: "string", example: "No response within 10 seconds" },
+                                        durationMs: { type: "integer", example: 182 },
+                                    },
+                                },
+                            },
+                            nextAttemptAt: { type: "string", format: "date-time", description: "When a pending delivery is retried" },
+                            deliveredAt: { type: "string", format: "date-time" },
+                            createdAt: { type: "string", format: "date-time" },
+                        },
+                    },
+                    Error: {
+                        type: "object",
+                        description: "Envelope of every error response. `details` lists field errors for validation failures.",
+                        properties: {
+                            error: {
+                                type: "object",
+                                properties: {
+                                    code: { type: "string", example: "VALIDATION_ERROR" },
+                                    message: { type: "string", example: "Validation failed" },
+                                    details: { nullable: true, example: [{ field: "price", message: "must be at least 0" }] },
+                                    requestId: { type: "string", example: "4f1c2a9e-8d7b-4c47-9a0e-2f6b1d3c5e7a" },
+                                },
+                            },
+                        },
+                    },
                 },
             },
             tags: [
@@ -32,6 +325,38 @@ export const getApiDocs = async () => {
                 {
                     name: "Products",
                     description: "Product creation and management."
+                },
+                {
+                    name: "Catalog",
+                    description: "Public storefront browsing and search."
+                },
+                {
+                    name: "Categories",
+                    description: "Product category tree."
+                },
+                {
+                    name: "Users",
+                    description: "User administration."
+                },
+                {
+                    name: "Cart",
+                    description: "Shopping cart of the authenticated user."
+                },
+                {
+                    name: "Orders",
+                    description: "Checkout, order history and fulfilment."
+                },
+                {
+                    name: "Audit",
+                    description: "Append-only log of changes to users and products."
+                },
+                {
+                    name: "API keys",
+                    description: "Credentials for server-to-server integrations."
+                },
+                {
+                    name: "Webhooks",
+                    description: "Signed HTTP callbacks for product and account events."
                 }
             ]
         }
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, parseMongoId } from "@/lib/auth";
+import { withErrorHandling } from "@/lib/errors";
+import { revokeApiKey } from "@/lib/apiKeys";
+import { connectDB } from "@/lib/mongoose";
+import { recordAudit } from "@/lib/audit";
+
+/**
+ * @swagger
+ * /api/api-keys/{id}:
+ *   delete:
+ *     tags:
+ *       - API keys
+ *     summary: Revoke an API key
+ *     description: Revokes one of the user's keys right away. The key stays in the list, marked with `revokedAt`, and cannot be used again.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId
+ *         schema:
+ *           type: string
+ *           example: "675f2c81e4c8bd27d5ebf2b3"
+ *     responses:
+ *       200:
+ *         description: API key revoked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/ApiKey"
+ *       400:
+ *         description: Invalid ID format
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — API keys cannot manage API keys
+ *       404:
+ *         description: API key not found
+ *       500:
+ *         description: Internal server error
+ */
+
+export const DELETE = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const auth = await authorize(req);
+
+    const id = parseMongoId(rawId, "API key");
+
+    const apiKey = await revokeApiKey(auth.id, id);
+
+    await recordAudit(req, {
+        actor: auth,
+        action: "user.api_key_revoke",
+        target: { type: "user", id: auth.id },
+        metadata: { apiKey: id, prefix: apiKey.prefix }
+    });
+
+    return NextResponse.json(apiKey, { status: 200 });
+
+});
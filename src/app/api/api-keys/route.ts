@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/errors";
+import { apiKeyCreateSchema } from "@/lib/schemas";
+import { createApiKey } from "@/lib/apiKeys";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+import { recordAudit } from "@/lib/audit";
+import { authorize } from "@/lib/auth";
+import ApiKey from "@/models/ApiKey";
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   get:
+ *     tags:
+ *       - API keys
+ *     summary: List the authenticated user's API keys
+ *     description: Returns every key of the user, revoked and expired ones included, newest first. Only the prefix of each key is shown.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API keys retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/ApiKey"
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — API keys cannot manage API keys
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const auth = await authorize(req);
+
+    const apiKeys = await ApiKey.find({ user: auth.id }).sort({ createdAt: -1, _id: -1 });
+
+    return NextResponse.json(apiKeys, { status: 200 });
+
+});
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   post:
+ *     tags:
+ *       - API keys
+ *     summary: Create an API key
+ *     description: Creates a key that acts as the user, with the user's current role, within its scopes. The response contains the full `key`, which is not shown again; send it in the `X-API-Key` header. A user can have up to 20 active keys.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/ApiKeyCreateInput"
+ *     responses:
+ *       201:
+ *         description: API key created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: "#/components/schemas/ApiKey"
+ *                 - type: object
+ *                   properties:
+ *                     key:
+ *                       type: string
+ *                       example: "xyf_Q2hr9LmA4bVx0TzKp7sWn3eYc8uJf1gHd6iRo5kNq2M"
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — API keys cannot manage API keys
+ *       409:
+ *         description: The user already has the maximum number of active keys
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const auth = await authorize(req);
+
+    const body = await parseBody(req, apiKeyCreateSchema);
+
+    const { apiKey, key } = await createApiKey(auth.id, body);
+
+    await recordAudit(req, {
+        actor: auth,
+        action: "user.api_key_create",
+        target: { type: "user", id: auth.id },
+        metadata: { apiKey: apiKey._id.toString(), prefix: apiKey.prefix, scopes: apiKey.scopes, expiresAt: apiKey.expiresAt ?? null }
+    });
+
+    return NextResponse.json({ ...apiKey.toJSON(), key }, { status: 201 });
+
+});
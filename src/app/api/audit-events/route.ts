@@ -0,0 +1,160 @@
+import { cursorQuery, parseCursorParams, toPage } from "@/lib/pagination";
+import AuditEvent, { AUDIT_TARGET_TYPES, AuditTargetType } from "@/models/AuditEvent";
+import { authorize, parseMongoId } from "@/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+import { badRequest, withErrorHandling } from "@/lib/errors";
+import { connectDB } from "@/lib/mongoose";
+
+const parseDate = (raw: string | null, name: string): Date | null => {
+
+    if (raw === null || raw === "") return null;
+
+    const date = new Date(raw);
+
+    if (isNaN(date.getTime())) throw badRequest(`${name} must be an ISO 8601 date`);
+
+    return date;
+
+};
+
+/**
+ * @swagger
+ * /api/audit-events:
+ *   get:
+ *     tags:
+ *       - Audit
+ *     summary: Query the audit log
+ *     description: Returns a page of audit events, newest first, optionally narrowed down by actor, target, action and time range. Pass the returned `nextCursor` as `cursor` to fetch the next page. Admin only.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: actor
+ *         in: query
+ *         required: false
+ *         description: Id of the user who made the change
+ *         schema:
+ *           type: string
+ *       - name: targetType
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [user, product, category]
+ *       - name: targetId
+ *         in: query
+ *         required: false
+ *         description: Id of the changed user, product or category
+ *         schema:
+ *           type: string
+ *       - name: action
+ *         in: query
+ *         required: false
+ *         description: Exact action name, e.g. `product.update` or `auth.login_failed`
+ *         schema:
+ *           type: string
+ *       - name: from
+ *         in: query
+ *         required: false
+ *         description: Only events at or after this time
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - name: to
+ *         in: query
+ *         required: false
+ *         description: Only events before this time
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         description: Page size (1-100)
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - name: cursor
+ *         in: query
+ *         required: false
+ *         description: Opaque cursor from a previous response's `nextCursor`
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Page of audit events retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     $ref: "#/components/schemas/AuditEvent"
+ *                 limit:
+ *                   type: integer
+ *                   example: 20
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — admin only
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    await authorize(req, "admin");
+
+    const params = req.nextUrl.searchParams;
+
+    const { limit, cursor } = parseCursorParams(params);
+
+    const filter: Record<string, unknown> = {};
+
+    const actor = params.get("actor");
+
+    if (actor) filter.actor = parseMongoId(actor, "actor");
+
+    const targetType = params.get("targetType");
+
+    if (targetType) {
+
+        if (!AUDIT_TARGET_TYPES.includes(targetType as AuditTargetType)) throw badRequest(`targetType must be one of: ${AUDIT_TARGET_TYPES.join(", ")}`);
+
+        filter["target.type"] = targetType;
+
+    }
+
+    const targetId = params.get("targetId");
+
+    if (targetId) filter["target.id"] = parseMongoId(targetId, "target");
+
+    const action = params.get("action");
+
+    if (action) filter.action = action;
+
+    const from = parseDate(params.get("from"), "from");
+
+    const to = parseDate(params.get("to"), "to");
+
+    if (from && to && from >= to) throw badRequest("from must be earlier than to");
+
+    if (from || to) filter.createdAt = { ...(from ? { $gte: from } : {}), ...(to ? { $lt: to } : {}) };
+
+    const page = cursorQuery("createdAt", "desc", cursor);
+
+    const events = await AuditEvent.find({ $and: [filter, page.filter] })
+        .sort(page.sort)
+        .limit(limit + 1);
+
+    return NextResponse.json(toPage(events, limit, "createdAt", "desc"), { status: 200 });
+
+});
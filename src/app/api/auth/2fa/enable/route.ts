@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/errors";
+import { enableTwoFactor } from "@/lib/twoFactor";
+import { rateLimit, RATE_LIMITS } from "@/lib/rateLimit";
+import { revokeUserSessions } from "@/lib/session";
+import { twoFactorCodeSchema } from "@/lib/schemas";
+import { recordAudit } from "@/lib/audit";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+import { authorize } from "@/lib/auth";
+
+/**
+ * @swagger
+ * /api/auth/2fa/enable:
+ *   post:
+ *     tags:
+ *       - Auth
+ *     summary: Enable two-factor authentication
+ *     description: Confirms the secret from `/api/auth/2fa/setup` with a current code from the authenticator app. From then on logins need a code as a second step. Returns ten single-use recovery codes for when the app is unavailable; they are shown only this once. Every other session of the user is logged out.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/TwoFactorCodeInput"
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 recoveryCodes:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   example: ["k3f9a-pq2xm", "7hd2w-zx4nb"]
+ *       400:
+ *         description: Validation failed, or no setup was started
+ *       401:
+ *         description: Unauthorized, or wrong code
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ *       429:
+ *         description: Too many attempts, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const auth = await authorize(req);
+
+    const { code } = await parseBody(req, twoFactorCodeSchema);
+
+    await rateLimit(RATE_LIMITS.twoFactorPerUser, auth.id);
+
+    const recoveryCodes = await enableTwoFactor(auth.id, code);
+
+    await revokeUserSessions(auth.id, "two_factor_enable", auth.sessionId ?? undefined);
+
+    await recordAudit(req, { actor: auth, action: "user.2fa_enable", target: { type: "user", id: auth.id } });
+
+    return NextResponse.json({ recoveryCodes }, { status: 200 });
+
+});
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { notFound, withErrorHandling } from "@/lib/errors";
+import { authorize, unauthorized } from "@/lib/auth";
+import { isTwoFactorEnabled, regenerateRecoveryCodes, verifySecondFactor } from "@/lib/twoFactor";
+import { rateLimit, RATE_LIMITS } from "@/lib/rateLimit";
+import { secondFactorSchema } from "@/lib/schemas";
+import { recordAudit } from "@/lib/audit";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     tags:
+ *       - Auth
+ *     summary: Replace the recovery codes
+ *     description: Returns ten new recovery codes after checking a current code or one of the old recovery codes. The old codes stop working.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/SecondFactorInput"
+ *     responses:
+ *       200:
+ *         description: Recovery codes replaced
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 recoveryCodes:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   example: ["k3f9a-pq2xm", "7hd2w-zx4nb"]
+ *       400:
+ *         description: Validation failed, or not exactly one of `code` and `recoveryCode` given
+ *       401:
+ *         description: Unauthorized, or wrong code
+ *       404:
+ *         description: Two-factor authentication is not enabled
+ *       429:
+ *         description: Too many attempts, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const auth = await authorize(req);
+
+    const { code, recoveryCode } = await parseBody(req, secondFactorSchema);
+
+    await rateLimit(RATE_LIMITS.twoFactorPerUser, auth.id);
+
+    if (!(await isTwoFactorEnabled(auth.id))) throw notFound("Two-factor authentication is not enabled");
+
+    if (!(await verifySecondFactor(auth.id, { code, recoveryCode }))) throw unauthorized("Two-factor code is incorrect");
+
+    const recoveryCodes = await regenerateRecoveryCodes(auth.id);
+
+    await recordAudit(req, { actor: auth, action: "user.2fa_recovery_codes_regenerate", target: { type: "user", id: auth.id } });
+
+    return NextResponse.json({ recoveryCodes }, { status: 200 });
+
+});
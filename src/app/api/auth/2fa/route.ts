@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { notFound, withErrorHandling } from "@/lib/errors";
+import { authorize, unauthorized } from "@/lib/auth";
+import { disableTwoFactor, getTwoFactorStatus, isTwoFactorEnabled, verifySecondFactor } from "@/lib/twoFactor";
+import { rateLimit, RATE_LIMITS } from "@/lib/rateLimit";
+import { twoFactorDisableSchema } from "@/lib/schemas";
+import { comparePassword } from "@/lib/bcrypt";
+import { recordAudit } from "@/lib/audit";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+import User from "@/models/User";
+
+/**
+ * @swagger
+ * /api/auth/2fa:
+ *   get:
+ *     tags:
+ *       - Auth
+ *     summary: Get the two-factor authentication status
+ *     description: Tells whether two-factor authentication is enabled for the current user and how many unused recovery codes are left.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Status retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 enabled:
+ *                   type: boolean
+ *                   example: true
+ *                 enabledAt:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *                 recoveryCodesRemaining:
+ *                   type: integer
+ *                   example: 8
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const { id } = await authorize(req);
+
+    return NextResponse.json(await getTwoFactorStatus(id), { status: 200 });
+
+});
+
+/**
+ * @swagger
+ * /api/auth/2fa:
+ *   delete:
+ *     tags:
+ *       - Auth
+ *     summary: Disable two-factor authentication
+ *     description: Turns two-factor authentication off after checking the password and either a current code or a recovery code. Logins only need the password again afterwards.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/TwoFactorDisableInput"
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: Validation failed, or not exactly one of `code` and `recoveryCode` given
+ *       401:
+ *         description: Unauthorized, or wrong password or code
+ *       404:
+ *         description: Two-factor authentication is not enabled
+ *       429:
+ *         description: Too many attempts, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const DELETE = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const auth = await authorize(req);
+
+    const { password, code, recoveryCode } = await parseBody(req, twoFactorDisableSchema);
+
+    await rateLimit(RATE_LIMITS.twoFactorPerUser, auth.id);
+
+    const user = await User.findById(auth.id).select("password");
+
+    if (!user) throw notFound("User not found");
+
+    if (!(await comparePassword(password, user.password))) throw unauthorized("Password is incorrect");
+
+    if (!(await isTwoFactorEnabled(auth.id))) throw notFound("Two-factor authentication is not enabled");
+
+    if (!(await verifySecondFactor(auth.id, { code, recoveryCode }))) throw unauthorized("Two-factor code is incorrect");
+
+    await disableTwoFactor(auth.id);
+
+    await recordAudit(req, { actor: auth, action: "user.2fa_disable", target: { type: "user", id: auth.id } });
+
+    return NextResponse.json({ message: "Two-factor authentication disabled" }, { status: 200 });
+
+});
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { notFound, withErrorHandling } from "@/lib/errors";
+import { startTwoFactorSetup } from "@/lib/twoFactor";
+import { connectDB } from "@/lib/mongoose";
+import { authorize } from "@/lib/auth";
+import User from "@/models/User";
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     tags:
+ *       - Auth
+ *     summary: Start enrolling an authenticator app
+ *     description: Creates a new TOTP secret for the current user. Add it to an authenticator app, usually by showing `otpauthUri` as a QR code, then confirm with a code at `/api/auth/2fa/enable`. Until then logins are unchanged; calling this again replaces the unconfirmed secret.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 secret:
+ *                   type: string
+ *                   description: Base32 secret, for entering by hand
+ *                   example: "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP"
+ *                 otpauthUri:
+ *                   type: string
+ *                   example: "otpauth://totp/XYFORA%3Ainfo%40xyfora.se?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=XYFORA&algorithm=SHA1&digits=6&period=30"
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const { id } = await authorize(req);
+
+    const user = await User.findById(id).select("email");
+
+    if (!user) throw notFound("User not found");
+
+    const setup = await startTwoFactorSetup(id, user.email);
+
+    return NextResponse.json(setup, { status: 200 });
+
+});
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/errors";
+import { unauthorized } from "@/lib/auth";
+import { connectDB } from "@/lib/mongoose";
+import { rateLimit, rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { consumeUserToken, findUserToken } from "@/lib/userTokens";
+import { verifySecondFactor } from "@/lib/twoFactor";
+import { createSession } from "@/lib/session";
+import { recordAudit } from "@/lib/audit";
+import { applyBootstrapAdmin } from "@/lib/roles";
+import { parseBody } from "@/lib/validation";
+import { twoFactorLoginSchema } from "@/lib/schemas";
+import User from "@/models/User";
+
+/**
+ * @swagger
+ * /api/auth/login/2fa:
+ *   post:
+ *     tags:
+ *       - Auth
+ *     summary: Finish a login with a second factor
+ *     description: Second step of a login for accounts with two-factor authentication. Exchanges the `challengeToken` from `/api/auth/login` and either the current code from the authenticator app or one of the recovery codes for the same tokens `/api/auth/login` returns otherwise. A wrong code can be retried with the same challenge; a recovery code works only once.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/TwoFactorLoginInput"
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                   example: "675a3c92f1a3b9b529c7e301"
+ *                 fullname:
+ *                   type: string
+ *                   example: "XYFORA AB"
+ *                 email:
+ *                   type: string
+ *                   example: "info@xyfora.se"
+ *                 role:
+ *                   type: string
+ *                   example: "seller"
+ *                 emailVerified:
+ *                   type: boolean
+ *                   example: true
+ *                 token:
+ *                   type: string
+ *                   example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *                 refreshToken:
+ *                   type: string
+ *                   example: "675a3c92f1a3b9b529c7e312.q2v8Xn..."
+ *       400:
+ *         description: Validation failed, or not exactly one of `code` and `recoveryCode` given
+ *       401:
+ *         description: Wrong code, or the challenge is unknown, expired or already used
+ *       429:
+ *         description: Too many attempts from this IP or for this account, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    await rateLimitByIp(req, RATE_LIMITS.loginPerIp);
+
+    const { challengeToken, code, recoveryCode } = await parseBody(req, twoFactorLoginSchema);
+
+    const challenge = await findUserToken(challengeToken, "login_challenge");
+
+    if (!challenge) throw unauthorized("Invalid or expired login challenge, log in again");
+
+    const userId = challenge.user.toString();
+
+    // Codes only have a million values, so guesses are limited per account as well as per IP.
+    await rateLimit(RATE_LIMITS.twoFactorPerUser, userId);
+
+    const method = await verifySecondFactor(userId, { code, recoveryCode });
+
+    if (!method) {
+
+        await recordAudit(req, { actor: null, action: "auth.login_failed", target: { type: "user", id: userId }, metadata: { twoFactor: true } });
+
+        throw unauthorized("Two-factor code is incorrect");
+
+    }
+
+    // Used up only now, so a mistyped code does not end the login; a concurrent request may still have won.
+    if (!(await consumeUserToken(challengeToken, "login_challenge"))) throw unauthorized("Invalid or expired login challenge, log in again");
+
+    const user = await User.findById(userId);
+
+    if (!user) throw unauthorized("Invalid or expired login challenge, log in again");
+
+    await applyBootstrapAdmin(req, user);
+
+    const tokens = await createSession(userId, user.role, req);
+
+    await recordAudit(req, { actor: { id: userId, role: user.role }, action: "auth.login", target: { type: "user", id: user._id }, metadata: { twoFactor: method } });
+
+    return NextResponse.json({
+        id: user._id,
+        fullname: user.fullname,
+        email: user.email,
+        role: user.role,
+        emailVerified: user.emailVerified,
+        ...tokens,
+    }, { status: 200 });
+
+});
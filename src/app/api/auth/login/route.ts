@@ -1,7 +1,15 @@
 import { comparePassword } from "@/lib/bcrypt";
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/errors";
+import { unauthorized } from "@/lib/auth";
 import { connectDB } from "@/lib/mongoose";
-import { signToken } from "@/lib/jwt";
+import { assertLoginAllowed, rateLimit, rateLimitByIp, RATE_LIMITS, recordLoginFailure, recordLoginSuccess } from "@/lib/rateLimit";
+import { createSession } from "@/lib/session";
+import { recordAudit } from "@/lib/audit";
+import { applyBootstrapAdmin } from "@/lib/roles";
+import { isTwoFactorEnabled, issueLoginChallenge } from "@/lib/twoFactor";
+import { parseBody } from "@/lib/validation";
+import { loginSchema } from "@/lib/schemas";
 import User from "@/models/User";
 
 /**
@@ -11,25 +19,13 @@ import User from "@/models/User";
  *     tags:
  *       - Auth
  *     summary: User login
- *     description: Authenticates a user and returns a JWT token for authentication.
+ *     description: Authenticates a user and starts a session. Returns a short-lived JWT access token and a single-use refresh token for `/api/auth/refresh`. If the account has two-factor authentication, no tokens are returned yet; instead `twoFactorRequired` is true and `challengeToken` has to be sent with a code to `/api/auth/login/2fa` within five minutes.
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - email
- *               - password
- *             properties:
- *               email:
- *                 type: string
- *                 format: email
- *                 example: "info@xyfora.se"
- *               password:
- *                 type: string
- *                 format: password
- *                 example: "StrongPassword123"
+ *             $ref: "#/components/schemas/LoginInput"
  *     responses:
  *       200:
  *         description: Login successful
@@ -49,45 +45,78 @@ import User from "@/models/User";
  *                 token:
  *                   type: string
  *                   example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *                 refreshToken:
+ *                   type: string
+ *                   example: "675a3c92f1a3b9b529c7e312.q2v8Xn..."
+ *                 twoFactorRequired:
+ *                   type: boolean
+ *                   description: Only present, and true, when a second step is needed
+ *                   example: true
+ *                 challengeToken:
+ *                   type: string
+ *                   description: Only present when `twoFactorRequired` is true
+ *                   example: "Zp0c8nS1x..."
+ *       400:
+ *         description: Validation failed
  *       401:
  *         description: Invalid credentials
+ *       429:
+ *         description: Too many attempts from this IP or for this account. Repeated failures lock the account for progressively longer; see the `Retry-After` header.
  *       500:
  *         description: Internal server error
  */
 
-export async function POST(req: Request) {
+export const POST = withErrorHandling(async (req: NextRequest) => {
 
     await connectDB();
 
-    try {
+    await rateLimitByIp(req, RATE_LIMITS.loginPerIp);
 
-        const { email, password } = await req.json();
+    const { email, password } = await parseBody(req, loginSchema);
 
-        const user = await User.findOne({ email });
+    await rateLimit(RATE_LIMITS.loginPerEmail, email.toLowerCase());
 
-        if (!user || !(await comparePassword(password, user.password))) {
+    // Checked before bcrypt runs, so a locked account costs no hashing work.
+    await assertLoginAllowed(email);
 
-            return NextResponse.json(
-                { message: "Invalid credentials" },
-                { status: 401 }
-            );
+    const user = await User.findOne({ email });
 
-        }
+    if (!user || !(await comparePassword(password, user.password))) {
 
-        return NextResponse.json({
-            id: user._id,
-            fullname: user.fullname,
-            email: user.email,
-            token: signToken(user._id.toString()),
-        }, { status: 200 });
+        await recordLoginFailure(email);
 
-    } catch (error) {
+        await recordAudit(req, {
+            actor: null,
+            action: "auth.login_failed",
+            target: user ? { type: "user", id: user._id } : null,
+            metadata: { email }
+        });
 
-        return NextResponse.json(
-            { message: "Internal server error", error },
-            { status: 500 }
-        );
+        throw unauthorized("Invalid credentials");
 
     }
 
-};
\ No newline at end of file
+    await recordLoginSuccess(email);
+
+    if (await isTwoFactorEnabled(user._id.toString())) {
+
+        return NextResponse.json(await issueLoginChallenge(user._id.toString()), { status: 200 });
+
+    }
+
+    await applyBootstrapAdmin(req, user);
+
+    const tokens = await createSession(user._id.toString(), user.role, req);
+
+    await recordAudit(req, { actor: { id: user._id.toString(), role: user.role }, action: "auth.login", target: { type: "user", id: user._id } });
+
+    return NextResponse.json({
+        id: user._id,
+        fullname: user.fullname,
+        email: user.email,
+        role: user.role,
+        emailVerified: user.emailVerified,
+        ...tokens,
+    }, { status: 200 });
+
+});
\ No newline at end of file
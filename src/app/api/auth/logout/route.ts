@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/errors";
+import { authorize } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { connectDB } from "@/lib/mongoose";
+import { revokeSession, revokeUserSessions } from "@/lib/session";
+import { validate, validationError } from "@/lib/validation";
+import { logoutSchema } from "@/lib/schemas";
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     tags:
+ *       - Auth
+ *     summary: Log out
+ *     description: Revokes the session of the presented access token, invalidating its refresh token and every access token issued for it. Pass `all` to log out of every device.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/LogoutInput"
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized – invalid, expired or revoked token
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const user = await authorize(req);
+
+    // The body is optional here, so an empty or missing one means "this session only".
+    const result = validate(logoutSchema, await req.json().catch(() => ({})));
+
+    if (!result.success) throw validationError(result.errors);
+
+    if (result.data.all) await revokeUserSessions(user.id);
+
+    else if (user.sessionId) await revokeSession(user.sessionId);
+
+    await recordAudit(req, { actor: user, action: "auth.logout", target: { type: "user", id: user.id }, metadata: { all: result.data.all ?? false } });
+
+    return NextResponse.json({ message: "Logged out successfully" }, { status: 200 });
+
+});
@@ -0,0 +1,69 @@
+import { comparePassword, hashPassword } from "@/lib/bcrypt";
+import { notFound, withErrorHandling } from "@/lib/errors";
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, unauthorized } from "@/lib/auth";
+import { revokeUserSessions } from "@/lib/session";
+import { revokeUserApiKeys } from "@/lib/apiKeys";
+import { recordAudit } from "@/lib/audit";
+import { publishAccountEvent } from "@/lib/events";
+import { passwordChangeSchema } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+import User from "@/models/User";
+
+/**
+ * @swagger
+ * /api/auth/me/password:
+ *   put:
+ *     tags:
+ *       - Auth
+ *     summary: Change the password
+ *     description: Replaces the password after checking the current one. Every other session of the user is logged out; the session making the request stays active. All of the user's API keys are revoked and have to be created again.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/PasswordChangeInput"
+ *     responses:
+ *       200:
+ *         description: Password changed successfully
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized, or wrong current password
+ *       500:
+ *         description: Internal server error
+ */
+
+export const PUT = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const auth = await authorize(req);
+
+    const { currentPassword, newPassword } = await parseBody(req, passwordChangeSchema);
+
+    const user = await User.findById(auth.id).select("password");
+
+    if (!user) throw notFound("User not found");
+
+    if (!(await comparePassword(currentPassword, user.password))) throw unauthorized("Current password is incorrect");
+
+    user.password = await hashPassword(newPassword);
+
+    await user.save();
+
+    await revokeUserSessions(auth.id, "password_change", auth.sessionId ?? undefined);
+
+    const apiKeysRevoked = await revokeUserApiKeys(auth.id);
+
+    await recordAudit(req, { actor: auth, action: "user.password_change", target: { type: "user", id: auth.id }, metadata: { apiKeysRevoked } });
+
+    await publishAccountEvent(req, "account.password_changed", auth.id);
+
+    return NextResponse.json({ message: "Password changed successfully" }, { status: 200 });
+
+});
@@ -1,6 +1,15 @@
-import { NextResponse } from "next/server";
+import { accountDeleteSchema, profileUpdateSchema } from "@/lib/schemas";
+import { conflict, notFound, withErrorHandling } from "@/lib/errors";
+import { parseBody, validationError } from "@/lib/validation";
+import { NextRequest, NextResponse } from "next/server";
+import { sendVerificationEmail } from "@/lib/emails";
+import { authorize, unauthorized } from "@/lib/auth";
+import { deleteAccount } from "@/lib/accounts";
+import { recordAudit, userSnapshot } from "@/lib/audit";
+import { publishAccountEvent } from "@/lib/events";
+import { isTwoFactorEnabled } from "@/lib/twoFactor";
+import { comparePassword } from "@/lib/bcrypt";
 import { connectDB } from "@/lib/mongoose";
-import { verifyToken } from "@/lib/jwt";
 import User from "@/models/User";
 
 /**
@@ -10,46 +19,173 @@ import User from "@/models/User";
  *     tags:
  *       - Auth
  *     summary: Get current authenticated user
- *     description: Returns the authenticated user's details (id, fullname, email). Requires a valid Bearer JWT token.
+ *     description: Returns the authenticated user's details (id, fullname, email, role, emailVerified, twoFactorEnabled). Requires a valid Bearer JWT token from an active session.
  *     security:
  *       - BearerAuth: []
  *     responses:
  *       200:
  *         description: Successfully retrieved user information
  *       401:
- *         description: Unauthorized – invalid or missing token
+ *         description: Unauthorized – invalid, expired or revoked token
+ *       404:
+ *         description: User not found
  *       500:
  *         description: Internal server error
  */
 
-export async function GET(req: Request) {
+export const GET = withErrorHandling(async (req: NextRequest) => {
 
     await connectDB();
 
-    const authHeader = req.headers.get("authorization");
+    const { id } = await authorize(req);
 
-    if (!authHeader?.startsWith("Bearer ")) {
+    const user = await User.findById(id).select("fullname email role emailVerified");
 
-        return NextResponse.json({ message: "No token" }, { status: 401 });
+    if (!user) throw notFound("User not found");
 
-    }
+    return NextResponse.json({ ...user.toJSON(), twoFactorEnabled: await isTwoFactorEnabled(id) }, { status: 200 });
+
+});
+
+/**
+ * @swagger
+ * /api/auth/me:
+ *   patch:
+ *     tags:
+ *       - Auth
+ *     summary: Update the current user's profile
+ *     description: Updates the fullname and/or email address. Changing the email requires the current password, marks the account as unverified and sends a verification link to the new address.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/ProfileUpdateInput"
+ *     responses:
+ *       200:
+ *         description: Profile updated successfully
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized, or wrong current password
+ *       409:
+ *         description: Email already in use
+ *       500:
+ *         description: Internal server error
+ */
+
+export const PATCH = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const auth = await authorize(req);
+
+    const { id } = auth;
+
+    const { fullname, email, currentPassword } = await parseBody(req, profileUpdateSchema);
+
+    const user = await User.findById(id);
+
+    if (!user) throw notFound("User not found");
+
+    const before = userSnapshot(user);
+
+    const emailChanged = email !== undefined && email !== user.email;
+
+    if (emailChanged) {
+
+        if (!currentPassword) throw validationError([{ field: "currentPassword", message: "is required to change the email address" }]);
+
+        if (!(await comparePassword(currentPassword, user.password))) throw unauthorized("Current password is incorrect");
+
+        if (await User.exists({ email, _id: { $ne: id } })) throw conflict("Email already in use", [{ field: "email", message: "is already registered" }]);
 
-    const token = authHeader.split(" ")[1];
+        user.email = email;
 
-    try {
+        user.emailVerified = false;
 
-        const { id } = verifyToken(token);
+    }
+
+    if (fullname !== undefined) user.fullname = fullname;
 
-        const user = await User.findById(id).select("fullname email");
+    await user.save();
 
-        if (!user) return NextResponse.json({ message: "User not found" }, { status: 404 });
+    await recordAudit(req, { actor: auth, action: "user.update", target: { type: "user", id }, before, after: userSnapshot(user) });
 
-        return NextResponse.json(user, { status: 200 });
+    await publishAccountEvent(req, "account.updated", user);
 
-    } catch {
+    if (emailChanged) {
 
-        return NextResponse.json({ message: "Invalid token" }, { status: 401 });
+        await sendVerificationEmail({ id, fullname: user.fullname, email: user.email })
+            .catch((error) => console.error("Sending verification email failed:", error));
 
     }
 
-};
\ No newline at end of file
+    return NextResponse.json({
+        _id: user._id,
+        fullname: user.fullname,
+        email: user.email,
+        role: user.role,
+        emailVerified: user.emailVerified
+    }, { status: 200 });
+
+});
+
+/**
+ * @swagger
+ * /api/auth/me:
+ *   delete:
+ *     tags:
+ *       - Auth
+ *     summary: Delete the current user's account
+ *     description: Permanently deletes the account after confirming the password, together with its cart, sessions and pending email tokens. Accounts with products must choose to delete them or transfer them to another seller or admin. Orders are kept.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/AccountDeleteInput"
+ *     responses:
+ *       200:
+ *         description: Account deleted successfully
+ *       400:
+ *         description: Validation failed or invalid transfer target
+ *       401:
+ *         description: Unauthorized, or wrong password
+ *       500:
+ *         description: Internal server error
+ */
+
+export const DELETE = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const auth = await authorize(req);
+
+    const { id } = auth;
+
+    const { password, products, transferTo } = await parseBody(req, accountDeleteSchema);
+
+    const user = await User.findById(id).select("password fullname email role emailVerified");
+
+    if (!user) throw notFound("User not found");
+
+    if (!(await comparePassword(password, user.password))) throw unauthorized("Password is incorrect");
+
+    await deleteAccount(id, { products, transferTo });
+
+    await recordAudit(req, {
+        actor: auth,
+        action: "user.delete",
+        target: { type: "user", id },
+        before: userSnapshot(user),
+        metadata: { products: products ?? null, transferTo: transferTo ?? null }
+    });
+
+    return NextResponse.json({ message: "Account deleted successfully" }, { status: 200 });
+
+});
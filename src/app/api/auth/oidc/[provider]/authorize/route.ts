@@ -0,0 +1,61 @@
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { NextRequest, NextResponse } from "next/server";
+import { getProvider, startOidcLogin } from "@/lib/oidc";
+import { withErrorHandling } from "@/lib/errors";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/auth/oidc/{provider}/authorize:
+ *   post:
+ *     tags:
+ *       - Auth
+ *     summary: Start a sign-in with an external provider
+ *     description: Starts the OpenID Connect authorization code flow with PKCE. Send the user to `authorizationUrl`; the provider redirects them back to the app's callback page with `code` and `state`, which the app then posts to `/api/auth/oidc/{provider}/callback` within 10 minutes.
+ *     parameters:
+ *       - name: provider
+ *         in: path
+ *         required: true
+ *         description: Provider id from `/api/auth/oidc/providers`
+ *         schema:
+ *           type: string
+ *           example: "google"
+ *     responses:
+ *       200:
+ *         description: Sign-in started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 authorizationUrl:
+ *                   type: string
+ *                   example: "https://accounts.google.com/o/oauth2/v2/auth?response_type=code&client_id=...&code_challenge_method=S256"
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *       404:
+ *         description: Sign-in provider not found
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       502:
+ *         description: The provider could not be reached or is misconfigured
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ provider: string }> }) => {
+
+    await connectDB();
+
+    await rateLimitByIp(req, RATE_LIMITS.loginPerIp);
+
+    const { provider: providerId } = await context.params;
+
+    const provider = getProvider(providerId);
+
+    const result = await startOidcLogin(provider);
+
+    return NextResponse.json(result, { status: 200 });
+
+});
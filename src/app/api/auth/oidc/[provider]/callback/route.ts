@@ -0,0 +1,135 @@
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { NextRequest, NextResponse } from "next/server";
+import { completeOidcLogin, getProvider } from "@/lib/oidc";
+import { recordAudit, userSnapshot } from "@/lib/audit";
+import { withErrorHandling } from "@/lib/errors";
+import { oidcCallbackSchema } from "@/lib/schemas";
+import { createSession } from "@/lib/session";
+import { applyBootstrapAdmin } from "@/lib/roles";
+import { isTwoFactorEnabled, issueLoginChallenge } from "@/lib/twoFactor";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/auth/oidc/{provider}/callback:
+ *   post:
+ *     tags:
+ *       - Auth
+ *     summary: Finish a sign-in with an external provider
+ *     description: Exchanges the authorization code for an ID token, checks it and signs the user in with the same tokens as `/api/auth/login`. The provider account is linked to the user with the same email address, which the provider must have verified; without one a customer account is created. `created` tells whether that happened. Linking to an account whose address was never verified signs out its sessions, revokes its API keys, removes its two-factor enrollment and replaces its password. Accounts with two-factor authentication get `twoFactorRequired` and a `challengeToken` for `/api/auth/login/2fa` instead of tokens, as with `/api/auth/login`.
+ *     parameters:
+ *       - name: provider
+ *         in: path
+ *         required: true
+ *         description: Provider id from `/api/auth/oidc/providers`
+ *         schema:
+ *           type: string
+ *           example: "google"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/OidcCallbackInput"
+ *     responses:
+ *       200:
+ *         description: Sign-in successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                   example: "675a3c92f1a3b9b529c7e301"
+ *                 fullname:
+ *                   type: string
+ *                   example: "XYFORA AB"
+ *                 email:
+ *                   type: string
+ *                   example: "info@xyfora.se"
+ *                 role:
+ *                   type: string
+ *                   example: "customer"
+ *                 emailVerified:
+ *                   type: boolean
+ *                   example: true
+ *                 created:
+ *                   type: boolean
+ *                   example: false
+ *                 token:
+ *                   type: string
+ *                   example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *                 refreshToken:
+ *                   type: string
+ *                   example: "675a3c92f1a3b9b529c7e312.q2v8Xn..."
+ *                 twoFactorRequired:
+ *                   type: boolean
+ *                   description: Only present, and true, when a second step is needed
+ *                   example: true
+ *                 challengeToken:
+ *                   type: string
+ *                   description: Only present when `twoFactorRequired` is true
+ *                   example: "Zp0c8nS1x..."
+ *       400:
+ *         description: Validation failed, or the state is unknown, expired or already used
+ *       401:
+ *         description: The provider rejected the code, or the ID token is invalid
+ *       403:
+ *         description: The provider has not verified the user's email address
+ *       404:
+ *         description: Sign-in provider not found
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       502:
+ *         description: The provider could not be reached or answered with something unusable
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ provider: string }> }) => {
+
+    await connectDB();
+
+    await rateLimitByIp(req, RATE_LIMITS.loginPerIp);
+
+    const { provider: providerId } = await context.params;
+
+    const provider = getProvider(providerId);
+
+    const { code, state } = await parseBody(req, oidcCallbackSchema);
+
+    const { user, created, linked } = await completeOidcLogin(provider, code, state);
+
+    const actor = { id: user._id.toString(), role: user.role };
+
+    const target = { type: "user" as const, id: user._id };
+
+    if (created) await recordAudit(req, { actor, action: "user.register", target, after: userSnapshot(user), metadata: { provider: provider.id } });
+
+    if (linked) await recordAudit(req, { actor, action: "user.identity_link", target, metadata: { provider: provider.id } });
+
+    if (await isTwoFactorEnabled(user._id.toString())) {
+
+        return NextResponse.json(await issueLoginChallenge(user._id.toString()), { status: 200 });
+
+    }
+
+    await applyBootstrapAdmin(req, user);
+
+    const tokens = await createSession(user._id.toString(), user.role, req);
+
+    await recordAudit(req, { actor: { ...actor, role: user.role }, action: "auth.login", target, metadata: { provider: provider.id } });
+
+    return NextResponse.json({
+        id: user._id,
+        fullname: user.fullname,
+        email: user.email,
+        role: user.role,
+        emailVerified: user.emailVerified,
+        created,
+        ...tokens,
+    }, { status: 200 });
+
+});
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/errors";
+import { listProviders } from "@/lib/oidc";
+
+/**
+ * @swagger
+ * /api/auth/oidc/providers:
+ *   get:
+ *     tags:
+ *       - Auth
+ *     summary: List sign-in providers
+ *     description: Returns the OpenID Connect providers users can sign in with, as configured in `OIDC_PROVIDERS`. No authentication required.
+ *     responses:
+ *       200:
+ *         description: Providers retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: string
+ *                     example: "google"
+ *                   name:
+ *                     type: string
+ *                     example: "Google"
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async () => {
+
+    return NextResponse.json(listProviders(), { status: 200 });
+
+});
@@ -0,0 +1,63 @@
+import { rateLimit, rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { NextRequest, NextResponse } from "next/server";
+import { sendPasswordResetEmail } from "@/lib/emails";
+import { recordAudit } from "@/lib/audit";
+import { forgotPasswordSchema } from "@/lib/schemas";
+import { withErrorHandling } from "@/lib/errors";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+import User from "@/models/User";
+
+/**
+ * @swagger
+ * /api/auth/password/forgot:
+ *   post:
+ *     tags:
+ *       - Auth
+ *     summary: Request a password reset
+ *     description: Emails a password reset link valid for one hour. Always answers the same way whether or not an account exists, so it cannot be used to find out which addresses are registered.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/ForgotPasswordInput"
+ *     responses:
+ *       200:
+ *         description: Reset email sent if the account exists
+ *       400:
+ *         description: Validation failed
+ *       429:
+ *         description: Too many requests, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    await rateLimitByIp(req, RATE_LIMITS.accountEmailPerIp);
+
+    const { email } = await parseBody(req, forgotPasswordSchema);
+
+    await rateLimit(RATE_LIMITS.accountEmailPerAddress, email.toLowerCase());
+
+    const user = await User.findOne({ email }).select("fullname email");
+
+    if (user) {
+
+        // Failing the request would tell registered addresses apart from unknown ones, so a mail outage is only logged.
+        await sendPasswordResetEmail({ id: user._id.toString(), fullname: user.fullname, email: user.email })
+            .catch((error) => console.error("Sending password reset email failed:", error));
+
+        await recordAudit(req, { actor: null, action: "user.password_reset_request", target: { type: "user", id: user._id } });
+
+    }
+
+    return NextResponse.json(
+        { message: "If an account with that email exists, a password reset link has been sent" },
+        { status: 200 }
+    );
+
+});
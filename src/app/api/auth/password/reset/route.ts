@@ -0,0 +1,74 @@
+import { badRequest, withErrorHandling } from "@/lib/errors";
+import { NextRequest, NextResponse } from "next/server";
+import { resetPasswordSchema } from "@/lib/schemas";
+import { revokeUserSessions } from "@/lib/session";
+import { revokeUserApiKeys } from "@/lib/apiKeys";
+import { recordAudit, userSnapshot } from "@/lib/audit";
+import { publishAccountEvent } from "@/lib/events";
+import { consumeUserToken } from "@/lib/userTokens";
+import { hashPassword } from "@/lib/bcrypt";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+import User from "@/models/User";
+
+/**
+ * @swagger
+ * /api/auth/password/reset:
+ *   post:
+ *     tags:
+ *       - Auth
+ *     summary: Reset the password
+ *     description: Sets a new password using the token from the password reset email and logs the account out of every session. All of the user's API keys are revoked too. Since the user proved control of the address the email was sent to, that address is marked as verified too, unless the account has switched to another address since.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/ResetPasswordInput"
+ *     responses:
+ *       200:
+ *         description: Password reset successfully
+ *       400:
+ *         description: Validation failed, or the token is invalid, expired or already used
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const { token, password } = await parseBody(req, resetPasswordSchema);
+
+    const userToken = await consumeUserToken(token, "password_reset");
+
+    if (!userToken) throw badRequest("Invalid or expired password reset token");
+
+    const user = await User.findByIdAndUpdate(userToken.user, { password: await hashPassword(password) });
+
+    if (!user) throw badRequest("Invalid or expired password reset token");
+
+    // Following the link proves control of the address it was sent to, which
+    // only verifies the account if the account still uses that address.
+    const emailVerified = user.emailVerified || (!!userToken.email &&
+        (await User.updateOne({ _id: user._id, email: userToken.email }, { emailVerified: true })).modifiedCount === 1);
+
+    await revokeUserSessions(user._id.toString(), "password_reset");
+
+    const apiKeysRevoked = await revokeUserApiKeys(user._id.toString());
+
+    // findByIdAndUpdate returned the account as it was before the reset.
+    await recordAudit(req, {
+        actor: { id: user._id.toString(), role: user.role },
+        action: "user.password_reset",
+        target: { type: "user", id: user._id },
+        before: userSnapshot(user),
+        after: { ...userSnapshot(user), emailVerified },
+        metadata: { apiKeysRevoked }
+    });
+
+    await publishAccountEvent(req, "account.password_changed", user._id.toString());
+
+    return NextResponse.json({ message: "Password reset successfully" }, { status: 200 });
+
+});
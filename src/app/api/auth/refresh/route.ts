@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/errors";
+import { unauthorized } from "@/lib/auth";
+import { connectDB } from "@/lib/mongoose";
+import { rotateSession } from "@/lib/session";
+import { recordAudit } from "@/lib/audit";
+import { verifyToken } from "@/lib/jwt";
+import { parseBody } from "@/lib/validation";
+import { refreshSchema } from "@/lib/schemas";
+
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     tags:
+ *       - Auth
+ *     summary: Refresh the access token
+ *     description: Exchanges a refresh token for a new access token and a new refresh token. Each refresh token is single-use; replaying an already rotated token revokes the whole session.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/RefreshInput"
+ *     responses:
+ *       200:
+ *         description: Tokens rotated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 token:
+ *                   type: string
+ *                   example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *                 refreshToken:
+ *                   type: string
+ *                   example: "675a3c92f1a3b9b529c7e312.Zk3pQa..."
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Invalid, expired, reused or revoked refresh token
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const { refreshToken } = await parseBody(req, refreshSchema);
+
+    const tokens = await rotateSession(refreshToken);
+
+    if (!tokens) throw unauthorized("Invalid refresh token");
+
+    const { id, role } = verifyToken(tokens.token);
+
+    await recordAudit(req, { actor: { id, role }, action: "auth.refresh", target: { type: "user", id } });
+
+    return NextResponse.json(tokens, { status: 200 });
+
+});
@@ -1,7 +1,13 @@
 import { hashPassword } from "@/lib/bcrypt";
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { conflict, withErrorHandling } from "@/lib/errors";
 import { connectDB } from "@/lib/mongoose";
-import { signToken } from "@/lib/jwt";
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { sendVerificationEmail } from "@/lib/emails";
+import { createSession } from "@/lib/session";
+import { recordAudit, userSnapshot } from "@/lib/audit";
+import { parseBody } from "@/lib/validation";
+import { registerSchema } from "@/lib/schemas";
 import User from "@/models/User";
 
 /**
@@ -14,88 +20,66 @@ import User from "@/models/User";
  *     tags:
  *       - Auth
  *     summary: Register a new user
- *     description: Creates a new user account and returns a JWT token for authentication.
+ *     description: Creates a new customer account, sends an email verification link and starts a session. The seller and admin roles are only granted by an admin through `/api/users/{id}/role`, except that addresses listed in `ADMIN_EMAILS` become admins once verified. Returns a short-lived JWT access token and a refresh token.
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - fullname
- *               - email
- *               - password
- *             properties:
- *               fullname:
- *                 type: string
- *                 example: XYFORA AB
- *               email:
- *                 type: string
- *                 format: email
- *                 example: info@xyfora.se
- *               password:
- *                 type: string
- *                 format: password
- *                 example: StrongPassword123
+ *             $ref: "#/components/schemas/RegisterInput"
  *     responses:
  *       201:
  *         description: User registered successfully
  *       400:
- *         description: Missing fields or user already exists
+ *         description: Validation failed
+ *       409:
+ *         description: User already exists
+ *       429:
+ *         description: Too many registrations from this IP, see the `Retry-After` header
  *       500:
  *         description: Internal server error
  */
 
-export async function POST(req: Request) {
+export const POST = withErrorHandling(async (req: NextRequest) => {
 
     await connectDB();
 
-    try {
+    await rateLimitByIp(req, RATE_LIMITS.registerPerIp);
 
-        const { fullname, email, password } = await req.json();
+    const { fullname, email, password } = await parseBody(req, registerSchema);
 
-        if (!fullname || !email || !password) {
+    const existingUser = await User.findOne({ email });
 
-            return NextResponse.json(
-                { message: "All fields are required" },
-                { status: 400 }
-            );
+    if (existingUser) throw conflict("User already exists", [{ field: "email", message: "is already registered" }]);
 
-        }
+    const hashed = await hashPassword(password);
 
-        const existingUser = await User.findOne({ email });
+    const user = await User.create({
+        fullname,
+        email,
+        password: hashed
+    });
 
-        if (existingUser) {
+    // A mail outage should not fail the signup; the user can request a new link.
+    await sendVerificationEmail({ id: user._id.toString(), fullname: user.fullname, email: user.email })
+        .catch((error) => console.error("Sending verification email failed:", error));
 
-            return NextResponse.json(
-                { message: "User already exists" },
-                { status: 400 }
-            );
+    const tokens = await createSession(user._id.toString(), user.role, req);
 
-        }
+    await recordAudit(req, {
+        actor: { id: user._id.toString(), role: user.role },
+        action: "user.register",
+        target: { type: "user", id: user._id },
+        after: userSnapshot(user)
+    });
 
-        const hashed = await hashPassword(password);
+    return NextResponse.json({
+        id: user._id,
+        fullname: user.fullname,
+        email: user.email,
+        role: user.role,
+        emailVerified: user.emailVerified,
+        ...tokens,
+    }, { status: 201 });
 
-        const user = await User.create({
-            fullname,
-            email,
-            password: hashed
-        });
-
-        return NextResponse.json({
-            id: user._id,
-            fullname: user.fullname,
-            email: user.email,
-            token: signToken(user._id.toString()),
-        }, { status: 201 });
-
-    } catch (error) {
-
-        return NextResponse.json(
-            { message: "Internal server error", error },
-            { status: 500 }
-        );
-
-    }
-
-};
\ No newline at end of file
+});
\ No newline at end of file
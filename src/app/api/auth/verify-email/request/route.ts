@@ -0,0 +1,55 @@
+import { badRequest, notFound, withErrorHandling } from "@/lib/errors";
+import { rateLimit, RATE_LIMITS } from "@/lib/rateLimit";
+import { NextRequest, NextResponse } from "next/server";
+import { sendVerificationEmail } from "@/lib/emails";
+import { connectDB } from "@/lib/mongoose";
+import { authorize } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import User from "@/models/User";
+
+/**
+ * @swagger
+ * /api/auth/verify-email/request:
+ *   post:
+ *     tags:
+ *       - Auth
+ *     summary: Resend the verification email
+ *     description: Sends a new verification link to the authenticated user's email address. Earlier links stop working.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification email sent
+ *       400:
+ *         description: Email already verified
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       429:
+ *         description: Too many emails requested, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const auth = await authorize(req);
+
+    const { id: userId } = auth;
+
+    const user = await User.findById(userId).select("fullname email emailVerified");
+
+    if (!user) throw notFound("User not found");
+
+    if (user.emailVerified) throw badRequest("Email is already verified");
+
+    await rateLimit(RATE_LIMITS.accountEmailPerAddress, user.email.toLowerCase());
+
+    await sendVerificationEmail({ id: userId, fullname: user.fullname, email: user.email });
+
+    await recordAudit(req, { actor: auth, action: "user.email_verification_request", target: { type: "user", id: userId } });
+
+    return NextResponse.json({ message: "Verification email sent" }, { status: 200 });
+
+});
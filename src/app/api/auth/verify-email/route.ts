@@ -0,0 +1,68 @@
+import { badRequest, withErrorHandling } from "@/lib/errors";
+import { NextRequest, NextResponse } from "next/server";
+import { consumeUserToken } from "@/lib/userTokens";
+import { recordAudit } from "@/lib/audit";
+import { applyBootstrapAdmin } from "@/lib/roles";
+import { publishAccountEvent } from "@/lib/events";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+import { tokenSchema } from "@/lib/schemas";
+import User from "@/models/User";
+
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   post:
+ *     tags:
+ *       - Auth
+ *     summary: Verify the email address
+ *     description: Consumes the token from the verification email and marks the address it was sent to as verified. Tokens are single-use and expire after 24 hours.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/TokenInput"
+ *     responses:
+ *       200:
+ *         description: Email verified successfully
+ *       400:
+ *         description: Validation failed, or the token is invalid, expired or already used
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const { token } = await parseBody(req, tokenSchema);
+
+    const userToken = await consumeUserToken(token, "email_verification");
+
+    if (!userToken) throw badRequest("Invalid or expired verification token");
+
+    // Only verifies the address the link was sent to, not whatever the account uses now.
+    const user = await User.findOneAndUpdate(
+        { _id: userToken.user, email: userToken.email },
+        { emailVerified: true },
+        { new: true }
+    );
+
+    if (!user) throw badRequest("Invalid or expired verification token");
+
+    await recordAudit(req, {
+        actor: { id: user._id.toString(), role: user.role },
+        action: "user.email_verify",
+        target: { type: "user", id: user._id },
+        before: { emailVerified: false },
+        after: { emailVerified: true }
+    });
+
+    await applyBootstrapAdmin(req, user);
+
+    await publishAccountEvent(req, "account.email_verified", user);
+
+    return NextResponse.json({ message: "Email verified successfully" }, { status: 200 });
+
+});
@@ -0,0 +1,162 @@
+import { removeCartItem, setCartItemQuantity, toCartView } from "@/lib/cart";
+import { NextRequest, NextResponse } from "next/server";
+import { parseCurrency, SUPPORTED_CURRENCIES } from "@/lib/money";
+import { authorize, parseMongoId } from "@/lib/auth";
+import { badRequest, withErrorHandling } from "@/lib/errors";
+import { cartItemUpdateSchema } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/cart/items/{productId}:
+ *   patch:
+ *     tags:
+ *       - Cart
+ *     summary: Change the quantity of a cart item
+ *     description: Sets the quantity of a product that is already in the authenticated user's cart.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: productId
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId of the product
+ *         schema:
+ *           type: string
+ *           example: "675a3c92f1a3b9b529c7e312"
+ *       - name: variant
+ *         in: query
+ *         required: false
+ *         description: MongoDB ObjectId of the variant, for lines of products with variants
+ *         schema:
+ *           type: string
+ *           example: "675d2a10c4e6fa05b3c9da11"
+ *       - name: currency
+ *         in: query
+ *         required: false
+ *         description: Currency to price the cart in, the base currency by default
+ *         schema:
+ *           type: string
+ *           example: "EUR"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/CartItemUpdateInput"
+ *     responses:
+ *       200:
+ *         description: Quantity updated, returns the updated cart
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/Cart"
+ *       400:
+ *         description: Validation failed, invalid ID, or the currency is not supported
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       404:
+ *         description: Product is not in the cart
+ *       500:
+ *         description: Internal server error
+ */
+
+export const PATCH = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ productId: string }> }) => {
+
+    await connectDB();
+
+    const { productId: rawId } = await context.params;
+
+    const { id: userId } = await authorize(req);
+
+    const currency = parseCurrency(req.nextUrl.searchParams.get("currency"));
+
+    if (currency === null) throw badRequest(`currency must be one of ${SUPPORTED_CURRENCIES.join(", ")}`);
+
+    const productId = parseMongoId(rawId, "product");
+
+    const rawVariant = req.nextUrl.searchParams.get("variant");
+
+    const variantId = rawVariant ? parseMongoId(rawVariant, "variant") : undefined;
+
+    const { quantity } = await parseBody(req, cartItemUpdateSchema);
+
+    const cart = await setCartItemQuantity(userId, productId, quantity, variantId);
+
+    return NextResponse.json(await toCartView(cart, currency), { status: 200 });
+
+});
+
+/**
+ * @swagger
+ * /api/cart/items/{productId}:
+ *   delete:
+ *     tags:
+ *       - Cart
+ *     summary: Remove an item from the cart
+ *     description: Removes a product from the authenticated user's cart, including lines whose product has since been deleted.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: productId
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId of the product
+ *         schema:
+ *           type: string
+ *           example: "675a3c92f1a3b9b529c7e312"
+ *       - name: variant
+ *         in: query
+ *         required: false
+ *         description: MongoDB ObjectId of the variant, for lines of products with variants
+ *         schema:
+ *           type: string
+ *           example: "675d2a10c4e6fa05b3c9da11"
+ *       - name: currency
+ *         in: query
+ *         required: false
+ *         description: Currency to price the cart in, the base currency by default
+ *         schema:
+ *           type: string
+ *           example: "EUR"
+ *     responses:
+ *       200:
+ *         description: Item removed, returns the updated cart
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/Cart"
+ *       400:
+ *         description: Invalid ID, or the currency is not supported
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       404:
+ *         description: Product is not in the cart
+ *       500:
+ *         description: Internal server error
+ */
+
+export const DELETE = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ productId: string }> }) => {
+
+    await connectDB();
+
+    const { productId: rawId } = await context.params;
+
+    const { id: userId } = await authorize(req);
+
+    const currency = parseCurrency(req.nextUrl.searchParams.get("currency"));
+
+    if (currency === null) throw badRequest(`currency must be one of ${SUPPORTED_CURRENCIES.join(", ")}`);
+
+    const productId = parseMongoId(rawId, "product");
+
+    const rawVariant = req.nextUrl.searchParams.get("variant");
+
+    const variantId = rawVariant ? parseMongoId(rawVariant, "variant") : undefined;
+
+    const cart = await removeCartItem(userId, productId, variantId);
+
+    return NextResponse.json(await toCartView(cart, currency), { status: 200 });
+
+});
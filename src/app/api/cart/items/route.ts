@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseCurrency, SUPPORTED_CURRENCIES } from "@/lib/money";
+import { addCartItem, toCartView } from "@/lib/cart";
+import { badRequest, withErrorHandling } from "@/lib/errors";
+import { cartItemAddSchema } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+import { authorize } from "@/lib/auth";
+
+/**
+ * @swagger
+ * /api/cart/items:
+ *   post:
+ *     tags:
+ *       - Cart
+ *     summary: Add an item to the cart
+ *     description: Adds a published product to the authenticated user's cart. For products with variants, `variantId` picks the variant and each variant gets its own line. Adding a product that is already in the cart increases its quantity.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: currency
+ *         in: query
+ *         required: false
+ *         description: Currency to price the cart in, the base currency by default
+ *         schema:
+ *           type: string
+ *           example: "EUR"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/CartItemAddInput"
+ *     responses:
+ *       200:
+ *         description: Item added, returns the updated cart
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/Cart"
+ *       400:
+ *         description: Validation failed, `variantId` missing for a product with variants, or the currency is not supported
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       404:
+ *         description: Product or variant not found
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const { id: userId } = await authorize(req);
+
+    const currency = parseCurrency(req.nextUrl.searchParams.get("currency"));
+
+    if (currency === null) throw badRequest(`currency must be one of ${SUPPORTED_CURRENCIES.join(", ")}`);
+
+    const { productId, variantId, quantity = 1 } = await parseBody(req, cartItemAddSchema);
+
+    const cart = await addCartItem(userId, productId, quantity, variantId);
+
+    return NextResponse.json(await toCartView(cart, currency), { status: 200 });
+
+});
@@ -0,0 +1,111 @@
+import { clearCart, getOrCreateCart, toCartView } from "@/lib/cart";
+import { NextRequest, NextResponse } from "next/server";
+import { parseCurrency, SUPPORTED_CURRENCIES } from "@/lib/money";
+import { badRequest, withErrorHandling } from "@/lib/errors";
+import { connectDB } from "@/lib/mongoose";
+import { authorize } from "@/lib/auth";
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Cart
+ *     description: Shopping cart of the authenticated user
+ */
+
+/**
+ * @swagger
+ * /api/cart:
+ *   get:
+ *     tags:
+ *       - Cart
+ *     summary: Get the cart
+ *     description: Returns the authenticated user's cart, priced from the current product prices. Items whose product was deleted or unpublished are flagged and excluded from the subtotal.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: currency
+ *         in: query
+ *         required: false
+ *         description: Currency to price the cart in, the base currency by default
+ *         schema:
+ *           type: string
+ *           example: "EUR"
+ *     responses:
+ *       200:
+ *         description: Cart retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/Cart"
+ *       400:
+ *         description: The currency is not supported
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const { id: userId } = await authorize(req);
+
+    const currency = parseCurrency(req.nextUrl.searchParams.get("currency"));
+
+    if (currency === null) throw badRequest(`currency must be one of ${SUPPORTED_CURRENCIES.join(", ")}`);
+
+    const cart = await getOrCreateCart(userId);
+
+    return NextResponse.json(await toCartView(cart, currency), { status: 200 });
+
+});
+
+/**
+ * @swagger
+ * /api/cart:
+ *   delete:
+ *     tags:
+ *       - Cart
+ *     summary: Clear the cart
+ *     description: Removes every item from the authenticated user's cart.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: currency
+ *         in: query
+ *         required: false
+ *         description: Currency to price the cart in, the base currency by default
+ *         schema:
+ *           type: string
+ *           example: "EUR"
+ *     responses:
+ *       200:
+ *         description: Cart cleared successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/Cart"
+ *       400:
+ *         description: The currency is not supported
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       500:
+ *         description: Internal server error
+ */
+
+export const DELETE = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const { id: userId } = await authorize(req);
+
+    const currency = parseCurrency(req.nextUrl.searchParams.get("currency"));
+
+    if (currency === null) throw badRequest(`currency must be one of ${SUPPORTED_CURRENCIES.join(", ")}`);
+
+    const cart = await clearCart(userId);
+
+    return NextResponse.json(await toCartView(cart, currency), { status: 200 });
+
+});
@@ -0,0 +1,173 @@
+import { MAX_PAGE_LIMIT, parseLimit, parsePageNumber } from "@/lib/pagination";
+import { NextRequest, NextResponse } from "next/server";
+import { badRequest, withErrorHandling } from "@/lib/errors";
+import { categoryWithDescendants } from "@/lib/categories";
+import { parseCurrency, SUPPORTED_CURRENCIES, toMoneyView } from "@/lib/money";
+import { connectDB } from "@/lib/mongoose";
+import { priceIn } from "@/lib/pricing";
+import { parseMongoId } from "@/lib/auth";
+import Product, { PUBLISHED_FILTER } from "@/models/Product";
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Catalog
+ *     description: Public storefront browsing and search
+ */
+
+/**
+ * @swagger
+ * /api/catalog:
+ *   get:
+ *     tags:
+ *       - Catalog
+ *     summary: Browse and search published products
+ *     description: Lists published products of all sellers. Without `q` the newest products come first; with `q` products are full-text searched over title and description and ranked by relevance, title matches weighing most. Relevance scores cannot be used as a cursor, so this endpoint is paged by page number. No authentication required.
+ *     parameters:
+ *       - name: q
+ *         in: query
+ *         required: false
+ *         description: Search terms. Supports quoted phrases and `-term` exclusion.
+ *         schema:
+ *           type: string
+ *           example: "macbook pro"
+ *       - name: category
+ *         in: query
+ *         required: false
+ *         description: Only products in this category or any of its subcategories
+ *         schema:
+ *           type: string
+ *           example: "675d1f22c4e6fa05b3c9da01"
+ *       - name: currency
+ *         in: query
+ *         required: false
+ *         description: Currency of `displayPrice`; the base currency or one with a configured exchange rate
+ *         schema:
+ *           type: string
+ *           example: "EUR"
+ *       - name: page
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         description: Page size (1-100)
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Page of published products
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                         example: "675a3c92f1a3b9b529c7e312"
+ *                       title:
+ *                         type: string
+ *                         example: "Macbook"
+ *                       description:
+ *                         type: string
+ *                         example: "14-inch laptop with M3 chip"
+ *                       price:
+ *                         $ref: "#/components/schemas/Money"
+ *                       displayPrice:
+ *                         allOf:
+ *                           - $ref: "#/components/schemas/Money"
+ *                         description: The price in the requested currency, from a fixed override or converted
+ *                       currency:
+ *                         type: string
+ *                         example: "SEK"
+ *                       categories:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                         example: ["675d1f22c4e6fa05b3c9da01"]
+ *                       variants:
+ *                         type: array
+ *                         items:
+ *                           $ref: "#/components/schemas/ProductVariant"
+ *                       author:
+ *                         type: object
+ *                         properties:
+ *                           fullname:
+ *                             type: string
+ *                             example: "XYFORA AB"
+ *                       score:
+ *                         type: number
+ *                         description: Relevance score, only present when searching
+ *                         example: 10.5
+ *                 page:
+ *                   type: integer
+ *                   example: 1
+ *                 limit:
+ *                   type: integer
+ *                   example: 20
+ *                 total:
+ *                   type: integer
+ *                   example: 134
+ *       400:
+ *         description: Invalid query parameters
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const params = req.nextUrl.searchParams;
+
+    const limit = parseLimit(params.get("limit"));
+
+    if (limit === null) throw badRequest(`limit must be an integer between 1 and ${MAX_PAGE_LIMIT}`);
+
+    const page = parsePageNumber(params.get("page"));
+
+    if (page === null) throw badRequest("page must be a positive integer");
+
+    const currency = parseCurrency(params.get("currency"));
+
+    if (currency === null) throw badRequest(`currency must be one of ${SUPPORTED_CURRENCIES.join(", ")}`);
+
+    const q = params.get("q")?.trim();
+
+    const filter: Record<string, unknown> = { ...PUBLISHED_FILTER };
+
+    if (q) filter.$text = { $search: q };
+
+    const category = params.get("category");
+
+    if (category) filter.categories = { $in: await categoryWithDescendants(parseMongoId(category, "category")) };
+
+    const query = q
+        ? Product.find(filter, { score: { $meta: "textScore" } }).sort({ score: { $meta: "textScore" }, _id: -1 })
+        : Product.find(filter).sort({ createdAt: -1, _id: -1 });
+
+    const [items, total] = await Promise.all([
+        query
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .populate("author", "fullname"),
+        Product.countDocuments(filter)
+    ]);
+
+    return NextResponse.json({
+        items: items.map((item) => ({ ...item.toJSON(), displayPrice: toMoneyView(priceIn(item, currency)) })),
+        page,
+        limit,
+        total
+    }, { status: 200 });
+
+});
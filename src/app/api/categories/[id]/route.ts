@@ -0,0 +1,190 @@
+import { deleteCategory, findCategory, updateCategory } from "@/lib/categories";
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, parseMongoId } from "@/lib/auth";
+import { categorySnapshot, recordAudit } from "@/lib/audit";
+import { withErrorHandling } from "@/lib/errors";
+import { categorySchema } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+import Category from "@/models/Category";
+
+/**
+ * @swagger
+ * /api/categories/{id}:
+ *   get:
+ *     tags:
+ *       - Categories
+ *     summary: Get a category
+ *     description: Returns a category with its direct subcategories. No authentication required.
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId
+ *         schema:
+ *           type: string
+ *           example: "675d1f22c4e6fa05b3c9da01"
+ *     responses:
+ *       200:
+ *         description: Category retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: "#/components/schemas/Category"
+ *                 - type: object
+ *                   properties:
+ *                     children:
+ *                       type: array
+ *                       items:
+ *                         $ref: "#/components/schemas/Category"
+ *       400:
+ *         description: Invalid ID format
+ *       404:
+ *         description: Category not found
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const id = parseMongoId(rawId, "category");
+
+    const category = await findCategory(id);
+
+    const children = await Category.find({ parent: category._id }).sort({ name: 1, _id: 1 });
+
+    return NextResponse.json({ ...category.toObject(), children }, { status: 200 });
+
+});
+
+/**
+ * @swagger
+ * /api/categories/{id}:
+ *   put:
+ *     tags:
+ *       - Categories
+ *     summary: Update or move a category
+ *     description: Replaces the name, description and parent of a category; omitting `parent` makes it a top-level category. Moving a category moves its whole subtree along. Admin only.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId
+ *         schema:
+ *           type: string
+ *           example: "675d1f22c4e6fa05b3c9da01"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/CategoryInput"
+ *     responses:
+ *       200:
+ *         description: Category updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/Category"
+ *       400:
+ *         description: Validation failed, the parent does not exist, or it is the category itself or one of its subcategories
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — requires the admin role
+ *       404:
+ *         description: Category not found
+ *       409:
+ *         description: A sibling category with the same slug already exists
+ *       500:
+ *         description: Internal server error
+ */
+
+export const PUT = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const auth = await authorize(req, "admin");
+
+    const id = parseMongoId(rawId, "category");
+
+    const body = await parseBody(req, categorySchema);
+
+    const existing = await findCategory(id);
+
+    const before = categorySnapshot(existing);
+
+    const category = await updateCategory(existing, body);
+
+    await recordAudit(req, { actor: auth, action: "category.update", target: { type: "category", id }, before, after: categorySnapshot(category) });
+
+    return NextResponse.json(category, { status: 200 });
+
+});
+
+/**
+ * @swagger
+ * /api/categories/{id}:
+ *   delete:
+ *     tags:
+ *       - Categories
+ *     summary: Delete a category
+ *     description: Deletes a category that has no subcategories and no products. Admin only.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId
+ *         schema:
+ *           type: string
+ *           example: "675d1f22c4e6fa05b3c9da01"
+ *     responses:
+ *       200:
+ *         description: Category deleted successfully
+ *       400:
+ *         description: Invalid ID format
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — requires the admin role
+ *       404:
+ *         description: Category not found
+ *       409:
+ *         description: The category still has subcategories or products, counting products in the trash
+ *       500:
+ *         description: Internal server error
+ */
+
+export const DELETE = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const auth = await authorize(req, "admin");
+
+    const id = parseMongoId(rawId, "category");
+
+    const category = await findCategory(id);
+
+    await deleteCategory(category);
+
+    await recordAudit(req, { actor: auth, action: "category.delete", target: { type: "category", id }, before: categorySnapshot(category) });
+
+    return NextResponse.json(
+        { message: "Category deleted successfully" },
+        { status: 200 }
+    );
+
+});
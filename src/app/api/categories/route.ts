@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, parseMongoId } from "@/lib/auth";
+import { createCategory } from "@/lib/categories";
+import { categorySnapshot, recordAudit } from "@/lib/audit";
+import { withErrorHandling } from "@/lib/errors";
+import { categorySchema } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+import Category from "@/models/Category";
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Categories
+ *     description: Product category tree
+ */
+
+/**
+ * @swagger
+ * /api/categories:
+ *   get:
+ *     tags:
+ *       - Categories
+ *     summary: List categories
+ *     description: Returns every category sorted by name, each with its parent and ancestor path so clients can build the tree. Pass `parent` to only get the direct children of one category, or `root` for the top-level ones. No authentication required.
+ *     parameters:
+ *       - name: parent
+ *         in: query
+ *         required: false
+ *         description: MongoDB ObjectId of a category, or `root`
+ *         schema:
+ *           type: string
+ *           example: "root"
+ *     responses:
+ *       200:
+ *         description: Categories retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/Category"
+ *       400:
+ *         description: Invalid parent ID
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const parent = req.nextUrl.searchParams.get("parent");
+
+    const filter = !parent ? {} : { parent: parent === "root" ? null : parseMongoId(parent, "category") };
+
+    const categories = await Category.find(filter).sort({ name: 1, _id: 1 });
+
+    return NextResponse.json(categories, { status: 200 });
+
+});
+
+/**
+ * @swagger
+ * /api/categories:
+ *   post:
+ *     tags:
+ *       - Categories
+ *     summary: Create a category
+ *     description: Creates a top-level category, or a subcategory when `parent` is given. The slug is derived from the name and must be unique among siblings. Admin only.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/CategoryInput"
+ *     responses:
+ *       201:
+ *         description: Category created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/Category"
+ *       400:
+ *         description: Validation failed, or the parent does not exist
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — requires the admin role
+ *       409:
+ *         description: A sibling category with the same slug already exists
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const auth = await authorize(req, "admin");
+
+    const body = await parseBody(req, categorySchema);
+
+    const category = await createCategory(body);
+
+    await recordAudit(req, { actor: auth, action: "category.create", target: { type: "category", id: category._id }, after: categorySnapshot(category) });
+
+    return NextResponse.json(category, { status: 201 });
+
+});
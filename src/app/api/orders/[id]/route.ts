@@ -0,0 +1,60 @@
+import { authorize, parseMongoId } from "@/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+import { findOrderFor, getOrderActors, toSellerOrderView } from "@/lib/orders";
+import { withErrorHandling } from "@/lib/errors";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/orders/{id}:
+ *   get:
+ *     tags:
+ *       - Orders
+ *     summary: Get a single order
+ *     description: Returns an order to its buyer and to admins. Sellers with products in the order only see their own lines.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId of the order
+ *         schema:
+ *           type: string
+ *           example: "675b1e04a2c4d8e3f1a9b702"
+ *     responses:
+ *       200:
+ *         description: Order found successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/Order"
+ *       400:
+ *         description: Invalid order ID format
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       404:
+ *         description: Order not found
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const auth = await authorize(req);
+
+    const id = parseMongoId(rawId, "order");
+
+    const order = await findOrderFor(id, auth);
+
+    const actors = getOrderActors(order, auth);
+
+    if (actors.includes("buyer") || actors.includes("admin")) return NextResponse.json(order, { status: 200 });
+
+    return NextResponse.json(toSellerOrderView(order, auth.id), { status: 200 });
+
+});
@@ -0,0 +1,81 @@
+import { authorize, parseMongoId } from "@/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+import { findOrderFor, transitionOrder } from "@/lib/orders";
+import { orderStatusUpdateSchema } from "@/lib/schemas";
+import { withErrorHandling } from "@/lib/errors";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/orders/{id}/status:
+ *   patch:
+ *     tags:
+ *       - Orders
+ *     summary: Change the status of an order
+ *     description: |
+ *       Moves an order through its lifecycle. Allowed transitions:
+ *       - pending → paid (admin, i.e. the payment integration)
+ *       - pending → cancelled (buyer, seller, admin)
+ *       - paid → shipped (seller, admin)
+ *       - paid → refunded (seller, admin)
+ *       - shipped → delivered (seller, admin)
+ *       - delivered → refunded (seller, admin)
+ *
+ *       Cancelled and refunded orders cannot change anymore. Cancelling a pending order returns its stock; an order whose stock reservation expired can no longer be paid.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId of the order
+ *         schema:
+ *           type: string
+ *           example: "675b1e04a2c4d8e3f1a9b702"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/OrderStatusUpdateInput"
+ *     responses:
+ *       200:
+ *         description: Status changed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/Order"
+ *       400:
+ *         description: Validation failed or invalid ID
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Transition not allowed from the current status or for the caller
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: The status was changed concurrently or the stock reservation expired
+ *       500:
+ *         description: Internal server error
+ */
+
+export const PATCH = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const auth = await authorize(req);
+
+    const id = parseMongoId(rawId, "order");
+
+    const { status, note } = await parseBody(req, orderStatusUpdateSchema);
+
+    const order = await findOrderFor(id, auth);
+
+    const updated = await transitionOrder(order, status, auth, note);
+
+    return NextResponse.json(updated, { status: 200 });
+
+});
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { releaseExpiredReservations } from "@/lib/inventory";
+import { withErrorHandling } from "@/lib/errors";
+import { connectDB } from "@/lib/mongoose";
+import { authorize } from "@/lib/auth";
+
+/**
+ * @swagger
+ * /api/orders/expire-reservations:
+ *   post:
+ *     tags:
+ *       - Orders
+ *     summary: Release expired stock reservations
+ *     description: Cancels pending orders whose stock reservation has expired and returns their stock. Checkout does this on its own as well; this endpoint is meant for a scheduled job. Admin only.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Expired reservations released
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 released:
+ *                   type: integer
+ *                   example: 3
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — admin only
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    await authorize(req, "admin");
+
+    const released = await releaseExpiredReservations();
+
+    return NextResponse.json({ released }, { status: 200 });
+
+});
@@ -0,0 +1,153 @@
+import { cursorQuery, parseCursorParams, toPage } from "@/lib/pagination";
+import { badRequest, withErrorHandling } from "@/lib/errors";
+import Order, { ORDER_STATUSES } from "@/models/Order";
+import { NextRequest, NextResponse } from "next/server";
+import { parseCurrency, SUPPORTED_CURRENCIES } from "@/lib/money";
+import { connectDB } from "@/lib/mongoose";
+import { authorize } from "@/lib/auth";
+import { checkout } from "@/lib/orders";
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Orders
+ *     description: Checkout, order history and fulfilment
+ */
+
+/**
+ * @swagger
+ * /api/orders:
+ *   get:
+ *     tags:
+ *       - Orders
+ *     summary: Get the order history of the authenticated user
+ *     description: Returns a page of the buyer's orders, newest first. Pass the returned `nextCursor` as `cursor` to fetch the next page.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         description: Page size (1-100)
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - name: cursor
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *       - name: status
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [pending, paid, shipped, delivered, cancelled, refunded]
+ *     responses:
+ *       200:
+ *         description: Page of orders retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     $ref: "#/components/schemas/Order"
+ *                 limit:
+ *                   type: integer
+ *                   example: 20
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const { id: userId } = await authorize(req);
+
+    const params = req.nextUrl.searchParams;
+
+    const { limit, cursor } = parseCursorParams(params);
+
+    const filter: Record<string, unknown> = { buyer: userId };
+
+    const status = params.get("status");
+
+    if (status) {
+
+        if (!(ORDER_STATUSES as readonly string[]).includes(status)) throw badRequest(`status must be one of ${ORDER_STATUSES.join(", ")}`);
+
+        filter.status = status;
+
+    }
+
+    const page = cursorQuery("createdAt", "desc", cursor);
+
+    const orders = await Order.find({ $and: [filter, page.filter] })
+        .sort(page.sort)
+        .limit(limit + 1);
+
+    return NextResponse.json(toPage(orders, limit, "createdAt", "desc"), { status: 200 });
+
+});
+
+/**
+ * @swagger
+ * /api/orders:
+ *   post:
+ *     tags:
+ *       - Orders
+ *     summary: Check out the cart
+ *     description: Converts the authenticated user's cart into a pending order and empties the cart. Title and price of every product are snapshotted at this moment, in the requested currency, and never change afterwards. The ordered quantities are taken from stock and held until the order is paid; unpaid orders are cancelled when the reservation expires (`ORDER_RESERVATION_MINUTES`, 30 by default). Fails if any cart item was deleted, unpublished or is out of stock.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: currency
+ *         in: query
+ *         required: false
+ *         description: Currency to place the order in, the base currency by default. All amounts of the order are fixed in it.
+ *         schema:
+ *           type: string
+ *           example: "EUR"
+ *     responses:
+ *       201:
+ *         description: Order placed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/Order"
+ *       400:
+ *         description: Cart is empty, or the currency is not supported
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       409:
+ *         description: Some cart items are no longer available or out of stock
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const { id: userId } = await authorize(req);
+
+    const currency = parseCurrency(req.nextUrl.searchParams.get("currency"));
+
+    if (currency === null) throw badRequest(`currency must be one of ${SUPPORTED_CURRENCIES.join(", ")}`);
+
+    const order = await checkout(userId, currency);
+
+    return NextResponse.json(order, { status: 201 });
+
+});
@@ -0,0 +1,87 @@
+import { cursorQuery, parseCursorParams, toPage } from "@/lib/pagination";
+import { badRequest, withErrorHandling } from "@/lib/errors";
+import Order, { ORDER_STATUSES } from "@/models/Order";
+import { NextRequest, NextResponse } from "next/server";
+import { toSellerOrderView } from "@/lib/orders";
+import { connectDB } from "@/lib/mongoose";
+import { authorize } from "@/lib/auth";
+
+/**
+ * @swagger
+ * /api/orders/sales:
+ *   get:
+ *     tags:
+ *       - Orders
+ *     summary: Get orders containing the seller's products
+ *     description: Returns a page of orders that contain products of the authenticated seller, newest first. Each order only lists the seller's own lines and their subtotal. Requires the seller or admin role.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         description: Page size (1-100)
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - name: cursor
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *       - name: status
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [pending, paid, shipped, delivered, cancelled, refunded]
+ *     responses:
+ *       200:
+ *         description: Page of orders retrieved successfully
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — requires the seller or admin role
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const { id: sellerId } = await authorize(req, "seller", "admin");
+
+    const params = req.nextUrl.searchParams;
+
+    const { limit, cursor } = parseCursorParams(params);
+
+    const filter: Record<string, unknown> = { sellers: sellerId };
+
+    const status = params.get("status");
+
+    if (status) {
+
+        if (!(ORDER_STATUSES as readonly string[]).includes(status)) throw badRequest(`status must be one of ${ORDER_STATUSES.join(", ")}`);
+
+        filter.status = status;
+
+    }
+
+    const page = cursorQuery("createdAt", "desc", cursor);
+
+    const orders = await Order.find({ $and: [filter, page.filter] })
+        .sort(page.sort)
+        .limit(limit + 1);
+
+    const { items, nextCursor } = toPage(orders, limit, "createdAt", "desc");
+
+    return NextResponse.json({
+        items: items.map((order) => toSellerOrderView(order, sellerId)),
+        limit,
+        nextCursor
+    }, { status: 200 });
+
+});
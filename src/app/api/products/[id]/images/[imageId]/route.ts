@@ -0,0 +1,88 @@
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeScope, parseMongoId } from "@/lib/auth";
+import { removeProductImage } from "@/lib/productImages";
+import { findOwnedProduct } from "@/lib/products";
+import { imagesSnapshot, recordAudit } from "@/lib/audit";
+import { publishProductEvent } from "@/lib/events";
+import { withErrorHandling } from "@/lib/errors";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/products/{id}/images/{imageId}:
+ *   delete:
+ *     tags:
+ *       - Products
+ *     summary: Delete a product image
+ *     description: Removes an image and its thumbnail. Only the product owner or an admin can delete images.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId of the product
+ *         schema:
+ *           type: string
+ *           example: "675a3c92f1a3b9b529c7e312"
+ *       - name: imageId
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId of the image
+ *         schema:
+ *           type: string
+ *           example: "675c0a11b3d5e9f4a2b8c912"
+ *     responses:
+ *       200:
+ *         description: Image deleted, returns the remaining images in display order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/ProductImage"
+ *       400:
+ *         description: Invalid ID format
+ *       403:
+ *         description: Forbidden — not the owner or an admin
+ *       404:
+ *         description: Product or image not found
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const DELETE = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string; imageId: string }> }) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const { id: rawId, imageId: rawImageId } = await context.params;
+
+    const auth = await authorizeScope(req, "products:write");
+
+    const id = parseMongoId(rawId, "product");
+
+    const imageId = parseMongoId(rawImageId, "image");
+
+    const product = await findOwnedProduct(id, auth);
+
+    const images = await removeProductImage(id, imageId);
+
+    await recordAudit(req, {
+        actor: auth,
+        action: "product.image_remove",
+        target: { type: "product", id },
+        before: imagesSnapshot(product.images),
+        after: imagesSnapshot(images)
+    });
+
+    await publishProductEvent(req, "product.updated", id);
+
+    return NextResponse.json(images, { status: 200 });
+
+});
@@ -0,0 +1,87 @@
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeScope, parseMongoId } from "@/lib/auth";
+import { reorderProductImages } from "@/lib/productImages";
+import { findOwnedProduct } from "@/lib/products";
+import { imagesSnapshot, recordAudit } from "@/lib/audit";
+import { publishProductEvent } from "@/lib/events";
+import { imageOrderSchema } from "@/lib/schemas";
+import { withErrorHandling } from "@/lib/errors";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/products/{id}/images/order:
+ *   put:
+ *     tags:
+ *       - Products
+ *     summary: Reorder product images
+ *     description: Sets the display order of the product's images; the first one is the main image. The list must contain every image id exactly once. Only the product owner or an admin can reorder.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId
+ *         schema:
+ *           type: string
+ *           example: "675a3c92f1a3b9b529c7e312"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/ImageOrderInput"
+ *     responses:
+ *       200:
+ *         description: Images reordered, returns them in the new order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/ProductImage"
+ *       400:
+ *         description: Validation failed, or the list does not match the product's images
+ *       403:
+ *         description: Forbidden — not the owner or an admin
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: Images were added or removed meanwhile
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const PUT = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const auth = await authorizeScope(req, "products:write");
+
+    const id = parseMongoId(rawId, "product");
+
+    const { order } = await parseBody(req, imageOrderSchema);
+
+    const product = await findOwnedProduct(id, auth);
+
+    const before = imagesSnapshot(product.images);
+
+    const images = await reorderProductImages(product, order);
+
+    await recordAudit(req, { actor: auth, action: "product.image_reorder", target: { type: "product", id }, before, after: imagesSnapshot(images) });
+
+    await publishProductEvent(req, "product.updated", id);
+
+    return NextResponse.json(images, { status: 200 });
+
+});
@@ -0,0 +1,102 @@
+import { addProductImages, MAX_IMAGE_BYTES, MAX_IMAGES_PER_PRODUCT } from "@/lib/productImages";
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { badRequest, withErrorHandling } from "@/lib/errors";
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeScope, parseMongoId } from "@/lib/auth";
+import { findOwnedProduct } from "@/lib/products";
+import { imagesSnapshot, recordAudit } from "@/lib/audit";
+import { publishProductEvent } from "@/lib/events";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/products/{id}/images:
+ *   post:
+ *     tags:
+ *       - Products
+ *     summary: Upload product images
+ *     description: Uploads one or more JPEG, PNG or WebP images (at most 5 MB each by default, 10 per product) and generates a WebP thumbnail for each. New images are appended after the existing ones. Only the product owner or an admin can upload.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId
+ *         schema:
+ *           type: string
+ *           example: "675a3c92f1a3b9b529c7e312"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               images:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       201:
+ *         description: Images uploaded, returns all images of the product in display order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/ProductImage"
+ *       400:
+ *         description: Invalid ID, no images, unsupported type, too large or too many images
+ *       403:
+ *         description: Forbidden — not the owner or an admin
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: Image limit reached by a concurrent upload
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const auth = await authorizeScope(req, "products:write");
+
+    const id = parseMongoId(rawId, "product");
+
+    const product = await findOwnedProduct(id, auth);
+
+    // Cheap guard before buffering the body: the largest acceptable upload plus multipart overhead.
+    const contentLength = Number(req.headers.get("content-length"));
+
+    if (contentLength > MAX_IMAGES_PER_PRODUCT * MAX_IMAGE_BYTES + 64 * 1024) throw badRequest("Upload is too large");
+
+    const form = await req.formData().catch(() => {
+
+        throw badRequest("Request body must be multipart/form-data");
+
+    });
+
+    const files = form.getAll("images").filter((entry): entry is File => typeof entry !== "string");
+
+    const before = imagesSnapshot(product.images);
+
+    const images = await addProductImages(product, files);
+
+    await recordAudit(req, { actor: auth, action: "product.image_add", target: { type: "product", id }, before, after: imagesSnapshot(images) });
+
+    await publishProductEvent(req, "product.updated", id);
+
+    return NextResponse.json(images, { status: 201 });
+
+});
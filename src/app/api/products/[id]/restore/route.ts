@@ -0,0 +1,76 @@
+import { findOwnedProduct, restoreProduct } from "@/lib/products";
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeScope, parseMongoId } from "@/lib/auth";
+import { withErrorHandling } from "@/lib/errors";
+import { recordAudit } from "@/lib/audit";
+import { publishProductEvent } from "@/lib/events";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/products/{id}/restore:
+ *   post:
+ *     tags:
+ *       - Products
+ *     summary: Restore a product from the trash
+ *     description: Brings a trashed product back exactly as it was, images and stock included. Only the product owner or an admin can restore.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId
+ *         schema:
+ *           type: string
+ *           example: "675a3c92f1a3b9b529c7e312"
+ *     responses:
+ *       200:
+ *         description: Product restored successfully
+ *       400:
+ *         description: Invalid ID format
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — not the owner or an admin
+ *       404:
+ *         description: Product not found in the trash, or already purged
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const auth = await authorizeScope(req, "products:write");
+
+    const id = parseMongoId(rawId, "product");
+
+    const trashed = await findOwnedProduct(id, auth, { trashed: true });
+
+    const restored = await restoreProduct(trashed);
+
+    await recordAudit(req, {
+        actor: auth,
+        action: "product.restore",
+        target: { type: "product", id },
+        before: { deletedAt: trashed.deletedAt?.toISOString() ?? null },
+        after: { deletedAt: null }
+    });
+
+    await publishProductEvent(req, "product.restored", restored);
+
+    const populated = await restored.populate("author", "fullname email");
+
+    return NextResponse.json(populated, { status: 200 });
+
+});
@@ -0,0 +1,110 @@
+import { assertIfMatch, parseRevision, productETag, rollbackProduct } from "@/lib/productRevisions";
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { productSnapshot, recordAudit } from "@/lib/audit";
+import { publishProductEvent } from "@/lib/events";
+import { badRequest, withErrorHandling } from "@/lib/errors";
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeScope, parseMongoId } from "@/lib/auth";
+import { findOwnedProduct } from "@/lib/products";
+import { connectDB } from "@/lib/mongoose";
+import Product from "@/models/Product";
+
+/**
+ * @swagger
+ * /api/products/{id}/revisions/{revision}/rollback:
+ *   post:
+ *     tags:
+ *       - Products
+ *     summary: Roll a product back to an earlier version
+ *     description: Restores the title, description, SKU, prices, catalog visibility and categories of an earlier revision. The rollback counts as an edit, so the version it replaces is kept as a new revision. Supports `If-Match` like the update endpoint. Only the product owner or an admin can roll back.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId
+ *         schema:
+ *           type: string
+ *           example: "675a3c92f1a3b9b529c7e312"
+ *       - name: revision
+ *         in: path
+ *         required: true
+ *         description: Revision number from the revision list
+ *         schema:
+ *           type: integer
+ *           example: 2
+ *       - name: If-Match
+ *         in: header
+ *         required: false
+ *         description: ETag of the version the rollback is based on
+ *         schema:
+ *           type: string
+ *           example: "\"3\""
+ *     responses:
+ *       200:
+ *         description: Product rolled back successfully
+ *         headers:
+ *           ETag:
+ *             description: Revision of the product details after the rollback
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid ID or revision, or a category of that revision no longer exists
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — not the owner or an admin
+ *       404:
+ *         description: Product or revision not found
+ *       409:
+ *         description: The revision's SKU is now used by another of the seller's products, or the product's prices have not been converted to minor units yet
+ *       412:
+ *         description: The product was changed since the `If-Match` version was fetched
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string; revision: string }> }) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const { id: rawId, revision: rawRevision } = await context.params;
+
+    const auth = await authorizeScope(req, "products:write");
+
+    const id = parseMongoId(rawId, "product");
+
+    const revision = parseRevision(rawRevision);
+
+    if (revision === null) throw badRequest("Invalid revision");
+
+    const existing = await findOwnedProduct(id, auth);
+
+    assertIfMatch(req, existing);
+
+    const before = productSnapshot(existing);
+
+    const saved = await rollbackProduct(existing, revision, auth.id);
+
+    await recordAudit(req, {
+        actor: auth,
+        action: "product.rollback",
+        target: { type: "product", id },
+        before,
+        after: productSnapshot(saved),
+        metadata: { revision }
+    });
+
+    await publishProductEvent(req, "product.updated", saved);
+
+    const updated = await Product.findById(id).populate("author", "fullname email");
+
+    return NextResponse.json(updated, { status: 200, headers: { ETag: productETag(saved) } });
+
+});
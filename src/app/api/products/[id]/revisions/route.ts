@@ -0,0 +1,101 @@
+import { cursorQuery, parseCursorParams, toPage } from "@/lib/pagination";
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeScope, parseMongoId } from "@/lib/auth";
+import ProductRevision from "@/models/ProductRevision";
+import { findOwnedProduct } from "@/lib/products";
+import { withErrorHandling } from "@/lib/errors";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/products/{id}/revisions:
+ *   get:
+ *     tags:
+ *       - Products
+ *     summary: List earlier versions of a product
+ *     description: Returns a page of the product's previous versions, newest first. A version is kept every time an edit replaces it. `current` is the revision the product is at now. Pass the returned `nextCursor` as `cursor` to fetch the next page. Only the product owner or an admin can list revisions.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId
+ *         schema:
+ *           type: string
+ *           example: "675a3c92f1a3b9b529c7e312"
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         description: Page size (1-100)
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - name: cursor
+ *         in: query
+ *         required: false
+ *         description: Opaque cursor from a previous response's `nextCursor`
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Page of revisions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 current:
+ *                   type: integer
+ *                   example: 3
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     $ref: "#/components/schemas/ProductRevision"
+ *                 limit:
+ *                   type: integer
+ *                   example: 20
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *       400:
+ *         description: Invalid ID format or query parameters
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — not the owner or an admin
+ *       404:
+ *         description: Product not found
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const auth = await authorizeScope(req, "products:read");
+
+    const id = parseMongoId(rawId, "product");
+
+    const { limit, cursor } = parseCursorParams(req.nextUrl.searchParams);
+
+    const product = await findOwnedProduct(id, auth);
+
+    const page = cursorQuery("revision", "desc", cursor);
+
+    const revisions = await ProductRevision.find({ $and: [{ product: product._id }, page.filter] })
+        .sort(page.sort)
+        .limit(limit + 1);
+
+    return NextResponse.json({ current: product.revision, ...toPage(revisions, limit, "revision", "desc") }, { status: 200 });
+
+});
@@ -1,6 +1,15 @@
-import { forbidden, getCurrentUserId, isValidMongoId, sanitizeId, unauthorized } from "@/lib/auth";
+import { authorizeScope, getCurrentUser, isOwnerOrAdmin, parseMongoId } from "@/lib/auth";
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { notFound, withErrorHandling } from "@/lib/errors";
+import { assertMergePatchContentType, toProductUpdate } from "@/lib/productPatch";
 import { NextRequest, NextResponse } from "next/server";
 import { connectDB } from "@/lib/mongoose";
+import { productUpdateSchema } from "@/lib/schemas";
+import { findOwnedProduct, trashProduct, updateProduct } from "@/lib/products";
+import { productSnapshot, recordAudit } from "@/lib/audit";
+import { publishProductEvent } from "@/lib/events";
+import { assertIfMatch, productETag } from "@/lib/productRevisions";
+import { parseBody, readJson, validationError } from "@/lib/validation";
 import Product from "@/models/Product";
 
 /**
@@ -17,7 +26,7 @@ import Product from "@/models/Product";
  *     tags:
  *       - Products
  *     summary: Get a single product by ID
- *     description: Fetches a product by its MongoDB ObjectId and returns the populated author details.
+ *     description: Fetches a product by its MongoDB ObjectId and returns the populated author details. Unpublished products are only visible to their owner and admins. The `ETag` header identifies the revision of the product details; send it back as `If-Match` when updating.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -31,6 +40,12 @@ import Product from "@/models/Product";
  *     responses:
  *       200:
  *         description: Product found successfully
+ *         headers:
+ *           ETag:
+ *             description: Current revision of the product details
+ *             schema:
+ *               type: string
+ *               example: "\"3\""
  *         content:
  *           application/json:
  *             schema:
@@ -43,8 +58,10 @@ import Product from "@/models/Product";
  *                   type: string
  *                   example: "Macbook"
  *                 price:
- *                   type: number
- *                   example: 999.9
+ *                   $ref: "#/components/schemas/Money"
+ *                 revision:
+ *                   type: integer
+ *                   example: 3
  *                 author:
  *                   type: object
  *                   properties:
@@ -64,37 +81,37 @@ import Product from "@/models/Product";
  *         description: Invalid product ID format
  *       404:
  *         description: Product not found
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
  *       500:
  *         description: Internal server error
  */
 
-export async function GET(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+export const GET = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
 
     await connectDB();
 
     const { id: rawId } = await context.params;
 
-    const id = sanitizeId(rawId);
-
-    if (!isValidMongoId(id)) return NextResponse.json({ error: "Invalid product ID format" }, { status: 400 });
-
-    try {
-
-        const product = await Product.findById(id).populate("author", "fullname email");
+    const id = parseMongoId(rawId, "product");
 
-        if (!product) return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    const product = await Product.findById(id).populate("author", "fullname email");
 
-        return NextResponse.json(product, { status: 200 });
+    if (!product) throw notFound("Product not found");
 
-    } catch (err) {
+    if (!product.published) {
 
-        console.error("GET product error:", err);
+        const user = await getCurrentUser(req, "products:read");
 
-        return NextResponse.json({ error: "Failed to fetch product" }, { status: 500 });
+        if (!user || !isOwnerOrAdmin(user, product.author._id.toString())) throw notFound("Product not found");
 
     }
 
-};
+    return NextResponse.json(product, { status: 200, headers: { ETag: productETag(product) } });
+
+});
 
 /**
  * @swagger
@@ -103,9 +120,10 @@ export async function GET(req: NextRequest, context: { params: Promise<{ id: str
  *     tags:
  *       - Products
  *     summary: Update a product
- *     description: Updates the title or price of a product. Only the product owner can update.
+ *     description: Updates the title, description, SKU, price, currency, categories or catalog visibility of a product. Variants are managed through their own endpoints. Only the product owner or an admin can update; admins moderate listings by setting `published` to false. Send the `ETag` from a previous GET as `If-Match` to make sure nobody else changed the product in the meantime; the version being replaced is kept as a revision.
  *     security:
  *       - BearerAuth: []
+ *       - ApiKeyAuth: []
  *     parameters:
  *       - name: id
  *         in: path
@@ -114,22 +132,27 @@ export async function GET(req: NextRequest, context: { params: Promise<{ id: str
  *         schema:
  *           type: string
  *           example: "675a3c92f1a3b9b529c7e312"
+ *       - name: If-Match
+ *         in: header
+ *         required: false
+ *         description: ETag of the version the change is based on
+ *         schema:
+ *           type: string
+ *           example: "\"3\""
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               title:
- *                 type: string
- *                 example: "Updated Macbook"
- *               price:
- *                 type: number
- *                 example: 1099.99
+ *             $ref: "#/components/schemas/ProductUpdateInput"
  *     responses:
  *       200:
  *         description: Product updated successfully
+ *         headers:
+ *           ETag:
+ *             description: Revision of the updated product details
+ *             schema:
+ *               type: string
  *         content:
  *           application/json:
  *             schema:
@@ -142,8 +165,10 @@ export async function GET(req: NextRequest, context: { params: Promise<{ id: str
  *                   type: string
  *                   example: "Updated Macbook"
  *                 price:
- *                   type: number
- *                   example: 1099.99
+ *                   $ref: "#/components/schemas/Money"
+ *                 revision:
+ *                   type: integer
+ *                   example: 3
  *                 author:
  *                   type: object
  *                   properties:
@@ -160,60 +185,150 @@ export async function GET(req: NextRequest, context: { params: Promise<{ id: str
  *                   type: string
  *                   format: date-time
  *       400:
- *         description: Invalid input or ID
+ *         description: Validation failed, invalid ID, or a category does not exist
  *       403:
- *         description: Forbidden — not the owner
+ *         description: Forbidden — not the owner or an admin
  *       404:
  *         description: Product not found
+ *       409:
+ *         description: The SKU is already used by another of the seller's products, or the product's prices have not been converted to minor units yet
+ *       412:
+ *         description: The product was changed since the `If-Match` version was fetched
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
  *       500:
  *         description: Failed to update product
  */
 
-export async function PUT(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+export const PUT = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
 
     await connectDB();
 
     const { id: rawId } = await context.params;
 
-    const id = sanitizeId(rawId);
+    const auth = await authorizeScope(req, "products:write");
 
-    const userId = getCurrentUserId(req);
+    const id = parseMongoId(rawId, "product");
 
-    if (!userId) return unauthorized();
+    const body = await parseBody(req, productUpdateSchema);
 
-    if (!isValidMongoId(id)) return NextResponse.json({ error: "Invalid product ID format" }, { status: 400 });
+    const existing = await findOwnedProduct(id, auth);
 
-    try {
+    assertIfMatch(req, existing);
 
-        const { title, price } = await req.json();
+    // Taken first: updateProduct changes the document in place.
+    const before = productSnapshot(existing);
 
-        if (!title && price === undefined) return NextResponse.json({ error: "At least one field required" }, { status: 400 });
+    const saved = await updateProduct(existing, body, auth.id);
 
-        const existing = await Product.findById(id);
+    await recordAudit(req, { actor: auth, action: "product.update", target: { type: "product", id }, before, after: productSnapshot(saved) });
 
-        if (!existing) return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    await publishProductEvent(req, "product.updated", saved);
 
-        if (existing.author.toString() !== userId) return forbidden();
+    const updated = await Product.findById(id).populate("author", "fullname email");
 
-        if (title) existing.title = title.trim();
+    return NextResponse.json(updated, { status: 200, headers: { ETag: productETag(saved) } });
 
-        if (price !== undefined) existing.price = Number(price);
+});
 
-        await existing.save();
+/**
+ * @swagger
+ * /api/products/{id}:
+ *   patch:
+ *     tags:
+ *       - Products
+ *     summary: Patch a product
+ *     description: Applies a JSON Merge Patch (RFC 7396) to the product details. Fields that are present replace the current value and `null` removes one; only `sku`, `description`, `prices` and `categories` can be removed. Arrays are replaced as a whole. Supports `If-Match` like the update endpoint. Only the product owner or an admin can patch.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId
+ *         schema:
+ *           type: string
+ *           example: "675a3c92f1a3b9b529c7e312"
+ *       - name: If-Match
+ *         in: header
+ *         required: false
+ *         description: ETag of the version the patch is based on
+ *         schema:
+ *           type: string
+ *           example: "\"3\""
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/merge-patch+json:
+ *           schema:
+ *             $ref: "#/components/schemas/ProductUpdateInput"
+ *           example:
+ *             price: 109999
+ *             sku: null
+ *     responses:
+ *       200:
+ *         description: Product patched successfully
+ *         headers:
+ *           ETag:
+ *             description: Revision of the patched product details
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Validation failed, invalid ID, or a category does not exist
+ *       403:
+ *         description: Forbidden — not the owner or an admin
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: The SKU is already used by another of the seller's products, or the product's prices have not been converted to minor units yet
+ *       412:
+ *         description: The product was changed since the `If-Match` version was fetched
+ *       415:
+ *         description: The body is not sent as `application/merge-patch+json`
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
 
-        const updated = await Product.findById(id).populate("author", "fullname email");
+export const PATCH = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
 
-        return NextResponse.json(updated, { status: 200 });
+    await rateLimitByIp(req, RATE_LIMITS.products);
 
-    } catch (err) {
+    await connectDB();
+
+    const { id: rawId } = await context.params;
 
-        console.error("PUT error:", err);
+    const auth = await authorizeScope(req, "products:write");
 
-        return NextResponse.json({ error: "Failed to update product" }, { status: 500 });
+    const id = parseMongoId(rawId, "product");
 
-    }
+    assertMergePatchContentType(req);
+
+    const patch = toProductUpdate(await readJson(req));
+
+    if (!patch.success) throw validationError(patch.errors);
+
+    const existing = await findOwnedProduct(id, auth);
+
+    assertIfMatch(req, existing);
 
-};
+    const before = productSnapshot(existing);
+
+    const saved = await updateProduct(existing, patch.data, auth.id);
+
+    await recordAudit(req, { actor: auth, action: "product.update", target: { type: "product", id }, before, after: productSnapshot(saved) });
+
+    await publishProductEvent(req, "product.updated", saved);
+
+    const updated = await Product.findById(id).populate("author", "fullname email");
+
+    return NextResponse.json(updated, { status: 200, headers: { ETag: productETag(saved) } });
+
+});
 
 /**
  * @swagger
@@ -221,10 +336,11 @@ export async function PUT(req: NextRequest, context: { params: Promise<{ id: str
  *   delete:
  *     tags:
  *       - Products
- *     summary: Delete a product
- *     description: Deletes a product permanently. Only the product owner can delete.
+ *     summary: Move a product to the trash
+ *     description: Soft-deletes a product. It disappears from every listing, cart and checkout, but can be restored by its owner until it is purged after the retention period (`PRODUCT_TRASH_RETENTION_DAYS`, 30 by default). Only the product owner or an admin can delete.
  *     security:
  *       - BearerAuth: []
+ *       - ApiKeyAuth: []
  *     parameters:
  *       - name: id
  *         in: path
@@ -234,53 +350,49 @@ export async function PUT(req: NextRequest, context: { params: Promise<{ id: str
  *           type: string
  *           example: "675a3c92f1a3b9b529c7e312"
  *     responses:
- *       204:
- *         description: Product deleted successfully (no content)
+ *       200:
+ *         description: Product moved to the trash
  *       400:
  *         description: Invalid ID format
  *       403:
- *         description: Forbidden — not owner
+ *         description: Forbidden — not the owner or an admin
  *       404:
  *         description: Product not found
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
  *       500:
  *         description: Failed to delete product
  */
 
-export async function DELETE(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+export const DELETE = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
 
     await connectDB();
 
     const { id: rawId } = await context.params;
 
-    const id = sanitizeId(rawId);
+    const auth = await authorizeScope(req, "products:write");
 
-    const userId = getCurrentUserId(req);
+    const id = parseMongoId(rawId, "product");
 
-    if (!userId) return unauthorized();
+    const existing = await findOwnedProduct(id, auth);
 
-    if (!isValidMongoId(id)) return NextResponse.json({ error: "Invalid product ID format" }, { status: 400 });
+    const deletedAt = await trashProduct(existing, auth.id);
 
-    try {
+    await recordAudit(req, {
+        actor: auth,
+        action: "product.trash",
+        target: { type: "product", id },
+        before: { deletedAt: null },
+        after: { deletedAt: deletedAt.toISOString() }
+    });
 
-        const existing = await Product.findById(id);
+    await publishProductEvent(req, "product.deleted", id);
 
-        if (!existing) return NextResponse.json({ error: "Product not found" }, { status: 404 });
-
-        if (existing.author.toString() !== userId) return forbidden();
-
-        await Product.findByIdAndDelete(id);
-
-        return NextResponse.json(
-            { message: "Product deleted successfully" },
-            { status: 200 }
-        );
-
-    } catch (err) {
-
-        console.error("DELETE error:", err);
-
-        return NextResponse.json({ error: "Failed to delete product" }, { status: 500 });
-
-    }
+    return NextResponse.json(
+        { message: "Product moved to trash" },
+        { status: 200 }
+    );
 
-};
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { badRequest, conflict, notFound, withErrorHandling } from "@/lib/errors";
+import { authorizeScope, parseMongoId } from "@/lib/auth";
+import { findOwnedProduct } from "@/lib/products";
+import { findVariant } from "@/lib/productVariants";
+import { NextRequest, NextResponse } from "next/server";
+import { stockUpdateSchema } from "@/lib/schemas";
+import { adjustStock } from "@/lib/inventory";
+import { recordAudit } from "@/lib/audit";
+import { publishProductEvent } from "@/lib/events";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/products/{id}/stock:
+ *   patch:
+ *     tags:
+ *       - Products
+ *     summary: Adjust the stock of a product
+ *     description: Either adds `delta` to the current stock (negative to remove) or sets it to `quantity`. Products with variants are stocked per variant, so `variantId` picks which one. Adjustments are atomic and cannot take stock below zero. Only the product owner or an admin can adjust stock.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId
+ *         schema:
+ *           type: string
+ *           example: "675a3c92f1a3b9b529c7e312"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/StockUpdateInput"
+ *     responses:
+ *       200:
+ *         description: Stock updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                   example: "675a3c92f1a3b9b529c7e312"
+ *                 variantId:
+ *                   type: string
+ *                   nullable: true
+ *                   example: "675d2a10c4e6fa05b3c9da11"
+ *                 stock:
+ *                   type: integer
+ *                   example: 37
+ *       400:
+ *         description: Validation failed, invalid ID, or `variantId` missing for a product with variants
+ *       403:
+ *         description: Forbidden — not the owner or an admin
+ *       404:
+ *         description: Product or variant not found
+ *       409:
+ *         description: Not enough stock to remove
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const PATCH = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const auth = await authorizeScope(req, "products:write");
+
+    const id = parseMongoId(rawId, "product");
+
+    const { delta, quantity, variantId } = await parseBody(req, stockUpdateSchema);
+
+    if (delta !== undefined && quantity !== undefined) throw badRequest("Send either delta or quantity, not both");
+
+    if (delta === undefined && quantity === undefined) throw badRequest("Send either delta or quantity");
+
+    const product = await findOwnedProduct(id, auth);
+
+    const variant = variantId ? findVariant(product, variantId) : undefined;
+
+    if (variantId && !variant) throw notFound("Variant not found");
+
+    if (!variantId && product.variants.length > 0) throw badRequest("This product has variants, send the variantId to adjust");
+
+    const stock = await adjustStock(id, { delta, quantity }, variantId);
+
+    if (stock === null) throw conflict("Not enough stock to remove");
+
+    await recordAudit(req, {
+        actor: auth,
+        action: "product.stock_adjust",
+        target: { type: "product", id },
+        before: { stock: variant ? variant.stock : product.stock },
+        after: { stock },
+        metadata: { variantId: variantId ?? null, delta: delta ?? null, quantity: quantity ?? null }
+    });
+
+    await publishProductEvent(req, "product.updated", id);
+
+    return NextResponse.json({ id, variantId: variantId ?? null, stock }, { status: 200 });
+
+});
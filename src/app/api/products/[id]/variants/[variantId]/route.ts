@@ -0,0 +1,175 @@
+import { removeProductVariant, updateProductVariant } from "@/lib/productVariants";
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeScope, parseMongoId } from "@/lib/auth";
+import { findOwnedProduct } from "@/lib/products";
+import { recordAudit, variantsSnapshot } from "@/lib/audit";
+import { publishProductEvent } from "@/lib/events";
+import { variantUpdateSchema } from "@/lib/schemas";
+import { withErrorHandling } from "@/lib/errors";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/products/{id}/variants/{variantId}:
+ *   patch:
+ *     tags:
+ *       - Products
+ *     summary: Update a product variant
+ *     description: Changes the SKU, size, color or price of a variant. Its stock is changed through the stock endpoint. Only the product owner or an admin can update variants.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId of the product
+ *         schema:
+ *           type: string
+ *           example: "675a3c92f1a3b9b529c7e312"
+ *       - name: variantId
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId of the variant
+ *         schema:
+ *           type: string
+ *           example: "675d2a10c4e6fa05b3c9da11"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/VariantUpdateInput"
+ *     responses:
+ *       200:
+ *         description: Variant updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/ProductVariant"
+ *       400:
+ *         description: Validation failed or invalid ID
+ *       403:
+ *         description: Forbidden — not the owner or an admin
+ *       404:
+ *         description: Product or variant not found
+ *       409:
+ *         description: The SKU is already used by another variant of the seller
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const PATCH = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string; variantId: string }> }) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const { id: rawId, variantId: rawVariantId } = await context.params;
+
+    const auth = await authorizeScope(req, "products:write");
+
+    const id = parseMongoId(rawId, "product");
+
+    const variantId = parseMongoId(rawVariantId, "variant");
+
+    const body = await parseBody(req, variantUpdateSchema);
+
+    const product = await findOwnedProduct(id, auth);
+
+    const variant = await updateProductVariant(id, variantId, body);
+
+    const before = variantsSnapshot(product.variants);
+
+    const after = variantsSnapshot(product.variants.map((existing) => existing._id.equals(variant._id) ? variant : existing));
+
+    await recordAudit(req, { actor: auth, action: "product.variant_update", target: { type: "product", id }, before, after });
+
+    await publishProductEvent(req, "product.updated", id);
+
+    return NextResponse.json(variant, { status: 200 });
+
+});
+
+/**
+ * @swagger
+ * /api/products/{id}/variants/{variantId}:
+ *   delete:
+ *     tags:
+ *       - Products
+ *     summary: Delete a product variant
+ *     description: Removes a variant. Carts still holding it show the line as deleted; orders keep their snapshot. Only the product owner or an admin can delete variants.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId of the product
+ *         schema:
+ *           type: string
+ *           example: "675a3c92f1a3b9b529c7e312"
+ *       - name: variantId
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId of the variant
+ *         schema:
+ *           type: string
+ *           example: "675d2a10c4e6fa05b3c9da11"
+ *     responses:
+ *       200:
+ *         description: Variant deleted, returns the remaining variants
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/ProductVariant"
+ *       400:
+ *         description: Invalid ID format
+ *       403:
+ *         description: Forbidden — not the owner or an admin
+ *       404:
+ *         description: Product or variant not found
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const DELETE = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string; variantId: string }> }) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const { id: rawId, variantId: rawVariantId } = await context.params;
+
+    const auth = await authorizeScope(req, "products:write");
+
+    const id = parseMongoId(rawId, "product");
+
+    const variantId = parseMongoId(rawVariantId, "variant");
+
+    const product = await findOwnedProduct(id, auth);
+
+    const variants = await removeProductVariant(id, variantId);
+
+    await recordAudit(req, {
+        actor: auth,
+        action: "product.variant_remove",
+        target: { type: "product", id },
+        before: variantsSnapshot(product.variants),
+        after: variantsSnapshot(variants)
+    });
+
+    await publishProductEvent(req, "product.updated", id);
+
+    return NextResponse.json(variants, { status: 200 });
+
+});
@@ -0,0 +1,91 @@
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeScope, parseMongoId } from "@/lib/auth";
+import { addProductVariant } from "@/lib/productVariants";
+import { findOwnedProduct } from "@/lib/products";
+import { recordAudit, variantsSnapshot } from "@/lib/audit";
+import { publishProductEvent } from "@/lib/events";
+import { variantCreateSchema } from "@/lib/schemas";
+import { withErrorHandling } from "@/lib/errors";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/products/{id}/variants:
+ *   post:
+ *     tags:
+ *       - Products
+ *     summary: Add a variant to a product
+ *     description: Adds a variant such as a size or color, with its own SKU, optional price and stock. Once a product has variants it is added to carts and stocked per variant. Only the product owner or an admin can add variants.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId
+ *         schema:
+ *           type: string
+ *           example: "675a3c92f1a3b9b529c7e312"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/VariantCreateInput"
+ *     responses:
+ *       201:
+ *         description: Variant added, returns all variants of the product
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/ProductVariant"
+ *       400:
+ *         description: Validation failed or invalid ID
+ *       403:
+ *         description: Forbidden — not the owner or an admin
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: The SKU is already used by another variant of the seller
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const auth = await authorizeScope(req, "products:write");
+
+    const id = parseMongoId(rawId, "product");
+
+    const body = await parseBody(req, variantCreateSchema);
+
+    const product = await findOwnedProduct(id, auth);
+
+    const variants = await addProductVariant(id, body);
+
+    await recordAudit(req, {
+        actor: auth,
+        action: "product.variant_add",
+        target: { type: "product", id },
+        before: variantsSnapshot(product.variants),
+        after: variantsSnapshot(variants)
+    });
+
+    await publishProductEvent(req, "product.updated", id);
+
+    return NextResponse.json(variants, { status: 201 });
+
+});
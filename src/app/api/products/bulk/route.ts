@@ -0,0 +1,217 @@
+import { bulkCreateProducts, bulkTrashProducts, bulkUpdateProducts, BulkResult, parseBulkBody } from "@/lib/productBulk";
+import { authorizeScope, requireVerifiedEmail } from "@/lib/auth";
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { NextRequest, NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/errors";
+import { connectDB } from "@/lib/mongoose";
+import { readJson } from "@/lib/validation";
+
+/** 200 when every item succeeded, 207 Multi-Status when some did not. */
+const bulkResponse = (result: BulkResult) => NextResponse.json(result, { status: result.failed > 0 ? 207 : 200 });
+
+/**
+ * @swagger
+ * /api/products/bulk:
+ *   post:
+ *     tags:
+ *       - Products
+ *     summary: Create many products
+ *     description: Creates up to 100 products, each validated like a single create. Every item gets its own result. With `atomic` all products are created in one transaction, or none are. Requires the seller or admin role and a verified email address.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [items]
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 100
+ *                 items:
+ *                   $ref: "#/components/schemas/ProductCreateInput"
+ *               atomic:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Every product was created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/BulkResult"
+ *       207:
+ *         description: Some items failed; see each result. In atomic mode nothing was created.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/BulkResult"
+ *       400:
+ *         description: The request envelope is invalid
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — seller or admin role and a verified email required
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const auth = await authorizeScope(req, "products:write", "seller", "admin");
+
+    await requireVerifiedEmail(auth);
+
+    const { items, atomic } = parseBulkBody(await readJson(req), "items");
+
+    return bulkResponse(await bulkCreateProducts(req, auth, items, atomic));
+
+});
+
+/**
+ * @swagger
+ * /api/products/bulk:
+ *   patch:
+ *     tags:
+ *       - Products
+ *     summary: Patch many products
+ *     description: Applies up to 100 JSON Merge Patches, each naming its product with `id` and following the rules of `PATCH /api/products/{id}`. Each product must belong to the caller unless they are an admin. With `atomic` all patches are applied in one transaction, or none are.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [items]
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 100
+ *                 items:
+ *                   allOf:
+ *                     - type: object
+ *                       required: [id]
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                           example: "675a3c92f1a3b9b529c7e312"
+ *                     - $ref: "#/components/schemas/ProductUpdateInput"
+ *               atomic:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Every product was patched
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/BulkResult"
+ *       207:
+ *         description: Some items failed; see each result. In atomic mode nothing was changed.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/BulkResult"
+ *       400:
+ *         description: The request envelope is invalid
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const PATCH = withErrorHandling(async (req: NextRequest) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const auth = await authorizeScope(req, "products:write");
+
+    const { items, atomic } = parseBulkBody(await readJson(req), "items");
+
+    return bulkResponse(await bulkUpdateProducts(req, auth, items, atomic));
+
+});
+
+/**
+ * @swagger
+ * /api/products/bulk:
+ *   delete:
+ *     tags:
+ *       - Products
+ *     summary: Move many products to the trash
+ *     description: Moves up to 100 products to the trash, like `DELETE /api/products/{id}`. Each product must belong to the caller unless they are an admin. With `atomic` all products are trashed in one transaction, or none are.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids]
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 100
+ *                 items:
+ *                   type: string
+ *                   example: "675a3c92f1a3b9b529c7e312"
+ *               atomic:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Every product was moved to the trash
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/BulkResult"
+ *       207:
+ *         description: Some items failed; see each result. In atomic mode nothing was changed.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/BulkResult"
+ *       400:
+ *         description: The request envelope is invalid
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const DELETE = withErrorHandling(async (req: NextRequest) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const auth = await authorizeScope(req, "products:write");
+
+    const { items, atomic } = parseBulkBody(await readJson(req), "ids");
+
+    return bulkResponse(await bulkTrashProducts(req, auth, items, atomic));
+
+});
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { convertLegacyAmounts } from "@/lib/legacyAmounts";
+import { withErrorHandling } from "@/lib/errors";
+import { connectDB } from "@/lib/mongoose";
+import { authorize } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+
+/**
+ * @swagger
+ * /api/products/convert-legacy-amounts:
+ *   post:
+ *     tags:
+ *       - Products
+ *     summary: Convert legacy prices to minor units
+ *     description: One-off repair for data created before amounts were stored as integer minor units. Multiplies the prices of such products and their variants, and the amounts of such orders, by the currency's minor unit (100 for SEK) and rounds. Until then those products show a hundredth of their price, and editing them fails with a 409. Converted data is marked, so running it again is harmless. Run it right after deploying. Admin only.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: dryRun
+ *         in: query
+ *         required: false
+ *         description: Only report what would be converted
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Conversion finished
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 dryRun:
+ *                   type: boolean
+ *                   example: false
+ *                 productsConverted:
+ *                   type: integer
+ *                   example: 120
+ *                 ordersConverted:
+ *                   type: integer
+ *                   example: 37
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — admin only
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const auth = await authorize(req, "admin");
+
+    const dryRun = req.nextUrl.searchParams.get("dryRun") === "true";
+
+    const report = await convertLegacyAmounts({ dryRun });
+
+    if (!dryRun) await recordAudit(req, { actor: auth, action: "product.convert_legacy_amounts", metadata: report });
+
+    return NextResponse.json({ dryRun, ...report }, { status: 200 });
+
+});
@@ -0,0 +1,70 @@
+import { exportProducts, parseFileFormat, PRODUCT_FILE_TYPES } from "@/lib/productFiles";
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { badRequest, withErrorHandling } from "@/lib/errors";
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/mongoose";
+import { authorizeScope } from "@/lib/auth";
+
+/**
+ * @swagger
+ * /api/products/export:
+ *   get:
+ *     tags:
+ *       - Products
+ *     summary: Export the caller's products
+ *     description: Streams all of the caller's products, except those in the trash, as CSV or JSON Lines in the format `POST /api/products/import` reads, so an edited export can be imported again. Amounts are in minor units. Requires the seller or admin role.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - name: format
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [csv, jsonl]
+ *           default: csv
+ *     responses:
+ *       200:
+ *         description: The products, as a file download
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/x-ndjson:
+ *             schema:
+ *               $ref: "#/components/schemas/ProductImportRow"
+ *       400:
+ *         description: Unknown format
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — seller or admin role required
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async (req: NextRequest) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const { id: userId } = await authorizeScope(req, "products:read", "seller", "admin");
+
+    const format = parseFileFormat(req.nextUrl.searchParams.get("format"));
+
+    if (!format) throw badRequest("format must be csv or jsonl");
+
+    return new NextResponse(exportProducts(userId, format), {
+        status: 200,
+        headers: {
+            "Content-Type": `${PRODUCT_FILE_TYPES[format]}; charset=utf-8`,
+            "Content-Disposition": `attachment; filename="products.${format}"`,
+            "Cache-Control": "no-store"
+        }
+    });
+
+});
@@ -0,0 +1,127 @@
+import { formatFromContentType, importProducts, MAX_IMPORT_BYTES, MAX_IMPORT_ROWS } from "@/lib/productFiles";
+import { badRequest, unsupportedMediaType, withErrorHandling } from "@/lib/errors";
+import { authorizeScope, requireVerifiedEmail } from "@/lib/auth";
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/products/import:
+ *   post:
+ *     tags:
+ *       - Products
+ *     summary: Import products from CSV or JSON Lines
+ *     description: Upserts the caller's products from CSV (`text/csv`) or JSON Lines (`application/x-ndjson`), at most 2 MB and 1000 rows. Each row is a full product as described by `ProductImportRow` and is matched by `sku`, so a known SKU updates that product and a new one creates a product. Rows are checked and saved one by one, and every failed row is reported with its row number. CSV files start with a header row naming the columns of the export (`id,sku,title,description,price,currency,prices,published,stock,categories`, where `id` is ignored); empty cells leave a field unset, `categories` lists ids separated by `|` and `prices` reads like `EUR:8990|USD:9790`. With `dryRun=true` every row is checked but nothing is saved. Requires the seller or admin role and a verified email address.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - name: dryRun
+ *         in: query
+ *         required: false
+ *         description: Only check the file and report what would happen
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *           example: |
+ *             sku,title,price,currency,prices,stock
+ *             MBP-14-M3,Macbook,1299900,SEK,EUR:119900,25
+ *         application/x-ndjson:
+ *           schema:
+ *             $ref: "#/components/schemas/ProductImportRow"
+ *     responses:
+ *       200:
+ *         description: Import finished; see `errors` for rows that failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 dryRun:
+ *                   type: boolean
+ *                   example: false
+ *                 rows:
+ *                   type: integer
+ *                   example: 120
+ *                 created:
+ *                   type: integer
+ *                   example: 100
+ *                 updated:
+ *                   type: integer
+ *                   example: 18
+ *                 failed:
+ *                   type: integer
+ *                   example: 2
+ *                 errors:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       row:
+ *                         type: integer
+ *                         example: 7
+ *                       sku:
+ *                         type: string
+ *                         nullable: true
+ *                         example: "MBP-14-M3"
+ *                       errors:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             field:
+ *                               type: string
+ *                               example: "price"
+ *                             message:
+ *                               type: string
+ *                               example: "must be an integer"
+ *       400:
+ *         description: The file is too large, has too many rows or cannot be read
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — seller or admin role and a verified email required
+ *       415:
+ *         description: The body is neither CSV nor JSON Lines
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const auth = await authorizeScope(req, "products:write", "seller", "admin");
+
+    await requireVerifiedEmail(auth);
+
+    const format = formatFromContentType(req.headers.get("content-type"));
+
+    if (!format) throw unsupportedMediaType("Content-Type must be text/csv or application/x-ndjson");
+
+    const dryRun = req.nextUrl.searchParams.get("dryRun") === "true";
+
+    const tooLarge = `Import files can be at most ${MAX_IMPORT_BYTES / 1024 / 1024} MB and ${MAX_IMPORT_ROWS} rows`;
+
+    if (Number(req.headers.get("content-length")) > MAX_IMPORT_BYTES) throw badRequest(tooLarge);
+
+    const text = await req.text();
+
+    if (Buffer.byteLength(text) > MAX_IMPORT_BYTES) throw badRequest(tooLarge);
+
+    const report = await importProducts(req, auth, text, format, dryRun);
+
+    return NextResponse.json(report, { status: 200 });
+
+});
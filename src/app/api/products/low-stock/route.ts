@@ -0,0 +1,111 @@
+import { badRequest, withErrorHandling } from "@/lib/errors";
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { NextRequest, NextResponse } from "next/server";
+import { parseLimit, MAX_PAGE_LIMIT } from "@/lib/pagination";
+import { connectDB } from "@/lib/mongoose";
+import { authorizeScope } from "@/lib/auth";
+import Product from "@/models/Product";
+
+/**
+ * @swagger
+ * /api/products/low-stock:
+ *   get:
+ *     tags:
+ *       - Products
+ *     summary: Get the seller's products that are running low
+ *     description: Lists the authenticated seller's products whose stock is at or below `threshold`, lowest stock first. Products with variants are listed when any variant is low, with only those variants. Stock held by pending orders is already subtracted.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - name: threshold
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 5
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         description: Maximum number of products (1-100)
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Low-stock products retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   _id:
+ *                     type: string
+ *                     example: "675a3c92f1a3b9b529c7e312"
+ *                   title:
+ *                     type: string
+ *                     example: "Macbook"
+ *                   stock:
+ *                     type: integer
+ *                     description: Only meaningful for products without variants
+ *                     example: 2
+ *                   variants:
+ *                     type: array
+ *                     items:
+ *                       $ref: "#/components/schemas/ProductVariant"
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — requires the seller or admin role
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+const DEFAULT_THRESHOLD = 5;
+
+export const GET = withErrorHandling(async (req: NextRequest) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const { id: userId } = await authorizeScope(req, "products:read", "seller", "admin");
+
+    const params = req.nextUrl.searchParams;
+
+    const rawThreshold = params.get("threshold");
+
+    const threshold = rawThreshold ? Number(rawThreshold) : DEFAULT_THRESHOLD;
+
+    if (!Number.isInteger(threshold) || threshold < 0) throw badRequest("threshold must be a non-negative integer");
+
+    const limit = parseLimit(params.get("limit"));
+
+    if (limit === null) throw badRequest(`limit must be an integer between 1 and ${MAX_PAGE_LIMIT}`);
+
+    const products = await Product.find({
+        author: userId,
+        $or: [
+            { "variants.0": { $exists: false }, stock: { $lte: threshold } },
+            { "variants.stock": { $lte: threshold } }
+        ]
+    })
+        .select("title stock published variants")
+        .sort({ stock: 1, _id: 1 })
+        .limit(limit);
+
+    return NextResponse.json(products.map((product) => ({
+        _id: product._id,
+        title: product.title,
+        stock: product.stock,
+        published: product.published,
+        variants: product.variants.filter((variant) => variant.stock <= threshold)
+    })), { status: 200 });
+
+});
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { purgeTrashedProducts } from "@/lib/products";
+import { withErrorHandling } from "@/lib/errors";
+import { connectDB } from "@/lib/mongoose";
+import { authorize } from "@/lib/auth";
+import { productSnapshot, recordAudit } from "@/lib/audit";
+import { publishProductEvent } from "@/lib/events";
+
+/**
+ * @swagger
+ * /api/products/purge-trash:
+ *   post:
+ *     tags:
+ *       - Products
+ *     summary: Purge expired trash
+ *     description: Permanently deletes products that have been in the trash for longer than `PRODUCT_TRASH_RETENTION_DAYS` (30 by default), including their images. Meant for a scheduled job. Admin only.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Expired trash purged
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 purged:
+ *                   type: integer
+ *                   example: 4
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — admin only
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const auth = await authorize(req, "admin");
+
+    const purged = await purgeTrashedProducts();
+
+    for (const product of purged) {
+
+        await recordAudit(req, { actor: auth, action: "product.purge", target: { type: "product", id: product._id }, before: productSnapshot(product) });
+
+        await publishProductEvent(req, "product.purged", product);
+
+    }
+
+    return NextResponse.json({ purged: purged.length }, { status: 200 });
+
+});
@@ -1,6 +1,15 @@
-import { getCurrentUserId, unauthorized } from "@/lib/auth";
+import { badRequest, withErrorHandling } from "@/lib/errors";
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { authorizeScope, parseMongoId, requireVerifiedEmail } from "@/lib/auth";
+import { categoryWithDescendants } from "@/lib/categories";
 import { NextRequest, NextResponse } from "next/server";
 import { connectDB } from "@/lib/mongoose";
+import { cursorQuery, escapeRegex, parseCursorParams, SortOrder, toPage } from "@/lib/pagination";
+import { productCreateSchema } from "@/lib/schemas";
+import { createProduct } from "@/lib/products";
+import { productSnapshot, recordAudit } from "@/lib/audit";
+import { publishProductEvent } from "@/lib/events";
+import { parseBody } from "@/lib/validation";
 import Product from "@/models/Product";
 
 /**
@@ -16,64 +25,207 @@ import Product from "@/models/Product";
  *   get:
  *     tags:
  *       - Products
- *     summary: Get all products of the authenticated user
- *     description: Returns a list of all products created by the authenticated user.
+ *     summary: Get the products of the authenticated user
+ *     description: Returns a page of products created by the authenticated user. Pass the returned `nextCursor` as `cursor` to fetch the next page; it is `null` on the last page.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         description: Page size (1-100)
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - name: cursor
+ *         in: query
+ *         required: false
+ *         description: Opaque cursor from a previous response's `nextCursor`. Must be used with the same sort, order and filters; a cursor from a different sort or order is rejected with a 400.
+ *         schema:
+ *           type: string
+ *       - name: sort
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, price, title]
+ *           default: createdAt
+ *       - name: order
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *       - name: minPrice
+ *         in: query
+ *         required: false
+ *         description: In minor units, compared against each product's price in its own currency
+ *         schema:
+ *           type: integer
+ *           example: 10000
+ *       - name: maxPrice
+ *         in: query
+ *         required: false
+ *         description: In minor units, compared against each product's price in its own currency
+ *         schema:
+ *           type: integer
+ *           example: 150000
+ *       - name: q
+ *         in: query
+ *         required: false
+ *         description: Case-insensitive substring match on the title
+ *         schema:
+ *           type: string
+ *           example: "mac"
+ *       - name: category
+ *         in: query
+ *         required: false
+ *         description: Only products in this category or any of its subcategories
+ *         schema:
+ *           type: string
+ *           example: "675d1f22c4e6fa05b3c9da01"
  *     responses:
  *       200:
- *         description: List of products retrieved successfully
+ *         description: Page of products retrieved successfully
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   id:
- *                     type: string
- *                     example: "675a3c92f1a3b9b529c7e312"
- *                   title:
- *                     type: string
- *                     example: "Macbook"
- *                   price:
- *                     type: number
- *                     example: 999.9
- *                   author:
+ *               type: object
+ *               properties:
+ *                 items:
+ *                   type: array
+ *                   items:
  *                     type: object
  *                     properties:
- *                       fullname:
+ *                       id:
  *                         type: string
- *                         example: "XYFORA AB"
- *                       email:
+ *                         example: "675a3c92f1a3b9b529c7e312"
+ *                       title:
  *                         type: string
- *                         example: "info@xyfora.se"
- *                   createdAt:
- *                     type: string
- *                     format: date-time
- *                     example: "2025-01-02T12:45:30.000Z"
- *                   updatedAt:
- *                     type: string
- *                     format: date-time
- *                     example: "2025-01-02T12:45:30.000Z"
+ *                         example: "Macbook"
+ *                       sku:
+ *                         type: string
+ *                         example: "MBP-14-M3"
+ *                       price:
+ *                         $ref: "#/components/schemas/Money"
+ *                       currency:
+ *                         type: string
+ *                         example: "SEK"
+ *                       categories:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                         example: ["675d1f22c4e6fa05b3c9da01"]
+ *                       variants:
+ *                         type: array
+ *                         items:
+ *                           $ref: "#/components/schemas/ProductVariant"
+ *                       author:
+ *                         type: object
+ *                         properties:
+ *                           fullname:
+ *                             type: string
+ *                             example: "XYFORA AB"
+ *                           email:
+ *                             type: string
+ *                             example: "info@xyfora.se"
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                         example: "2025-01-02T12:45:30.000Z"
+ *                       updatedAt:
+ *                         type: string
+ *                         format: date-time
+ *                         example: "2025-01-02T12:45:30.000Z"
+ *                 limit:
+ *                   type: integer
+ *                   example: 20
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                   example: "eyJkIjoiMjAyNS0wMS0wMlQxMjo0NTozMC4wMDBaIiwiaWQiOiI2NzVhM2M5MmYxYTNiOWI1MjljN2UzMTIifQ"
+ *       400:
+ *         description: Invalid query parameters
  *       401:
  *         description: Unauthorized — missing or invalid token
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
  *       500:
  *         description: Internal server error
  */
 
-export async function GET(req: NextRequest) {
+const SORT_KEYS = ["createdAt", "price", "title"] as const;
 
-    await connectDB();
+type SortKey = typeof SORT_KEYS[number];
 
-    const userId = getCurrentUserId(req);
+const parsePrice = (raw: string | null): number | undefined | null => {
 
-    if (!userId) return unauthorized();
+    if (raw === null || raw === "") return undefined;
 
-    const products = await Product.find({ author: userId }).populate("author", "fullname email").sort({ createdAt: -1 });
+    const value = Number(raw);
 
-    return NextResponse.json(products, { status: 200 });
+    return Number.isInteger(value) ? value : null;
 
 };
 
+export const GET = withErrorHandling(async (req: NextRequest) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const { id: userId } = await authorizeScope(req, "products:read");
+
+    const params = req.nextUrl.searchParams;
+
+    const { limit, cursor } = parseCursorParams(params);
+
+    const sortBy = (params.get("sort") ?? "createdAt") as SortKey;
+
+    if (!SORT_KEYS.includes(sortBy)) throw badRequest(`sort must be one of ${SORT_KEYS.join(", ")}`);
+
+    const order = (params.get("order") ?? "desc") as SortOrder;
+
+    if (order !== "asc" && order !== "desc") throw badRequest("order must be asc or desc");
+
+    const minPrice = parsePrice(params.get("minPrice"));
+
+    const maxPrice = parsePrice(params.get("maxPrice"));
+
+    if (minPrice === null || maxPrice === null) throw badRequest("minPrice and maxPrice must be integers in minor units");
+
+    const filter: Record<string, unknown> = { author: userId };
+
+    if (minPrice !== undefined || maxPrice !== undefined) {
+
+        filter.price = {
+            ...(minPrice !== undefined && { $gte: minPrice }),
+            ...(maxPrice !== undefined && { $lte: maxPrice })
+        };
+
+    }
+
+    const q = params.get("q")?.trim();
+
+    if (q) filter.title = { $regex: escapeRegex(q), $options: "i" };
+
+    const category = params.get("category");
+
+    if (category) filter.categories = { $in: await categoryWithDescendants(parseMongoId(category, "category")) };
+
+    const page = cursorQuery(sortBy, order, cursor);
+
+    const products = await Product.find({ $and: [filter, page.filter] })
+        .sort(page.sort)
+        .limit(limit + 1)
+        .populate("author", "fullname email");
+
+    return NextResponse.json(toPage(products, limit, sortBy, order), { status: 200 });
+
+});
+
 /**
  * @swagger
  * /api/products:
@@ -81,77 +233,53 @@ export async function GET(req: NextRequest) {
  *     tags:
  *       - Products
  *     summary: Create a new product
- *     description: Adds a new product for the authenticated user.
+ *     description: Adds a new product for the authenticated user. Requires the seller or admin role.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - title
- *               - price
- *               - author
- *             properties:
- *               title:
- *                 type: string
- *                 example: "Macbook"
- *               price:
- *                 type: number
- *                 example: 999.9
- *               author:
- *                 type: object
- *                 properties:
- *                   fullname:
- *                     type: string
- *                     example: "XYFORA AB"
- *                   email:
- *                     type: string
- *                     format: email
- *                     example: "info@xyfora.se"
+ *             $ref: "#/components/schemas/ProductCreateInput"
  *     responses:
  *       201:
  *         description: Product created successfully
  *       400:
- *         description: Missing fields or invalid input
+ *         description: Validation failed, or a category does not exist
  *       401:
  *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — customers cannot create products, or the email address is not verified while `REQUIRE_VERIFIED_EMAIL` is enabled
+ *       409:
+ *         description: The SKU is already used by another of the seller's products
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
  *       500:
  *         description: Internal server error
  */
 
-export async function POST(req: NextRequest) {
-
-    await connectDB();
-
-    const userId = getCurrentUserId(req);
-
-    if (!userId) return unauthorized();
-
-    try {
+export const POST = withErrorHandling(async (req: NextRequest) => {
 
-        const { title, price } = await req.json();
+    await rateLimitByIp(req, RATE_LIMITS.products);
 
-        if (!title || price === undefined)
+    await connectDB();
 
-            return NextResponse.json({ error: "Title and price are required" }, { status: 400 });
+    const auth = await authorizeScope(req, "products:write", "seller", "admin");
 
-        const product = await Product.create({
-            title,
-            price: Number(price),
-            author: userId
-        });
+    await requireVerifiedEmail(auth);
 
-        const populated = await product.populate("author", "fullname email");
+    const body = await parseBody(req, productCreateSchema);
 
-        return NextResponse.json(populated, { status: 201 });
+    const product = await createProduct(auth.id, body);
 
-    } catch (err) {
+    await recordAudit(req, { actor: auth, action: "product.create", target: { type: "product", id: product._id }, after: productSnapshot(product) });
 
-        console.error("POST product error:", err);
+    await publishProductEvent(req, "product.created", product);
 
-        return NextResponse.json({ error: "Failed to create product" }, { status: 500 });
+    const populated = await product.populate("author", "fullname email");
 
-    }
+    return NextResponse.json(populated, { status: 201 });
 
-};
\ No newline at end of file
+});
\ No newline at end of file
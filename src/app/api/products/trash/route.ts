@@ -0,0 +1,95 @@
+import { cursorQuery, parseCursorParams, toPage } from "@/lib/pagination";
+import { rateLimitByIp, RATE_LIMITS } from "@/lib/rateLimit";
+import { NextRequest, NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/errors";
+import { connectDB } from "@/lib/mongoose";
+import { authorizeScope } from "@/lib/auth";
+import Product from "@/models/Product";
+
+/**
+ * @swagger
+ * /api/products/trash:
+ *   get:
+ *     tags:
+ *       - Products
+ *     summary: List the authenticated user's trashed products
+ *     description: Returns a page of the user's deleted products, most recently deleted first. They can be restored until they are purged, `PRODUCT_TRASH_RETENTION_DAYS` (30 by default) after deletion. Pass the returned `nextCursor` as `cursor` to fetch the next page.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         description: Page size (1-100)
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - name: cursor
+ *         in: query
+ *         required: false
+ *         description: Opaque cursor from a previous response's `nextCursor`
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Page of trashed products retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       _id:
+ *                         type: string
+ *                         example: "675a3c92f1a3b9b529c7e312"
+ *                       title:
+ *                         type: string
+ *                         example: "Macbook"
+ *                       deletedAt:
+ *                         type: string
+ *                         format: date-time
+ *                         example: "2025-01-05T09:12:00.000Z"
+ *                       deletedBy:
+ *                         type: string
+ *                         example: "675a3c92f1a3b9b529c7e301"
+ *                 limit:
+ *                   type: integer
+ *                   example: 20
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async (req: NextRequest) => {
+
+    await rateLimitByIp(req, RATE_LIMITS.products);
+
+    await connectDB();
+
+    const { id: userId } = await authorizeScope(req, "products:read");
+
+    const { limit, cursor } = parseCursorParams(req.nextUrl.searchParams);
+
+    const page = cursorQuery("deletedAt", "desc", cursor);
+
+    const products = await Product.find({ $and: [{ author: userId, deletedAt: { $ne: null } }, page.filter] })
+        .setOptions({ withDeleted: true })
+        .sort(page.sort)
+        .limit(limit + 1);
+
+    return NextResponse.json(toPage(products, limit, "deletedAt", "desc"), { status: 200 });
+
+});
@@ -0,0 +1,26 @@
+import { notFound, withErrorHandling } from "@/lib/errors";
+import { NextRequest } from "next/server";
+import { getStorage } from "@/lib/storage";
+
+/**
+ * Serves files of the local disk storage adapter. Keys contain a fresh
+ * ObjectId per upload, so the content behind a URL never changes.
+ */
+export const GET = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ key: string[] }> }) => {
+
+    const { key } = await context.params;
+
+    const object = await getStorage().get(key.join("/")).catch(() => null);
+
+    if (!object) throw notFound("File not found");
+
+    return new Response(new Uint8Array(object.data), {
+        status: 200,
+        headers: {
+            "Content-Type": object.contentType,
+            "Cache-Control": "public, max-age=31536000, immutable",
+            "X-Content-Type-Options": "nosniff"
+        }
+    });
+
+});
@@ -0,0 +1,113 @@
+import { MAX_PAGE_LIMIT, parseLimit, parsePageNumber } from "@/lib/pagination";
+import { getCurrentUser, isOwnerOrAdmin, parseMongoId } from "@/lib/auth";
+import { badRequest, notFound, withErrorHandling } from "@/lib/errors";
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/mongoose";
+import { PUBLISHED_FILTER } from "@/models/Product";
+import User from "@/models/User";
+
+/**
+ * @swagger
+ * /api/users/{id}/products:
+ *   get:
+ *     tags:
+ *       - Users
+ *     summary: Get the products of a user
+ *     description: Lists a seller's products through the `User.products` relation, newest first. Everyone sees the published products; the user themselves and admins also see unpublished ones.
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId of the user
+ *         schema:
+ *           type: string
+ *           example: "675a3c92f1a3b9b529c7e301"
+ *       - name: page
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         description: Page size (1-100)
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Products retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 user:
+ *                   type: object
+ *                   properties:
+ *                     _id:
+ *                       type: string
+ *                       example: "675a3c92f1a3b9b529c7e301"
+ *                     fullname:
+ *                       type: string
+ *                       example: "XYFORA AB"
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 page:
+ *                   type: integer
+ *                   example: 1
+ *                 limit:
+ *                   type: integer
+ *                   example: 20
+ *       400:
+ *         description: Invalid user ID or query parameters
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const id = parseMongoId(rawId, "user");
+
+    const params = req.nextUrl.searchParams;
+
+    const limit = parseLimit(params.get("limit"));
+
+    if (limit === null) throw badRequest(`limit must be an integer between 1 and ${MAX_PAGE_LIMIT}`);
+
+    const page = parsePageNumber(params.get("page"));
+
+    if (page === null) throw badRequest("page must be a positive integer");
+
+    const viewer = await getCurrentUser(req, "products:read");
+
+    const includeUnpublished = viewer !== null && isOwnerOrAdmin(viewer, id);
+
+    const user = await User.findById(id)
+        .select("fullname products")
+        .populate({
+            path: "products",
+            select: "title description sku price currency prices published stock createdAt updatedAt",
+            match: includeUnpublished ? {} : PUBLISHED_FILTER,
+            options: { sort: { createdAt: -1, _id: -1 }, skip: (page - 1) * limit, limit }
+        });
+
+    if (!user) throw notFound("User not found");
+
+    return NextResponse.json({
+        user: { _id: user._id, fullname: user.fullname },
+        items: user.products,
+        page,
+        limit
+    }, { status: 200 });
+
+});
@@ -0,0 +1,94 @@
+import { authorize, forbidden, parseMongoId } from "@/lib/auth";
+import { notFound, withErrorHandling } from "@/lib/errors";
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/mongoose";
+import { parseBody } from "@/lib/validation";
+import { roleUpdateSchema } from "@/lib/schemas";
+import { recordAudit } from "@/lib/audit";
+import { publishAccountEvent } from "@/lib/events";
+import User from "@/models/User";
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Users
+ *     description: User administration
+ */
+
+/**
+ * @swagger
+ * /api/users/{id}/role:
+ *   patch:
+ *     tags:
+ *       - Users
+ *     summary: Change a user's role
+ *     description: Assigns the customer, seller or admin role to a user. Admin only. This is how sellers are approved, as registration only creates customers. The first admin comes from the `ADMIN_EMAILS` setting. The new role applies to the user's next request, including with access tokens issued before the change.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId of the user
+ *         schema:
+ *           type: string
+ *           example: "675a3c92f1a3b9b529c7e312"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/RoleUpdateInput"
+ *     responses:
+ *       200:
+ *         description: Role updated successfully
+ *       400:
+ *         description: Invalid user ID or role
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — admin only, or an admin demoting themselves
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Failed to update role
+ */
+
+export const PATCH = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const auth = await authorize(req, "admin");
+
+    const id = parseMongoId(rawId, "user");
+
+    const { role } = await parseBody(req, roleUpdateSchema);
+
+    // Keeps the platform from losing its last way into the admin routes by accident.
+    if (id === auth.id && role !== "admin") throw forbidden("Admins cannot demote themselves");
+
+    const user = await User.findById(id).select("fullname email role");
+
+    if (!user) throw notFound("User not found");
+
+    const previousRole = user.role;
+
+    user.role = role;
+
+    await user.save();
+
+    await recordAudit(req, {
+        actor: auth,
+        action: "user.role_change",
+        target: { type: "user", id },
+        before: { role: previousRole },
+        after: { role }
+    });
+
+    await publishAccountEvent(req, "account.updated", id);
+
+    return NextResponse.json(user, { status: 200 });
+
+});
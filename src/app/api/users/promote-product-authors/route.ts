@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { grantSellerRoleToProductAuthors } from "@/lib/roles";
+import { withErrorHandling } from "@/lib/errors";
+import { connectDB } from "@/lib/mongoose";
+import { authorize } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+
+/**
+ * @swagger
+ * /api/users/promote-product-authors:
+ *   post:
+ *     tags:
+ *       - Users
+ *     summary: Give existing product authors the seller role
+ *     description: One-off migration for accounts created before roles existed, which all count as customers and so could no longer manage their products. Every user who authors a product, including trashed ones, and is not yet a seller or admin becomes a seller. Safe to run more than once. Admin only.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: dryRun
+ *         in: query
+ *         required: false
+ *         description: Only report how many users would be promoted
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Migration finished
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 dryRun:
+ *                   type: boolean
+ *                   example: false
+ *                 authorsFound:
+ *                   type: integer
+ *                   example: 12
+ *                 usersPromoted:
+ *                   type: integer
+ *                   example: 9
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — admin only
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const auth = await authorize(req, "admin");
+
+    const dryRun = req.nextUrl.searchParams.get("dryRun") === "true";
+
+    const report = await grantSellerRoleToProductAuthors({ dryRun });
+
+    if (!dryRun) await recordAudit(req, { actor: auth, action: "user.promote_product_authors", metadata: report });
+
+    return NextResponse.json({ dryRun, ...report }, { status: 200 });
+
+});
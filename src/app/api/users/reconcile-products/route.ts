@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { reconcileUserProducts } from "@/lib/products";
+import { withErrorHandling } from "@/lib/errors";
+import { connectDB } from "@/lib/mongoose";
+import { authorize } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+
+/**
+ * @swagger
+ * /api/users/reconcile-products:
+ *   post:
+ *     tags:
+ *       - Users
+ *     summary: Repair User.products drift
+ *     description: Rebuilds every user's `products` list from the `author` field of the products, for data created before the two were kept in sync. Reports products whose author no longer exists. Admin only.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: dryRun
+ *         in: query
+ *         required: false
+ *         description: Only report what would be repaired
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Reconciliation finished
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 dryRun:
+ *                   type: boolean
+ *                   example: false
+ *                 usersChecked:
+ *                   type: integer
+ *                   example: 42
+ *                 usersRepaired:
+ *                   type: integer
+ *                   example: 3
+ *                 orphanedProducts:
+ *                   type: integer
+ *                   example: 0
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — admin only
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const auth = await authorize(req, "admin");
+
+    const dryRun = req.nextUrl.searchParams.get("dryRun") === "true";
+
+    const report = await reconcileUserProducts({ dryRun });
+
+    if (!dryRun) await recordAudit(req, { actor: auth, action: "user.reconcile_products", metadata: report });
+
+    return NextResponse.json({ dryRun, ...report }, { status: 200 });
+
+});
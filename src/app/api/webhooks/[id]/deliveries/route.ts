@@ -0,0 +1,112 @@
+import WebhookDelivery, { WEBHOOK_DELIVERY_STATUSES, WebhookDeliveryStatus } from "@/models/WebhookDelivery";
+import { cursorQuery, parseCursorParams, toPage } from "@/lib/pagination";
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, parseMongoId } from "@/lib/auth";
+import { badRequest, withErrorHandling } from "@/lib/errors";
+import { findOwnedWebhook } from "@/lib/webhooks";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/deliveries:
+ *   get:
+ *     tags:
+ *       - Webhooks
+ *     summary: List a webhook's deliveries
+ *     description: Returns a page of the delivery log, newest first, with the payload and every attempt made so far. Deliveries are kept for 30 days. Pass the returned `nextCursor` as `cursor` to fetch the next page.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId
+ *         schema:
+ *           type: string
+ *           example: "675f1a02e4c8bd27d5ebf101"
+ *       - name: status
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [pending, succeeded, failed]
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         description: Page size (1-100)
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - name: cursor
+ *         in: query
+ *         required: false
+ *         description: Opaque cursor from a previous response's `nextCursor`
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Page of deliveries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     $ref: "#/components/schemas/WebhookDelivery"
+ *                 limit:
+ *                   type: integer
+ *                   example: 20
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *       400:
+ *         description: Invalid ID format or query parameters
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — not the owner of the webhook
+ *       404:
+ *         description: Webhook not found
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const auth = await authorize(req);
+
+    const id = parseMongoId(rawId, "webhook");
+
+    const webhook = await findOwnedWebhook(id, auth);
+
+    const params = req.nextUrl.searchParams;
+
+    const { limit, cursor } = parseCursorParams(params);
+
+    const filter: Record<string, unknown> = { webhook: webhook._id };
+
+    const status = params.get("status");
+
+    if (status) {
+
+        if (!WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) throw badRequest(`status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(", ")}`);
+
+        filter.status = status;
+
+    }
+
+    const page = cursorQuery("createdAt", "desc", cursor);
+
+    const deliveries = await WebhookDelivery.find({ $and: [filter, page.filter] })
+        .sort(page.sort)
+        .limit(limit + 1);
+
+    return NextResponse.json(toPage(deliveries, limit, "createdAt", "desc"), { status: 200 });
+
+});
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findOwnedWebhook, pingWebhook } from "@/lib/webhooks";
+import { authorize, parseMongoId } from "@/lib/auth";
+import { rateLimit, RATE_LIMITS } from "@/lib/rateLimit";
+import { withErrorHandling } from "@/lib/errors";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/ping:
+ *   post:
+ *     tags:
+ *       - Webhooks
+ *     summary: Send a test ping
+ *     description: Sends a signed `ping` event to the webhook right away, even when it is paused, and returns the delivery with the endpoint's response. Pings are not retried.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId
+ *         schema:
+ *           type: string
+ *           example: "675f1a02e4c8bd27d5ebf101"
+ *     responses:
+ *       200:
+ *         description: Ping sent; check `status` and `attempts` for the outcome
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/WebhookDelivery"
+ *       400:
+ *         description: Invalid ID format
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — not the owner of the webhook
+ *       404:
+ *         description: Webhook not found
+ *       429:
+ *         description: Rate limit exceeded, see the `Retry-After` header
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const auth = await authorize(req);
+
+    const id = parseMongoId(rawId, "webhook");
+
+    await rateLimit(RATE_LIMITS.webhookPingsPerUser, auth.id);
+
+    const webhook = await findOwnedWebhook(id, auth);
+
+    const delivery = await pingWebhook(webhook);
+
+    return NextResponse.json(delivery, { status: 200 });
+
+});
@@ -0,0 +1,170 @@
+import { deleteWebhook, findOwnedWebhook, updateWebhook } from "@/lib/webhooks";
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, parseMongoId } from "@/lib/auth";
+import { withErrorHandling } from "@/lib/errors";
+import { webhookUpdateSchema } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *   get:
+ *     tags:
+ *       - Webhooks
+ *     summary: Get a webhook
+ *     description: Returns one of the user's webhooks; admins can read any. The signing secret is not included.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId
+ *         schema:
+ *           type: string
+ *           example: "675f1a02e4c8bd27d5ebf101"
+ *     responses:
+ *       200:
+ *         description: Webhook retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/Webhook"
+ *       400:
+ *         description: Invalid ID format
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — not the owner of the webhook
+ *       404:
+ *         description: Webhook not found
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const auth = await authorize(req);
+
+    const id = parseMongoId(rawId, "webhook");
+
+    const webhook = await findOwnedWebhook(id, auth);
+
+    return NextResponse.json(webhook, { status: 200 });
+
+});
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *   patch:
+ *     tags:
+ *       - Webhooks
+ *     summary: Update a webhook
+ *     description: Changes the URL, events, description or active state of a webhook. Fields that are left out keep their value. Pausing a webhook makes its pending retries fail.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId
+ *         schema:
+ *           type: string
+ *           example: "675f1a02e4c8bd27d5ebf101"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/WebhookUpdateInput"
+ *     responses:
+ *       200:
+ *         description: Webhook updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/Webhook"
+ *       400:
+ *         description: Invalid ID format, validation failed, or the URL is not https or points to a private address
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — not the owner of the webhook
+ *       404:
+ *         description: Webhook not found
+ *       500:
+ *         description: Internal server error
+ */
+
+export const PATCH = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const auth = await authorize(req);
+
+    const id = parseMongoId(rawId, "webhook");
+
+    const body = await parseBody(req, webhookUpdateSchema);
+
+    const webhook = await updateWebhook(await findOwnedWebhook(id, auth), body);
+
+    return NextResponse.json(webhook, { status: 200 });
+
+});
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *   delete:
+ *     tags:
+ *       - Webhooks
+ *     summary: Delete a webhook
+ *     description: Deletes the webhook and its delivery log. Pending retries are dropped.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: MongoDB ObjectId
+ *         schema:
+ *           type: string
+ *           example: "675f1a02e4c8bd27d5ebf101"
+ *     responses:
+ *       200:
+ *         description: Webhook deleted successfully
+ *       400:
+ *         description: Invalid ID format
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — not the owner of the webhook
+ *       404:
+ *         description: Webhook not found
+ *       500:
+ *         description: Internal server error
+ */
+
+export const DELETE = withErrorHandling(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+
+    await connectDB();
+
+    const { id: rawId } = await context.params;
+
+    const auth = await authorize(req);
+
+    const id = parseMongoId(rawId, "webhook");
+
+    await deleteWebhook(await findOwnedWebhook(id, auth));
+
+    return NextResponse.json({ message: "Webhook deleted successfully" }, { status: 200 });
+
+});
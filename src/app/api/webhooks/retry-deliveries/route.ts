@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { processDueDeliveries } from "@/lib/webhooks";
+import { withErrorHandling } from "@/lib/errors";
+import { connectDB } from "@/lib/mongoose";
+import { authorize } from "@/lib/auth";
+
+/**
+ * @swagger
+ * /api/webhooks/retry-deliveries:
+ *   post:
+ *     tags:
+ *       - Webhooks
+ *     summary: Retry failed webhook deliveries
+ *     description: Makes the next attempt of up to 100 deliveries whose retry is due. Failed attempts are retried with exponential backoff, 30 seconds after the first failure and doubling up to 6 hours, until `WEBHOOK_MAX_ATTEMPTS` (8 by default) is reached. Meant for a scheduled job, run every minute or so. Admin only.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Due deliveries attempted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 attempted:
+ *                   type: integer
+ *                   example: 4
+ *                 succeeded:
+ *                   type: integer
+ *                   example: 2
+ *                 retrying:
+ *                   type: integer
+ *                   example: 1
+ *                 failed:
+ *                   type: integer
+ *                   description: Deliveries that ran out of attempts
+ *                   example: 1
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       403:
+ *         description: Forbidden — admin only
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    await authorize(req, "admin");
+
+    const report = await processDueDeliveries();
+
+    return NextResponse.json(report, { status: 200 });
+
+});
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/errors";
+import { webhookCreateSchema } from "@/lib/schemas";
+import { createWebhook } from "@/lib/webhooks";
+import { parseBody } from "@/lib/validation";
+import { connectDB } from "@/lib/mongoose";
+import { authorize } from "@/lib/auth";
+import Webhook from "@/models/Webhook";
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   get:
+ *     tags:
+ *       - Webhooks
+ *     summary: List the authenticated user's webhooks
+ *     description: Returns every webhook of the user, newest first. Signing secrets are not included.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhooks retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/Webhook"
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       500:
+ *         description: Internal server error
+ */
+
+export const GET = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const auth = await authorize(req);
+
+    const webhooks = await Webhook.find({ user: auth.id }).sort({ createdAt: -1, _id: -1 });
+
+    return NextResponse.json(webhooks, { status: 200 });
+
+});
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   post:
+ *     tags:
+ *       - Webhooks
+ *     summary: Create a webhook
+ *     description: Subscribes a URL to events about the user's products and account. The response contains the signing `secret`, which is not shown again. Every delivery carries an `X-Xyfora-Signature` header of the form `t=<unix timestamp>,v1=<hex>`, where the hex part is an HMAC-SHA256 of `<timestamp>.<raw body>` keyed with the secret. A user can have up to 10 webhooks. Host names are resolved on every delivery, and a delivery fails without being sent if one resolves to a private or local address.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/WebhookCreateInput"
+ *     responses:
+ *       201:
+ *         description: Webhook created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: "#/components/schemas/Webhook"
+ *                 - type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       example: "whsec_3q2+7w5e8r9t0y1u2i3o4p5a6s7d8f9g"
+ *       400:
+ *         description: Validation failed, or the URL is not https or points to a private address
+ *       401:
+ *         description: Unauthorized — missing or invalid token
+ *       409:
+ *         description: The user already has the maximum number of webhooks
+ *       500:
+ *         description: Internal server error
+ */
+
+export const POST = withErrorHandling(async (req: NextRequest) => {
+
+    await connectDB();
+
+    const auth = await authorize(req);
+
+    const body = await parseBody(req, webhookCreateSchema);
+
+    const { webhook, secret } = await createWebhook(auth.id, body);
+
+    return NextResponse.json({ ...webhook.toJSON(), secret }, { status: 201 });
+
+});
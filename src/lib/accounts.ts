@@ -0,0 +1,100 @@
+import { validationError } from "./validation";
+import { cleanupProductImages } from "./productImages";
+import { withTransaction } from "./mongoose";
+import { badRequest } from "./errors";
+import UserToken from "@/models/UserToken";
+import ProductRevision from "@/models/ProductRevision";
+import WebhookDelivery from "@/models/WebhookDelivery";
+import Webhook from "@/models/Webhook";
+import ApiKey from "@/models/ApiKey";
+import UserIdentity from "@/models/UserIdentity";
+import TwoFactor from "@/models/TwoFactor";
+import Product from "@/models/Product";
+import Session from "@/models/Session";
+import User from "@/models/User";
+import Cart from "@/models/Cart";
+import mongoose from "mongoose";
+
+export type ProductDisposal = {
+    products?: "delete" | "transfer";
+    transferTo?: string;
+};
+
+/**
+ * Deletes a user and everything that only makes sense with them around. Their
+ * products are deleted or handed over to another seller, whose `products` list
+ * is updated to match. Orders are kept as the buyer's and sellers' records.
+ */
+export const deleteAccount = async (userId: string, { products, transferTo }: ProductDisposal): Promise<void> => {
+
+    // Trashed products go along too, so none is left behind without an author.
+    const owned = await Product.find({ author: userId }).setOptions({ withDeleted: true }).select("deletedAt images");
+
+    const productIds = owned.map((product) => product._id);
+
+    if (productIds.length > 0 && !products) {
+
+        throw validationError([{ field: "products", message: "is required when the account has products" }]);
+
+    }
+
+    let targetId: mongoose.Types.ObjectId | null = null;
+
+    const deletedProducts = products === "delete" ? owned : [];
+
+    if (productIds.length > 0 && products === "transfer") {
+
+        if (!transferTo) throw validationError([{ field: "transferTo", message: "is required when transferring products" }]);
+
+        const target = await User.findOne({ email: transferTo, _id: { $ne: userId }, role: { $in: ["seller", "admin"] } }).select("_id");
+
+        if (!target) throw badRequest("transferTo must be the email of another seller or admin");
+
+        targetId = target._id;
+
+    }
+
+    const webhookIds = (await Webhook.find({ user: userId }).select("_id")).map((webhook) => webhook._id);
+
+    await withTransaction(async (session) => {
+
+        if (targetId) {
+
+            await Product.updateMany({ _id: { $in: productIds } }, { author: targetId }, { session }).setOptions({ withDeleted: true });
+
+            // `User.products` only lists products that are not in the trash.
+            const live = owned.filter((product) => !product.deletedAt).map((product) => product._id);
+
+            await User.updateOne({ _id: targetId }, { $addToSet: { products: { $each: live } } }, { session });
+
+        } else if (productIds.length > 0) {
+
+            await Product.deleteMany({ _id: { $in: productIds } }, { session });
+
+            await ProductRevision.deleteMany({ product: { $in: productIds } }, { session });
+
+        }
+
+        await Cart.deleteOne({ user: userId }, { session });
+
+        await Session.deleteMany({ user: userId }, { session });
+
+        await UserToken.deleteMany({ user: userId }, { session });
+
+        await WebhookDelivery.deleteMany({ webhook: { $in: webhookIds } }, { session });
+
+        await Webhook.deleteMany({ user: userId }, { session });
+
+        await ApiKey.deleteMany({ user: userId }, { session });
+
+        await UserIdentity.deleteMany({ user: userId }, { session });
+
+        await TwoFactor.deleteMany({ user: userId }, { session });
+
+        await User.deleteOne({ _id: userId }, { session });
+
+    });
+
+    await cleanupProductImages(deletedProducts);
+
+};
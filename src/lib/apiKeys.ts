@@ -0,0 +1,113 @@
+import ApiKey, { ApiKeyScope, IApiKey } from "@/models/ApiKey";
+import { generateSecret, hashSecret } from "./secrets";
+import { conflict, notFound } from "./errors";
+import User, { UserRole } from "@/models/User";
+
+export const API_KEY_PREFIX = "xyf_";
+
+export const MAX_API_KEYS_PER_USER = 20;
+
+// Characters of the key kept in the clear, including `API_KEY_PREFIX`.
+const VISIBLE_PREFIX_LENGTH = 12;
+
+// `lastUsedAt` is written at most this often, so busy keys do not cost a write per request.
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+export type ApiKeyInput = {
+    name: string;
+    scopes: ApiKeyScope[];
+    expiresInDays?: number;
+};
+
+export type ApiKeyOwner = {
+    id: string;
+    role: UserRole;
+    apiKeyId: string;
+    scopes: ApiKeyScope[];
+};
+
+export const isApiKey = (token: string): boolean => token.startsWith(API_KEY_PREFIX);
+
+/** Creates a key for the user. The key itself is returned only here; afterwards only its prefix is known. */
+export const createApiKey = async (userId: string, { name, scopes, expiresInDays }: ApiKeyInput): Promise<{ apiKey: IApiKey; key: string }> => {
+
+    const active = await ApiKey.countDocuments({
+        user: userId,
+        revokedAt: null,
+        $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }]
+    });
+
+    if (active >= MAX_API_KEYS_PER_USER) throw conflict(`You can have at most ${MAX_API_KEYS_PER_USER} active API keys`);
+
+    const key = `${API_KEY_PREFIX}${generateSecret(32)}`;
+
+    const apiKey = await ApiKey.create({
+        user: userId,
+        name,
+        prefix: key.slice(0, VISIBLE_PREFIX_LENGTH),
+        keyHash: hashSecret(key),
+        scopes,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : undefined
+    });
+
+    return { apiKey, key };
+
+};
+
+/** Revokes one of the user's keys; requests with it fail from then on. Revoking twice is a no-op. */
+export const revokeApiKey = async (userId: string, apiKeyId: string): Promise<IApiKey> => {
+
+    const apiKey = await ApiKey.findOne({ _id: apiKeyId, user: userId });
+
+    if (!apiKey) throw notFound("API key not found");
+
+    if (!apiKey.revokedAt) {
+
+        apiKey.revokedAt = new Date();
+
+        await apiKey.save();
+
+    }
+
+    return apiKey;
+
+};
+
+/**
+ * Revokes every active key of the user, for when their password was changed or
+ * reset: whoever knew the old password may have created keys with it.
+ * Returns how many keys were revoked.
+ */
+export const revokeUserApiKeys = async (userId: string): Promise<number> => {
+
+    const { modifiedCount } = await ApiKey.updateMany({ user: userId, revokedAt: null }, { revokedAt: new Date() });
+
+    return modifiedCount;
+
+};
+
+/**
+ * Resolves a key to its owner, with the role the owner has now. Returns null
+ * for unknown, revoked and expired keys.
+ */
+export const authenticateApiKey = async (key: string): Promise<ApiKeyOwner | null> => {
+
+    const now = new Date();
+
+    const apiKey = await ApiKey.findOne({ keyHash: hashSecret(key), revokedAt: null });
+
+    if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt <= now)) return null;
+
+    const user = await User.findById(apiKey.user).select("role");
+
+    if (!user) return null;
+
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_PRECISION_MS) {
+
+        await ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: now });
+
+    }
+
+    return { id: user._id.toString(), role: user.role, apiKeyId: apiKey._id.toString(), scopes: apiKey.scopes };
+
+};
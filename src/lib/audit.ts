@@ -0,0 +1,142 @@
+import AuditEvent, { AuditTargetType, IAuditChange } from "@/models/AuditEvent";
+import { ICategory } from "@/models/Category";
+import { IProduct, IProductImage, IProductVariant } from "@/models/Product";
+import { IUser } from "@/models/User";
+import { NextRequest } from "next/server";
+import mongoose from "mongoose";
+import { requestIdOf } from "./errors";
+import { getClientIp } from "./request";
+
+/** Plain, JSON-safe view of a document's audited fields. */
+export type AuditSnapshot = Record<string, unknown>;
+
+export type AuditActor = {
+    id: string;
+    role?: string;
+    apiKey?: { id: string };
+};
+
+export type AuditEntry = {
+    actor: AuditActor | null;
+    action: string;
+    target?: { type: AuditTargetType; id: string | mongoose.Types.ObjectId } | null;
+    before?: AuditSnapshot | null;
+    after?: AuditSnapshot | null;
+    metadata?: Record<string, unknown>;
+};
+
+const MAX_USER_AGENT_LENGTH = 512;
+
+/** Id of a reference that may or may not have been populated. */
+const refId = (value: unknown): string | null => {
+
+    if (value === null || value === undefined) return null;
+
+    const id = (value as { _id?: unknown })._id ?? value;
+
+    return String(id);
+
+};
+
+export const variantSnapshot = (variant: IProductVariant): AuditSnapshot => ({
+    id: refId(variant._id),
+    sku: variant.sku,
+    size: variant.size ?? null,
+    color: variant.color ?? null,
+    price: variant.price ?? null,
+    stock: variant.stock
+});
+
+export const variantsSnapshot = (variants: IProductVariant[]): AuditSnapshot => ({ variants: variants.map(variantSnapshot) });
+
+export const imagesSnapshot = (images: IProductImage[]): AuditSnapshot => ({ images: images.map((image) => refId(image._id)) });
+
+/** Credentials and tokens are never part of a snapshot; only profile fields are. */
+export const userSnapshot = (user: IUser): AuditSnapshot => ({
+    fullname: user.fullname,
+    email: user.email,
+    role: user.role,
+    emailVerified: user.emailVerified
+});
+
+export const productSnapshot = (product: IProduct): AuditSnapshot => ({
+    title: product.title,
+    description: product.description,
+    sku: product.sku ?? null,
+    price: product.price,
+    currency: product.currency,
+    prices: product.prices.map(({ currency, amount }) => ({ currency, amount })),
+    published: product.published,
+    stock: product.stock,
+    categories: product.categories.map(refId),
+    ...variantsSnapshot(product.variants),
+    ...imagesSnapshot(product.images),
+    author: refId(product.author),
+    deletedAt: product.deletedAt ? product.deletedAt.toISOString() : null
+});
+
+export const categorySnapshot = (category: ICategory): AuditSnapshot => ({
+    name: category.name,
+    slug: category.slug,
+    description: category.description,
+    parent: refId(category.parent)
+});
+
+/** Field-level differences between two snapshots; a missing side means created or deleted. */
+export const diffSnapshots = (before: AuditSnapshot | null, after: AuditSnapshot | null): IAuditChange[] => {
+
+    const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+    const changes: IAuditChange[] = [];
+
+    for (const field of fields) {
+
+        const from = before?.[field];
+
+        const to = after?.[field];
+
+        if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+        changes.push({ field, ...(before ? { before: from ?? null } : {}), ...(after ? { after: to ?? null } : {}) });
+
+    }
+
+    return changes;
+
+};
+
+/**
+ * Appends an event to the audit log. Runs after the change has been made, and
+ * a failure to record is logged rather than failing a request that already
+ * succeeded.
+ */
+export const recordAudit = async (req: NextRequest, entry: AuditEntry): Promise<void> => {
+
+    const requestId = requestIdOf(req);
+
+    try {
+
+        await AuditEvent.create({
+            actor: entry.actor?.id ?? null,
+            actorRole: entry.actor?.role ?? null,
+            actorApiKey: entry.actor?.apiKey?.id ?? null,
+            action: entry.action,
+            target: entry.target ? { type: entry.target.type, id: new mongoose.Types.ObjectId(String(entry.target.id)) } : null,
+            changes: diffSnapshots(entry.before ?? null, entry.after ?? null),
+            metadata: entry.metadata ?? null,
+            request: {
+                requestId,
+                method: req.method,
+                path: req.nextUrl.pathname,
+                ip: getClientIp(req) ?? null,
+                userAgent: req.headers.get("user-agent")?.slice(0, MAX_USER_AGENT_LENGTH) ?? null
+            }
+        });
+
+    } catch (error) {
+
+        console.error(`[${requestId}] Failed to record audit event ${entry.action}:`, error);
+
+    }
+
+};
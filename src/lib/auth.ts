@@ -1,19 +1,54 @@
-import { NextRequest, NextResponse } from "next/server";
+import User, { UserRole } from "@/models/User";
+import { ApiKeyScope } from "@/models/ApiKey";
+import { authenticateApiKey, isApiKey } from "./apiKeys";
+import { NextRequest } from "next/server";
+import { ApiError } from "./errors";
+import { isSessionActive } from "./session";
 import { verifyToken } from "./jwt";
 
-export const getCurrentUserId = (req: NextRequest): string | null => {
+export const API_KEY_HEADER = "x-api-key";
+
+export type AuthUser = {
+    id: string;
+    role: UserRole;
+    // Null for requests made with an API key, which have no session.
+    sessionId: string | null;
+    // Only set for requests made with an API key: its id and what it may do.
+    apiKey?: { id: string; scopes: ApiKeyScope[] };
+};
+
+/** An API key is sent in `X-API-Key` or as a Bearer token, which it tells apart from a JWT by its prefix. */
+const authenticate = async (req: NextRequest): Promise<AuthUser | null> => {
 
     const authHeader = req.headers.get("authorization");
 
-    if (!authHeader?.startsWith("Bearer ")) return null;
+    const bearer = authHeader?.startsWith("Bearer ") ? authHeader.split(" ")[1] : undefined;
+
+    const apiKey = req.headers.get(API_KEY_HEADER) ?? (bearer && isApiKey(bearer) ? bearer : null);
 
-    const token = authHeader.split(" ")[1];
+    if (apiKey) {
+
+        const owner = await authenticateApiKey(apiKey.trim());
+
+        return owner && { id: owner.id, role: owner.role, sessionId: null, apiKey: { id: owner.apiKeyId, scopes: owner.scopes } };
+
+    }
+
+    if (!bearer) return null;
 
     try {
 
-        const { id } = verifyToken(token);
+        const { id, sid } = verifyToken(bearer);
+
+        if (!sid) return null;
+
+        // The role in the token is only as fresh as its last refresh, so it is
+        // read from the user instead; a demotion then applies at once.
+        const [active, user] = await Promise.all([isSessionActive(sid, id), User.findById(id).select("role")]);
+
+        if (!active || !user) return null;
 
-        return id;
+        return { id, role: user.role, sessionId: sid };
 
     } catch {
 
@@ -23,13 +58,95 @@ export const getCurrentUserId = (req: NextRequest): string | null => {
 
 };
 
-export const unauthorized = () => NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+/**
+ * The caller, if any. API keys only count when the route accepts `scope` and
+ * the key has it; otherwise the caller is treated as anonymous.
+ */
+export const getCurrentUser = async (req: NextRequest, scope?: ApiKeyScope): Promise<AuthUser | null> => {
 
-export const forbidden = () => NextResponse.json(
-    { error: "You can only modify your own products" },
-    { status: 403 }
-);
+    const user = await authenticate(req);
+
+    if (user?.apiKey && !(scope && user.apiKey.scopes.includes(scope))) return null;
+
+    return user;
+
+};
+
+export const getCurrentUserId = async (req: NextRequest): Promise<string | null> => {
+
+    const user = await getCurrentUser(req);
+
+    return user?.id ?? null;
+
+};
+
+const requireUser = async (req: NextRequest, scope: ApiKeyScope | null, roles: UserRole[]): Promise<AuthUser> => {
+
+    const user = await authenticate(req);
+
+    if (!user) throw unauthorized();
+
+    if (user.apiKey && !scope) throw forbidden("API keys cannot be used for this endpoint, sign in instead");
+
+    if (user.apiKey && scope && !user.apiKey.scopes.includes(scope)) throw forbidden(`The API key does not have the ${scope} scope`);
+
+    if (roles.length > 0 && !roles.includes(user.role)) throw forbidden();
+
+    return user;
+
+};
+
+/**
+ * Route guard: resolves the caller and, when roles are given, requires one of
+ * them. Throws 401/403 otherwise, which `withErrorHandling` renders. Only
+ * signed-in users pass; API keys are turned away.
+ */
+export const authorize = async (req: NextRequest, ...roles: UserRole[]): Promise<AuthUser> => {
+
+    return requireUser(req, null, roles);
+
+};
+
+/** Like `authorize`, but also lets in API keys that have `scope`. */
+export const authorizeScope = async (req: NextRequest, scope: ApiKeyScope, ...roles: UserRole[]): Promise<AuthUser> => {
+
+    return requireUser(req, scope, roles);
+
+};
+
+/** Throws unless the user verified their email address, when `REQUIRE_VERIFIED_EMAIL` is enabled. */
+export const requireVerifiedEmail = async (user: AuthUser): Promise<void> => {
+
+    if (process.env.REQUIRE_VERIFIED_EMAIL !== "true") return;
+
+    const verified = await User.exists({ _id: user.id, emailVerified: true });
+
+    if (!verified) throw forbidden("Verify your email address first");
+
+};
+
+export const isOwnerOrAdmin = (user: AuthUser, ownerId: string): boolean => {
+
+    return user.role === "admin" || user.id === ownerId;
+
+};
+
+export const unauthorized = (message = "Unauthorized") => new ApiError(401, "UNAUTHORIZED", message);
+
+export const forbidden = (message = "You do not have permission to perform this action") => new ApiError(403, "FORBIDDEN", message);
 
 export const sanitizeId = (id: string): string => id.trim().replace(/[""]/g, "");
 
-export const isValidMongoId = (id: string): boolean => /^[0-9a-fA-F]{24}$/.test(id);
\ No newline at end of file
+export const isValidMongoId = (id: string): boolean => /^[0-9a-fA-F]{24}$/.test(id);
+
+
+/** Sanitizes a route `[id]` segment and throws a 400 unless it is a valid ObjectId. */
+export const parseMongoId = (rawId: string, resource = "resource"): string => {
+
+    const id = sanitizeId(rawId);
+
+    if (!isValidMongoId(id)) throw new ApiError(400, "INVALID_ID", `Invalid ${resource} ID format`);
+
+    return id;
+
+};
@@ -0,0 +1,175 @@
+import Cart, { ICart } from "@/models/Cart";
+import Product, { IProduct, PUBLISHED_FILTER } from "@/models/Product";
+import { BASE_CURRENCY, MoneyView, toMoneyView } from "./money";
+import { findVariant } from "./productVariants";
+import { badRequest, notFound } from "./errors";
+import { priceIn } from "./pricing";
+
+export type CartLineStatus = "available" | "unpublished" | "deleted";
+
+export type CartLine = {
+    productId: string;
+    variantId: string | null;
+    title: string | null;
+    sku: string | null;
+    size: string | null;
+    color: string | null;
+    unitPrice: MoneyView | null;
+    quantity: number;
+    lineTotal: MoneyView;
+    status: CartLineStatus;
+};
+
+export type CartView = {
+    items: CartLine[];
+    itemCount: number;
+    currency: string;
+    subtotal: MoneyView;
+};
+
+export const getOrCreateCart = async (userId: string): Promise<ICart> => {
+
+    return Cart.findOneAndUpdate(
+        { user: userId },
+        { $setOnInsert: { user: userId, items: [] } },
+        { upsert: true, new: true }
+    ) as Promise<ICart>;
+
+};
+
+/**
+ * Prices a cart in `currency` from the products as they are now, not as they
+ * were when the item was added. Lines whose product (or variant) was deleted
+ * or unpublished stay in the cart so the shopper sees what happened, but do
+ * not count towards the total.
+ */
+export const toCartView = async (cart: ICart, currency: string = BASE_CURRENCY): Promise<CartView> => {
+
+    const productIds = cart.items.map((item) => item.product);
+
+    const products = await Product.find({ _id: { $in: productIds } }).select("title sku price currency prices published variants");
+
+    const byId = new Map(products.map((product) => [product._id.toString(), product]));
+
+    const items = cart.items.map((item): CartLine => {
+
+        const product: IProduct | undefined = byId.get(item.product.toString());
+
+        const variant = product && item.variant ? findVariant(product, item.variant.toString()) : undefined;
+
+        const exists = product && (item.variant ? variant : product.variants.length === 0);
+
+        const status: CartLineStatus = !exists ? "deleted" : product.published ? "available" : "unpublished";
+
+        const unitPrice = product && exists ? priceIn(product, currency, variant).amount : null;
+
+        const lineTotal = status === "available" && unitPrice !== null ? unitPrice * item.quantity : 0;
+
+        return {
+            productId: item.product.toString(),
+            variantId: item.variant?.toString() ?? null,
+            title: product?.title ?? null,
+            sku: (variant ?? product)?.sku ?? null,
+            size: variant?.size ?? null,
+            color: variant?.color ?? null,
+            unitPrice: unitPrice !== null ? toMoneyView({ amount: unitPrice, currency }) : null,
+            quantity: item.quantity,
+            lineTotal: toMoneyView({ amount: lineTotal, currency }),
+            status
+        };
+
+    });
+
+    const available = items.filter((item) => item.status === "available");
+
+    return {
+        items,
+        itemCount: available.reduce((count, item) => count + item.quantity, 0),
+        currency,
+        subtotal: toMoneyView({ amount: available.reduce((sum, item) => sum + item.lineTotal.amount, 0), currency })
+    };
+
+};
+
+// `variant: null` also matches lines stored without a variant.
+const lineMatch = (productId: string, variantId?: string) => ({ product: productId, variant: variantId ?? null });
+
+export const addCartItem = async (userId: string, productId: string, quantity: number, variantId?: string): Promise<ICart> => {
+
+    const product = await Product.findOne({ _id: productId, ...PUBLISHED_FILTER }).select("variants");
+
+    if (!product) throw notFound("Product not found");
+
+    if (variantId && !findVariant(product, variantId)) throw notFound("Variant not found");
+
+    if (!variantId && product.variants.length > 0) throw badRequest("This product has variants, send the variantId to add");
+
+    await getOrCreateCart(userId);
+
+    const line = lineMatch(productId, variantId);
+
+    // Two steps so concurrent adds of the same product cannot create duplicate
+    // lines: bump an existing line, otherwise push only if it is still absent.
+    for (let attempt = 0; attempt < 2; attempt++) {
+
+        const incremented = await Cart.findOneAndUpdate(
+            { user: userId, items: { $elemMatch: line } },
+            { $inc: { "items.$.quantity": quantity } },
+            { new: true }
+        );
+
+        if (incremented) return incremented;
+
+        const pushed = await Cart.findOneAndUpdate(
+            { user: userId, items: { $not: { $elemMatch: line } } },
+            { $push: { items: { product: productId, variant: variantId, quantity } } },
+            { new: true }
+        );
+
+        if (pushed) return pushed;
+
+    }
+
+    throw new Error(`Could not add product ${productId} to cart of user ${userId}`);
+
+};
+
+export const setCartItemQuantity = async (userId: string, productId: string, quantity: number, variantId?: string): Promise<ICart> => {
+
+    const cart = await Cart.findOneAndUpdate(
+        { user: userId, items: { $elemMatch: lineMatch(productId, variantId) } },
+        { $set: { "items.$.quantity": quantity } },
+        { new: true }
+    );
+
+    if (!cart) throw notFound("Product is not in the cart");
+
+    return cart;
+
+};
+
+export const removeCartItem = async (userId: string, productId: string, variantId?: string): Promise<ICart> => {
+
+    const line = lineMatch(productId, variantId);
+
+    const cart = await Cart.findOneAndUpdate(
+        { user: userId, items: { $elemMatch: line } },
+        { $pull: { items: line } },
+        { new: true }
+    );
+
+    if (!cart) throw notFound("Product is not in the cart");
+
+    return cart;
+
+};
+
+export const clearCart = async (userId: string): Promise<ICart> => {
+
+    return Cart.findOneAndUpdate(
+        { user: userId },
+        { $set: { items: [] } },
+        { upsert: true, new: true }
+    ) as Promise<ICart>;
+
+};
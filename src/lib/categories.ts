@@ -0,0 +1,143 @@
+import Category, { ICategory } from "@/models/Category";
+import { badRequest, conflict, notFound } from "./errors";
+import { validationError } from "./validation";
+import { withTransaction } from "./mongoose";
+import Product from "@/models/Product";
+import mongoose from "mongoose";
+
+export type CategoryInput = {
+    name: string;
+    description?: string;
+    parent?: string;
+};
+
+export const slugify = (name: string): string => {
+
+    return name
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "") || "category";
+
+};
+
+const loadParent = async (parentId?: string): Promise<ICategory | null> => {
+
+    if (!parentId) return null;
+
+    const parent = await Category.findById(parentId);
+
+    if (!parent) throw validationError([{ field: "parent", message: "does not exist" }]);
+
+    return parent;
+
+};
+
+const pathBelow = (parent: ICategory | null): mongoose.Types.ObjectId[] => parent ? [...parent.ancestors, parent._id as mongoose.Types.ObjectId] : [];
+
+export const findCategory = async (categoryId: string): Promise<ICategory> => {
+
+    const category = await Category.findById(categoryId);
+
+    if (!category) throw notFound("Category not found");
+
+    return category;
+
+};
+
+export const createCategory = async (input: CategoryInput): Promise<ICategory> => {
+
+    const parent = await loadParent(input.parent);
+
+    return Category.create({
+        name: input.name,
+        slug: slugify(input.name),
+        description: input.description ?? "",
+        parent: parent?._id ?? null,
+        ancestors: pathBelow(parent)
+    });
+
+};
+
+/**
+ * Replaces a category's name, description and parent. Moving a category
+ * rewrites the ancestor path of its whole subtree in the same transaction,
+ * so subtree filters never see a half-moved branch.
+ */
+export const updateCategory = async (category: ICategory, input: CategoryInput): Promise<ICategory> => {
+
+    const parent = await loadParent(input.parent);
+
+    if (parent && (parent._id.equals(category._id) || parent.ancestors.some((id) => id.equals(category._id as mongoose.Types.ObjectId)))) {
+
+        throw badRequest("A category cannot be moved below itself or one of its subcategories");
+
+    }
+
+    const oldPath = [...category.ancestors, category._id as mongoose.Types.ObjectId];
+
+    const ancestors = pathBelow(parent);
+
+    const newPath = [...ancestors, category._id as mongoose.Types.ObjectId];
+
+    const moved = oldPath.length !== newPath.length || oldPath.some((id, index) => !id.equals(newPath[index]));
+
+    return withTransaction(async (session) => {
+
+        category.set({
+            name: input.name,
+            slug: slugify(input.name),
+            description: input.description ?? "",
+            parent: parent?._id ?? null,
+            ancestors
+        });
+
+        await category.save({ session });
+
+        const descendants = moved ? await Category.find({ ancestors: category._id }).select("ancestors").session(session) : [];
+
+        if (descendants.length > 0) {
+
+            await Category.bulkWrite(descendants.map((descendant) => ({
+                updateOne: {
+                    filter: { _id: descendant._id },
+                    update: { $set: { ancestors: [...newPath, ...descendant.ancestors.slice(oldPath.length)] } }
+                }
+            })), { session });
+
+        }
+
+        return category;
+
+    });
+
+};
+
+export const deleteCategory = async (category: ICategory): Promise<void> => {
+
+    if (await Category.exists({ parent: category._id })) throw conflict("Delete or move the subcategories first");
+
+    // Trashed products count too, or restoring one would bring back a dangling category.
+    if (await Product.exists({ categories: category._id }).setOptions({ withDeleted: true })) throw conflict("The category still has products, including ones in the trash");
+
+    await Category.deleteOne({ _id: category._id });
+
+};
+
+/** The category and all of its subcategories, for filtering products by a branch of the tree. */
+export const categoryWithDescendants = async (categoryId: string): Promise<mongoose.Types.ObjectId[]> => {
+
+    return Category.find({ $or: [{ _id: categoryId }, { ancestors: categoryId }] }).distinct("_id");
+
+};
+
+export const assertCategoriesExist = async (categoryIds: string[] | undefined): Promise<void> => {
+
+    if (!categoryIds || categoryIds.length === 0) return;
+
+    const found = await Category.countDocuments({ _id: { $in: categoryIds } });
+
+    if (found !== categoryIds.length) throw validationError([{ field: "categories", message: "contains a category that does not exist" }]);
+
+};
@@ -0,0 +1,82 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Splits CSV text (RFC 4180) into records of fields. Quoted fields may hold
+ * commas, line breaks and doubled quotes. Blank lines are skipped; returns
+ * null when a quoted field is never closed.
+ */
+export const parseCsv = (text: string): string[][] | null => {
+
+    const records: string[][] = [];
+
+    let record: string[] = [];
+
+    let field = "";
+
+    let quoted = false;
+
+    // Spreadsheet exports often start with a byte order mark.
+    const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+
+    const endRecord = () => {
+
+        record.push(field);
+
+        if (record.length > 1 || record[0] !== "") records.push(record);
+
+        record = [];
+
+        field = "";
+
+    };
+
+    for (let i = 0; i < input.length; i++) {
+
+        const char = input[i];
+
+        if (quoted) {
+
+            if (char !== "\"") field += char;
+
+            else if (input[i + 1] === "\"") field += input[++i];
+
+            else quoted = false;
+
+        } else if (char === "\"" && field === "") quoted = true;
+
+        else if (char === ",") {
+
+            record.push(field);
+
+            field = "";
+
+        } else if (char === "\n" || char === "\r") {
+
+            if (char === "\r" && input[i + 1] === "\n") i++;
+
+            endRecord();
+
+        } else field += char;
+
+    }
+
+    if (quoted) return null;
+
+    if (field !== "" || record.length > 0) endRecord();
+
+    return records;
+
+};
+
+/** Formats one CSV record, quoting only the fields that need it. */
+export const toCsvLine = (values: CsvValue[]): string => {
+
+    return values.map((value) => {
+
+        const text = value === null || value === undefined ? "" : String(value);
+
+        return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+
+    }).join(",");
+
+};
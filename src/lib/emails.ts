@@ -0,0 +1,41 @@
+import { issueUserToken } from "./userTokens";
+import { sendMail } from "./mailer";
+
+export const appUrl = (): string => (process.env.APP_URL || "http://localhost:3000").replace(/\/$/, "");
+
+export const sendVerificationEmail = async (user: { id: string; fullname: string; email: string }): Promise<void> => {
+
+    const token = await issueUserToken(user.id, "email_verification", user.email);
+
+    await sendMail({
+        to: user.email,
+        subject: "Verify your email address",
+        text: [
+            `Hi ${user.fullname},`,
+            "",
+            "Confirm your email address by opening the link below. It is valid for 24 hours.",
+            "",
+            `${appUrl()}/verify-email?token=${encodeURIComponent(token)}`,
+        ].join("\n")
+    });
+
+};
+
+export const sendPasswordResetEmail = async (user: { id: string; fullname: string; email: string }): Promise<void> => {
+
+    const token = await issueUserToken(user.id, "password_reset", user.email);
+
+    await sendMail({
+        to: user.email,
+        subject: "Reset your password",
+        text: [
+            `Hi ${user.fullname},`,
+            "",
+            "Someone asked to reset the password of your account. Open the link below within an hour to choose a new one.",
+            "If it was not you, ignore this email; your password stays unchanged.",
+            "",
+            `${appUrl()}/reset-password?token=${encodeURIComponent(token)}`,
+        ].join("\n")
+    });
+
+};
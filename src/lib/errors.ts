@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+import mongoose from "mongoose";
+
+export type ErrorCode =
+    | "BAD_REQUEST"
+    | "VALIDATION_ERROR"
+    | "INVALID_ID"
+    | "UNAUTHORIZED"
+    | "FORBIDDEN"
+    | "NOT_FOUND"
+    | "CONFLICT"
+    | "PRECONDITION_FAILED"
+    | "UNSUPPORTED_MEDIA_TYPE"
+    | "RATE_LIMITED"
+    | "BAD_GATEWAY"
+    | "INTERNAL_ERROR";
+
+/**
+ * An error meant for the client. Throw it from a route handler wrapped in
+ * `withErrorHandling` and it is rendered as the standard error envelope.
+ */
+export class ApiError extends Error {
+
+    constructor(
+        public readonly status: number,
+        public readonly code: ErrorCode,
+        message: string,
+        public readonly details?: unknown,
+        public readonly headers?: Record<string, string>
+    ) {
+
+        super(message);
+
+        this.name = "ApiError";
+
+    }
+
+};
+
+export const badRequest = (message: string, details?: unknown) => new ApiError(400, "BAD_REQUEST", message, details);
+
+export const notFound = (message = "Resource not found") => new ApiError(404, "NOT_FOUND", message);
+
+export const conflict = (message: string, details?: unknown) => new ApiError(409, "CONFLICT", message, details);
+
+export const preconditionFailed = (message: string) => new ApiError(412, "PRECONDITION_FAILED", message);
+
+export const unsupportedMediaType = (message: string) => new ApiError(415, "UNSUPPORTED_MEDIA_TYPE", message);
+
+export const tooManyRequests = (retryAfterSeconds: number, message = "Too many requests, try again later") => new ApiError(
+    429,
+    "RATE_LIMITED",
+    message,
+    { retryAfter: retryAfterSeconds },
+    { "Retry-After": String(retryAfterSeconds) }
+);
+
+/** An upstream service, like an identity provider, failed or answered with something unusable. */
+export const badGateway = (message: string) => new ApiError(502, "BAD_GATEWAY", message);
+
+const REQUEST_ID_HEADER = "x-request-id";
+
+const getRequestId = (req: Request): string => {
+
+    const incoming = req.headers.get(REQUEST_ID_HEADER);
+
+    return incoming && /^[\w.-]{1,128}$/.test(incoming) ? incoming : crypto.randomUUID();
+
+};
+
+const requestIds = new WeakMap<Request, string>();
+
+/** The id `withErrorHandling` assigned to this request, as echoed in the `x-request-id` header. */
+export const requestIdOf = (req: Request): string => {
+
+    let requestId = requestIds.get(req);
+
+    if (!requestId) {
+
+        requestId = getRequestId(req);
+
+        requestIds.set(req, requestId);
+
+    }
+
+    return requestId;
+
+};
+
+export const isDuplicateKeyError = (error: unknown): error is { code: number; keyValue?: Record<string, unknown> } => {
+
+    return typeof error === "object" && error !== null && (error as { code?: unknown }).code === 11000;
+
+};
+
+/** Maps known error types to an `ApiError`; anything else is an unexpected server error. */
+export const toApiError = (error: unknown): ApiError | null => {
+
+    if (error instanceof ApiError) return error;
+
+    if (error instanceof mongoose.Error.ValidationError) {
+
+        const details = Object.values(error.errors).map(({ path, message }) => ({ field: path, message }));
+
+        return new ApiError(400, "VALIDATION_ERROR", "Validation failed", details);
+
+    }
+
+    if (error instanceof mongoose.Error.CastError) {
+
+        return new ApiError(400, "INVALID_ID", `Invalid value for ${error.path}`, [{ field: error.path, message: "has an invalid format" }]);
+
+    }
+
+    if (isDuplicateKeyError(error)) {
+
+        const fields = Object.keys(error.keyValue ?? {});
+
+        return conflict("A resource with the same unique value already exists", fields.map((field) => ({ field, message: "is already taken" })));
+
+    }
+
+    if (error instanceof SyntaxError) return badRequest("Request body must be valid JSON");
+
+    return null;
+
+};
+
+export const errorResponse = (error: ApiError, requestId: string) => NextResponse.json(
+    {
+        error: {
+            code: error.code,
+            message: error.message,
+            details: error.details ?? null,
+            requestId
+        }
+    },
+    { status: error.status, headers: { ...error.headers, [REQUEST_ID_HEADER]: requestId } }
+);
+
+/**
+ * Wraps a route handler so thrown errors become the standard error envelope
+ * `{ error: { code, message, details, requestId } }`. Unexpected errors are
+ * logged with the request id and reported to the client as a bare 500.
+ */
+export const withErrorHandling = <C>(handler: (req: NextRequest, context: C) => Promise<Response>) => {
+
+    return async (req: NextRequest, context: C): Promise<Response> => {
+
+        const requestId = requestIdOf(req);
+
+        try {
+
+            const response = await handler(req, context);
+
+            response.headers.set(REQUEST_ID_HEADER, requestId);
+
+            return response;
+
+        } catch (error) {
+
+            const apiError = toApiError(error);
+
+            if (apiError) return errorResponse(apiError, requestId);
+
+            console.error(`[${requestId}] ${req.method} ${req.nextUrl.pathname} failed:`, error);
+
+            return errorResponse(new ApiError(500, "INTERNAL_ERROR", "Internal server error"), requestId);
+
+        }
+
+    };
+
+};
@@ -0,0 +1,106 @@
+import Product, { IProduct } from "@/models/Product";
+import { WebhookEvent } from "@/models/Webhook";
+import User, { IUser } from "@/models/User";
+import { dispatchWebhooks } from "./webhooks";
+import { requestIdOf } from "./errors";
+import { NextRequest } from "next/server";
+import crypto from "crypto";
+
+export type EventType = WebhookEvent;
+
+export type AppEvent = {
+    id: string;
+    type: EventType;
+    // The user the event is about: the product's author or the account itself.
+    userId: string;
+    createdAt: Date;
+    data: Record<string, unknown>;
+};
+
+type EventHandler = (event: AppEvent) => Promise<void>;
+
+/** Everything that reacts to events, called in order for each one. */
+const handlers: EventHandler[] = [
+    dispatchWebhooks
+];
+
+/**
+ * Publishes an event after a change has been saved. Like audit records, a
+ * failing handler is logged and never fails the request that made the change.
+ */
+export const publishEvent = async (req: NextRequest, type: EventType, userId: string, data: Record<string, unknown>): Promise<void> => {
+
+    const event: AppEvent = { id: crypto.randomUUID(), type, userId, createdAt: new Date(), data };
+
+    for (const handler of handlers) {
+
+        try {
+
+            await handler(event);
+
+        } catch (error) {
+
+            console.error(`[${requestIdOf(req)}] Handling event ${type} failed:`, error);
+
+        }
+
+    }
+
+};
+
+/**
+ * Publishes a product event with the product as the API returns it. Pass an
+ * id instead of the document to send its current state after changes made
+ * through variants, images or stock.
+ */
+export const publishProductEvent = async (req: NextRequest, type: EventType, product: IProduct | string): Promise<void> => {
+
+    let current: IProduct | null = null;
+
+    try {
+
+        current = typeof product === "string" ? await Product.findById(product).setOptions({ withDeleted: true }) : product;
+
+    } catch (error) {
+
+        console.error(`[${requestIdOf(req)}] Loading product ${product} for event ${type} failed:`, error);
+
+    }
+
+    if (!current) return;
+
+    await publishEvent(req, type, current.author.toString(), { product: current.toJSON() });
+
+};
+
+/**
+ * Publishes an account event with the account's profile; credentials are
+ * never part of it. Pass an id to send the account as it is now.
+ */
+export const publishAccountEvent = async (req: NextRequest, type: EventType, account: IUser | string): Promise<void> => {
+
+    let user: IUser | null = null;
+
+    try {
+
+        user = typeof account === "string" ? await User.findById(account) : account;
+
+    } catch (error) {
+
+        console.error(`[${requestIdOf(req)}] Loading user ${account} for event ${type} failed:`, error);
+
+    }
+
+    if (!user) return;
+
+    await publishEvent(req, type, user._id.toString(), {
+        user: {
+            _id: user._id.toString(),
+            fullname: user.fullname,
+            email: user.email,
+            role: user.role,
+            emailVerified: user.emailVerified
+        }
+    });
+
+};
@@ -0,0 +1,141 @@
+import Order, { IOrder } from "@/models/Order";
+import Product, { IProduct, PUBLISHED_FILTER } from "@/models/Product";
+import { conflict } from "./errors";
+
+const RESERVATION_TTL_MINUTES = Number(process.env.ORDER_RESERVATION_MINUTES) || 30;
+
+export type StockLine = {
+    product: { toString(): string };
+    variant?: { toString(): string } | null;
+    quantity: number;
+};
+
+const lineKey = (line: StockLine): string => line.variant ? `${line.product}.${line.variant}` : line.product.toString();
+
+export const reservationExpiry = (): Date => new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000);
+
+/**
+ * Takes the quantities out of stock, all or nothing. Each decrement is a single
+ * conditional update, so concurrent checkouts can never push stock below zero;
+ * if any line cannot be covered, the lines already taken are put back.
+ */
+export const reserveStock = async (lines: StockLine[]): Promise<void> => {
+
+    const reserved: StockLine[] = [];
+
+    for (const line of lines) {
+
+        const result = line.variant
+            ? await Product.updateOne(
+                { _id: line.product, ...PUBLISHED_FILTER, variants: { $elemMatch: { _id: line.variant, stock: { $gte: line.quantity } } } },
+                { $inc: { "variants.$.stock": -line.quantity } }
+            )
+            : await Product.updateOne(
+                { _id: line.product, ...PUBLISHED_FILTER, stock: { $gte: line.quantity } },
+                { $inc: { stock: -line.quantity } }
+            );
+
+        if (result.modifiedCount !== 1) {
+
+            await releaseStock(reserved);
+
+            throw conflict("Insufficient stock", [
+                { field: `items.${lineKey(line)}`, message: "is out of stock or has fewer items left than requested" }
+            ]);
+
+        }
+
+        reserved.push(line);
+
+    }
+
+};
+
+export const releaseStock = async (lines: StockLine[]): Promise<void> => {
+
+    if (lines.length === 0) return;
+
+    // A variant deleted in the meantime simply does not get its stock back.
+    await Product.bulkWrite(lines.map((line) => ({
+        updateOne: line.variant
+            ? { filter: { _id: line.product, "variants._id": line.variant }, update: { $inc: { "variants.$.stock": line.quantity } } }
+            : { filter: { _id: line.product }, update: { $inc: { stock: line.quantity } } }
+    })));
+
+};
+
+/**
+ * Cancels pending orders whose reservation ran out and returns their stock.
+ * Each order is flipped with a conditional update first, so an order that is
+ * being paid at the same moment is either paid or released, never both.
+ */
+export const releaseExpiredReservations = async (): Promise<number> => {
+
+    const now = new Date();
+
+    const expired = await Order.find({ status: "pending", reservationExpiresAt: { $lte: now } }).select("_id");
+
+    let released = 0;
+
+    for (const { _id } of expired) {
+
+        const order: IOrder | null = await Order.findOneAndUpdate(
+            { _id, status: "pending", reservationExpiresAt: { $lte: now } },
+            {
+                $set: { status: "cancelled" },
+                $unset: { reservationExpiresAt: 1 },
+                $push: { statusHistory: { status: "cancelled", changedAt: now, note: "Stock reservation expired" } }
+            },
+            { new: true }
+        );
+
+        if (!order) continue;
+
+        await releaseStock(order.items);
+
+        released++;
+
+    }
+
+    return released;
+
+};
+
+export const adjustStock = async (productId: string, change: { delta?: number; quantity?: number }, variantId?: string): Promise<number | null> => {
+
+    const field = variantId ? "variants.$.stock" : "stock";
+
+    const stockOf = (product: IProduct | null): number | null => {
+
+        if (!product) return null;
+
+        return variantId ? product.variants.find((variant) => variant._id.toString() === variantId)?.stock ?? null : product.stock;
+
+    };
+
+    if (change.quantity !== undefined) {
+
+        const product = await Product.findOneAndUpdate(
+            { _id: productId, ...(variantId && { "variants._id": variantId }) },
+            { $set: { [field]: change.quantity } },
+            { new: true }
+        );
+
+        return stockOf(product);
+
+    }
+
+    const delta = change.delta ?? 0;
+
+    // A negative delta only applies if enough stock is left to cover it.
+    const enough = delta < 0 ? { stock: { $gte: -delta } } : {};
+
+    const product = await Product.findOneAndUpdate(
+        variantId ? { _id: productId, variants: { $elemMatch: { _id: variantId, ...enough } } } : { _id: productId, ...enough },
+        { $inc: { [field]: delta } },
+        { new: true }
+    );
+
+    return stockOf(product);
+
+};
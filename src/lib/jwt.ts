@@ -1,15 +1,24 @@
 import jwt from "jsonwebtoken";
+import type { UserRole } from "@/models/User";
 
 const JWT_SECRET = process.env.JWT_SECRET as string;
 
-export const signToken = (id: string): string => {
+const ACCESS_TOKEN_TTL = "15m";
 
-    return jwt.sign({ id }, JWT_SECRET, { expiresIn: "7d" });
+export type AccessTokenPayload = {
+    id: string;
+    sid: string;
+    role: UserRole;
+};
+
+export const signToken = (id: string, sessionId: string, role: UserRole): string => {
+
+    return jwt.sign({ id, sid: sessionId, role }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
 
 };
 
-export const verifyToken = (token: string): { id: string } => {
+export const verifyToken = (token: string): AccessTokenPayload => {
 
-    return jwt.verify(token, JWT_SECRET) as { id: string };
+    return jwt.verify(token, JWT_SECRET) as AccessTokenPayload;
 
-};
\ No newline at end of file
+};
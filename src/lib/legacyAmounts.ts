@@ -0,0 +1,84 @@
+import Product from "@/models/Product";
+import Order from "@/models/Order";
+import { BASE_CURRENCY, minorUnitDigits } from "./money";
+
+export type LegacyAmountsReport = {
+    productsConverted: number;
+    ordersConverted: number;
+};
+
+const toMinorUnits = (amount: number, currency: string): number => Math.round(amount * 10 ** minorUnitDigits(currency));
+
+/**
+ * One-off conversion of data written before amounts became integer minor
+ * units: product and variant prices, and the amounts of orders. Products are
+ * recognized by the missing `amountsInMinorUnits` flag and orders by their
+ * missing `currency`; both are set by the conversion, so running it again
+ * changes nothing. Orders from back then were all in the base currency.
+ * With `dryRun` it only counts what it would convert.
+ */
+export const convertLegacyAmounts = async ({ dryRun = false } = {}): Promise<LegacyAmountsReport> => {
+
+    const report: LegacyAmountsReport = { productsConverted: 0, ordersConverted: 0 };
+
+    const products = Product.find({ amountsInMinorUnits: { $exists: false } })
+        .setOptions({ withDeleted: true })
+        .select("price currency variants._id variants.price")
+        .lean()
+        .cursor();
+
+    for await (const product of products) {
+
+        report.productsConverted++;
+
+        if (dryRun) continue;
+
+        const currency = product.currency ?? BASE_CURRENCY;
+
+        const set: Record<string, unknown> = { price: toMinorUnits(product.price, currency), amountsInMinorUnits: true };
+
+        const arrayFilters: Record<string, unknown>[] = [];
+
+        // Variants are addressed by id, so a variant added or removed meanwhile cannot shift the others.
+        product.variants?.forEach((variant, index) => {
+
+            if (typeof variant.price !== "number") return;
+
+            set[`variants.$[v${index}].price`] = toMinorUnits(variant.price, currency);
+
+            arrayFilters.push({ [`v${index}._id`]: variant._id });
+
+        });
+
+        await Product.updateOne({ _id: product._id, amountsInMinorUnits: { $exists: false } }, { $set: set }, { arrayFilters })
+            .setOptions({ withDeleted: true });
+
+    }
+
+    const orders = Order.find({ currency: { $exists: false } }).select("items.unitPrice items.lineTotal subtotal").lean().cursor();
+
+    for await (const order of orders) {
+
+        report.ordersConverted++;
+
+        if (dryRun) continue;
+
+        const set: Record<string, unknown> = { subtotal: toMinorUnits(order.subtotal, BASE_CURRENCY), currency: BASE_CURRENCY };
+
+        // Order items never change, so their positions are stable.
+        order.items.forEach((item, index) => {
+
+            set[`items.${index}.unitPrice`] = toMinorUnits(item.unitPrice, BASE_CURRENCY);
+
+            set[`items.${index}.lineTotal`] = toMinorUnits(item.lineTotal, BASE_CURRENCY);
+
+        });
+
+        // The amounts of an order are immutable for everything but this repair.
+        await Order.updateOne({ _id: order._id, currency: { $exists: false } }, { $set: set }, { overwriteImmutable: true });
+
+    }
+
+    return report;
+
+};
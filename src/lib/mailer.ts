@@ -0,0 +1,70 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+export type MailMessage = {
+    to: string;
+    subject: string;
+    text: string;
+};
+
+/**
+ * Delivers mail. Plug a real provider in with `setMailTransport`, or pick a
+ * built-in one with `MAIL_TRANSPORT` (`console` or `file`).
+ */
+export interface MailTransport {
+    send(message: MailMessage & { from: string }): Promise<void>;
+};
+
+/** Prints mail to the server log, for local development. Links with live tokens end up in the log, so it is never picked implicitly in production. */
+export class ConsoleTransport implements MailTransport {
+
+    async send(message: MailMessage & { from: string }): Promise<void> {
+
+        console.log(`📧 Mail from ${message.from} to ${message.to}: ${message.subject}\n${message.text}`);
+
+    }
+
+};
+
+/** Writes each mail as a JSON file into a directory, for local inspection and tests. */
+export class FileTransport implements MailTransport {
+
+    constructor(private readonly directory: string) {}
+
+    async send(message: MailMessage & { from: string }): Promise<void> {
+
+        await mkdir(this.directory, { recursive: true });
+
+        const filename = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^\w.@-]/g, "_")}.json`;
+
+        await writeFile(path.join(this.directory, filename), JSON.stringify(message, null, 2));
+
+    }
+
+};
+
+const createTransportFromEnv = (): MailTransport | null => {
+
+    if (process.env.MAIL_TRANSPORT === "file") return new FileTransport(process.env.MAIL_FILE_DIR || ".mail");
+
+    if (process.env.MAIL_TRANSPORT === "console" || process.env.NODE_ENV !== "production") return new ConsoleTransport();
+
+    return null;
+
+};
+
+let transport: MailTransport | null = createTransportFromEnv();
+
+export const setMailTransport = (next: MailTransport): void => {
+
+    transport = next;
+
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+
+    if (!transport) throw new Error("No mail transport configured: set MAIL_TRANSPORT or call setMailTransport");
+
+    await transport.send({ from: process.env.MAIL_FROM || "XYFORA <no-reply@xyfora.se>", ...message });
+
+};
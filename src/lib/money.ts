@@ -0,0 +1,102 @@
+/**
+ * Amounts are integers in the currency's minor unit (öre, cents, ...), so
+ * totals add up exactly; only conversion between currencies rounds.
+ */
+export type Money = {
+    amount: number;
+    currency: string;
+};
+
+/** How money appears in API responses: the exact amount plus a display string. */
+export type MoneyView = Money & {
+    formatted: string;
+};
+
+export const BASE_CURRENCY = (process.env.BASE_CURRENCY || "SEK").toUpperCase();
+
+const MONEY_LOCALE = process.env.MONEY_LOCALE || "sv-SE";
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Units of each currency per one unit of the base currency, from
+ * `EXCHANGE_RATES`, e.g. `{"EUR":0.087,"USD":0.094}`. Rates are configured
+ * locally rather than fetched, so prices only move when the operator says so.
+ */
+const loadRates = (): Record<string, number> => {
+
+    const raw = process.env.EXCHANGE_RATES;
+
+    const rates: Record<string, number> = { [BASE_CURRENCY]: 1 };
+
+    if (!raw) return rates;
+
+    const parsed: unknown = JSON.parse(raw);
+
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) throw new Error("EXCHANGE_RATES must be a JSON object");
+
+    for (const [currency, rate] of Object.entries(parsed)) {
+
+        if (!CURRENCY_PATTERN.test(currency) || typeof rate !== "number" || !(rate > 0)) {
+
+            throw new Error(`EXCHANGE_RATES has an invalid entry for ${currency}`);
+
+        }
+
+        rates[currency] = rate;
+
+    }
+
+    return rates;
+
+};
+
+const RATES = loadRates();
+
+export const SUPPORTED_CURRENCIES = Object.keys(RATES);
+
+export const isSupportedCurrency = (currency: string): boolean => currency in RATES;
+
+/** Number of minor unit digits, e.g. 2 for SEK and 0 for JPY. */
+export const minorUnitDigits = (currency: string): number => {
+
+    return new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2;
+
+};
+
+/** Reads a `currency` query parameter; null if it is not a configured currency. */
+export const parseCurrency = (raw: string | null): string | null => {
+
+    if (raw === null || raw === "") return BASE_CURRENCY;
+
+    const currency = raw.toUpperCase();
+
+    return isSupportedCurrency(currency) ? currency : null;
+
+};
+
+export const convert = (money: Money, currency: string): Money => {
+
+    if (money.currency === currency) return money;
+
+    const from = RATES[money.currency];
+
+    const to = RATES[currency];
+
+    if (!from || !to) throw new Error(`No exchange rate from ${money.currency} to ${currency}`);
+
+    const major = money.amount / 10 ** minorUnitDigits(money.currency);
+
+    return { amount: Math.round(major / from * to * 10 ** minorUnitDigits(currency)), currency };
+
+};
+
+export const formatMoney = (money: Money): string => {
+
+    const digits = minorUnitDigits(money.currency);
+
+    return new Intl.NumberFormat(MONEY_LOCALE, { style: "currency", currency: money.currency }).format(money.amount / 10 ** digits);
+
+};
+
+export const toMoneyView = (money: Money): MoneyView => ({ ...money, formatted: formatMoney(money) });
@@ -1,4 +1,4 @@
-import mongoose from "mongoose";
+import mongoose, { ClientSession } from "mongoose";
 
 export const connectDB = async (): Promise<void> => {
 
@@ -16,4 +16,20 @@ export const connectDB = async (): Promise<void> => {
 
     }
 
-};
\ No newline at end of file
+};
+/**
+ * Runs `fn` in a transaction that is retried on transient errors and committed
+ * when it resolves. Transactions need MongoDB to run as a replica set.
+ */
+export const withTransaction = <T>(fn: (session: ClientSession) => Promise<T>): Promise<T> => {
+
+    return mongoose.connection.transaction(fn);
+
+};
+
+/** Joins the caller's transaction when it passes a session, otherwise runs `fn` in a transaction of its own. */
+export const inTransaction = <T>(session: ClientSession | undefined, fn: (session: ClientSession) => Promise<T>): Promise<T> => {
+
+    return session ? fn(session) : withTransaction(fn);
+
+};
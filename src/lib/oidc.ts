@@ -0,0 +1,383 @@
+import OidcAuthRequest from "@/models/OidcAuthRequest";
+import UserIdentity from "@/models/UserIdentity";
+import User, { IUser } from "@/models/User";
+import { badGateway, badRequest, isDuplicateKeyError, notFound } from "./errors";
+import { generateSecret, hashSecret } from "./secrets";
+import { forbidden, unauthorized } from "./auth";
+import { revokeUserSessions } from "./session";
+import { revokeUserApiKeys } from "./apiKeys";
+import { disableTwoFactor } from "./twoFactor";
+import { hashPassword } from "./bcrypt";
+import { appUrl } from "./emails";
+import jwt from "jsonwebtoken";
+import crypto from "crypto";
+
+export type OidcProvider = {
+    id: string;
+    name: string;
+    issuer: string;
+    clientId: string;
+    clientSecret?: string;
+    scope: string;
+    redirectUri: string;
+};
+
+type ProviderMetadata = {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+};
+
+type IdTokenClaims = jwt.JwtPayload & {
+    sub: string;
+    nonce?: string;
+    azp?: string;
+    email?: string;
+    email_verified?: boolean;
+    name?: string;
+};
+
+export type OidcLogin = {
+    user: IUser;
+    // The account was created by this sign-in.
+    created: boolean;
+    // The provider account was linked to the user by this sign-in.
+    linked: boolean;
+};
+
+const AUTH_REQUEST_TTL_MS = 10 * 60 * 1000;
+
+const METADATA_TTL_MS = 60 * 60 * 1000;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ["RS256", "RS384", "RS512", "PS256", "ES256", "ES384"];
+
+const PROVIDER_ID_PATTERN = /^[a-z0-9-]{1,32}$/;
+
+/**
+ * Providers come from `OIDC_PROVIDERS`, a JSON object keyed by provider id,
+ * e.g. `{"google":{"name":"Google","issuer":"https://accounts.google.com","clientId":"...","clientSecret":"..."}}`.
+ * `scope` defaults to `openid email profile` and `redirectUri` to the app's
+ * `/auth/oidc/<id>/callback` page, which must be registered at the provider.
+ */
+const loadProviders = (): Map<string, OidcProvider> => {
+
+    const raw = process.env.OIDC_PROVIDERS;
+
+    const providers = new Map<string, OidcProvider>();
+
+    if (!raw) return providers;
+
+    const parsed: unknown = JSON.parse(raw);
+
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) throw new Error("OIDC_PROVIDERS must be a JSON object");
+
+    for (const [id, config] of Object.entries(parsed as Record<string, Record<string, unknown>>)) {
+
+        const { name, issuer, clientId, clientSecret, scope, redirectUri } = config ?? {};
+
+        if (!PROVIDER_ID_PATTERN.test(id) || typeof issuer !== "string" || typeof clientId !== "string") {
+
+            throw new Error(`OIDC_PROVIDERS has an invalid entry for ${id}`);
+
+        }
+
+        providers.set(id, {
+            id,
+            name: typeof name === "string" ? name : id,
+            issuer,
+            clientId,
+            clientSecret: typeof clientSecret === "string" ? clientSecret : undefined,
+            scope: typeof scope === "string" ? scope : "openid email profile",
+            redirectUri: typeof redirectUri === "string" ? redirectUri : `${appUrl()}/auth/oidc/${id}/callback`
+        });
+
+    }
+
+    return providers;
+
+};
+
+const PROVIDERS = loadProviders();
+
+export const listProviders = (): { id: string; name: string }[] => [...PROVIDERS.values()].map(({ id, name }) => ({ id, name }));
+
+export const getProvider = (id: string): OidcProvider => {
+
+    const provider = PROVIDERS.get(id);
+
+    if (!provider) throw notFound("Sign-in provider not found");
+
+    return provider;
+
+};
+
+/** Fetches JSON from the provider; anything but a 2xx JSON answer becomes a 502. */
+const fetchJson = async (url: string, init?: RequestInit): Promise<{ status: number; body: Record<string, unknown> }> => {
+
+    try {
+
+        const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+
+        const body = await response.json().catch(() => null);
+
+        if (typeof body !== "object" || body === null) throw new Error(`${response.status} without a JSON body`);
+
+        return { status: response.status, body };
+
+    } catch (error) {
+
+        console.error(`Request to identity provider ${url} failed:`, error);
+
+        throw badGateway("The sign-in provider could not be reached");
+
+    }
+
+};
+
+const metadataCache = new Map<string, { metadata: ProviderMetadata; expiresAt: number }>();
+
+/** The provider's discovery document, cached for an hour. */
+const discover = async (provider: OidcProvider): Promise<ProviderMetadata> => {
+
+    const cached = metadataCache.get(provider.id);
+
+    if (cached && cached.expiresAt > Date.now()) return cached.metadata;
+
+    const { status, body } = await fetchJson(`${provider.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`);
+
+    const metadata = body as Partial<ProviderMetadata>;
+
+    // The issuer must match exactly, or ID tokens could be accepted from someone else.
+    if (status !== 200 || metadata.issuer !== provider.issuer || !metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+
+        console.error(`Identity provider ${provider.id} returned unusable discovery metadata:`, body);
+
+        throw badGateway("The sign-in provider is misconfigured");
+
+    }
+
+    metadataCache.set(provider.id, { metadata: metadata as ProviderMetadata, expiresAt: Date.now() + METADATA_TTL_MS });
+
+    return metadata as ProviderMetadata;
+
+};
+
+const jwksCache = new Map<string, crypto.JsonWebKey[]>();
+
+/** Finds the key an ID token was signed with, fetching the key set again once when the provider rotated keys. */
+const findSigningKey = async (jwksUri: string, kid: string | undefined): Promise<crypto.KeyObject> => {
+
+    const match = (keys: crypto.JsonWebKey[]) => keys.find((key) => key.use !== "enc" && (kid === undefined || key.kid === kid));
+
+    let key = match(jwksCache.get(jwksUri) ?? []);
+
+    if (!key) {
+
+        const { status, body } = await fetchJson(jwksUri);
+
+        if (status !== 200 || !Array.isArray(body.keys)) throw badGateway("The sign-in provider returned no signing keys");
+
+        jwksCache.set(jwksUri, body.keys);
+
+        key = match(body.keys);
+
+    }
+
+    if (!key) throw unauthorized("The ID token was signed with an unknown key");
+
+    return crypto.createPublicKey({ key, format: "jwk" });
+
+};
+
+/** Checks the ID token's signature, issuer, audience, lifetime and nonce. */
+const verifyIdToken = async (idToken: string, provider: OidcProvider, metadata: ProviderMetadata, nonce: string): Promise<IdTokenClaims> => {
+
+    const decoded = jwt.decode(idToken, { complete: true });
+
+    if (!decoded || typeof decoded.payload === "string") throw unauthorized("Invalid ID token");
+
+    const algorithm = decoded.header.alg as jwt.Algorithm;
+
+    if (!ID_TOKEN_ALGORITHMS.includes(algorithm)) throw unauthorized("The ID token uses an unsupported signature algorithm");
+
+    const key = await findSigningKey(metadata.jwks_uri, decoded.header.kid);
+
+    let claims: IdTokenClaims;
+
+    try {
+
+        claims = jwt.verify(idToken, key, {
+            algorithms: [algorithm],
+            issuer: provider.issuer,
+            audience: provider.clientId,
+            clockTolerance: 60
+        }) as IdTokenClaims;
+
+    } catch {
+
+        throw unauthorized("Invalid ID token");
+
+    }
+
+    if (typeof claims.sub !== "string" || claims.sub === "") throw unauthorized("Invalid ID token");
+
+    if (claims.nonce !== nonce) throw unauthorized("The ID token does not belong to this sign-in");
+
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== provider.clientId) throw unauthorized("Invalid ID token");
+
+    return claims;
+
+};
+
+/**
+ * Starts a sign-in with the authorization code flow. The state, nonce and PKCE
+ * verifier are remembered for ten minutes; the returned URL is where the user
+ * is sent to sign in at the provider.
+ */
+export const startOidcLogin = async (provider: OidcProvider): Promise<{ authorizationUrl: string; expiresAt: Date }> => {
+
+    const metadata = await discover(provider);
+
+    const state = generateSecret(32);
+
+    const nonce = generateSecret(32);
+
+    const codeVerifier = generateSecret(48);
+
+    const expiresAt = new Date(Date.now() + AUTH_REQUEST_TTL_MS);
+
+    await OidcAuthRequest.create({ provider: provider.id, stateHash: hashSecret(state), nonce, codeVerifier, expiresAt });
+
+    const url = new URL(metadata.authorization_endpoint);
+
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("client_id", provider.clientId);
+    url.searchParams.set("redirect_uri", provider.redirectUri);
+    url.searchParams.set("scope", provider.scope);
+    url.searchParams.set("state", state);
+    url.searchParams.set("nonce", nonce);
+    url.searchParams.set("code_challenge", crypto.createHash("sha256").update(codeVerifier).digest("base64url"));
+    url.searchParams.set("code_challenge_method", "S256");
+
+    return { authorizationUrl: url.toString(), expiresAt };
+
+};
+
+/** Exchanges the code the provider redirected back with for verified ID token claims. The state is used up either way. */
+const exchangeCode = async (provider: OidcProvider, code: string, state: string): Promise<IdTokenClaims> => {
+
+    const request = await OidcAuthRequest.findOneAndDelete({ stateHash: hashSecret(state), provider: provider.id, expiresAt: { $gt: new Date() } });
+
+    if (!request) throw badRequest("Invalid or expired sign-in state, start the sign-in again");
+
+    const metadata = await discover(provider);
+
+    const { status, body } = await fetchJson(metadata.token_endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+        body: new URLSearchParams({
+            grant_type: "authorization_code",
+            code,
+            redirect_uri: provider.redirectUri,
+            client_id: provider.clientId,
+            code_verifier: request.codeVerifier,
+            ...(provider.clientSecret ? { client_secret: provider.clientSecret } : {})
+        })
+    });
+
+    // Expired, reused or tampered codes come back as a 400 `invalid_grant`.
+    if (status >= 400 && status < 500) throw unauthorized("The sign-in provider rejected the authorization code");
+
+    if (status !== 200 || typeof body.id_token !== "string") throw badGateway("The sign-in provider returned no ID token");
+
+    return verifyIdToken(body.id_token, provider, metadata, request.nonce);
+
+};
+
+/**
+ * Links a provider account to a user: the user it was linked to before, else
+ * the user with the same email address, else a new customer account. Only
+ * addresses the provider verified are trusted. Linking to an account whose
+ * address was never verified also signs out its sessions, revokes its API
+ * keys, removes its two-factor enrollment and replaces its password, so
+ * whoever registered the address beforehand loses access.
+ */
+const resolveUser = async (provider: OidcProvider, claims: IdTokenClaims): Promise<OidcLogin> => {
+
+    const identity = await UserIdentity.findOne({ provider: provider.id, subject: claims.sub });
+
+    if (identity) {
+
+        const user = await User.findById(identity.user);
+
+        if (!user) throw unauthorized("The account linked to this sign-in no longer exists");
+
+        identity.lastLoginAt = new Date();
+
+        await identity.save();
+
+        return { user, created: false, linked: false };
+
+    }
+
+    const email = claims.email?.trim();
+
+    if (!email || claims.email_verified !== true) throw forbidden("The sign-in provider has not verified your email address");
+
+    let user = await User.findOne({ email });
+
+    const created = !user;
+
+    if (!user) {
+
+        // Nobody knows this password; the user can set one through the password reset flow.
+        user = await User.create({
+            fullname: claims.name?.trim() || email,
+            email,
+            password: await hashPassword(generateSecret()),
+            emailVerified: true
+        });
+
+    } else if (!user.emailVerified) {
+
+        user.emailVerified = true;
+
+        user.password = await hashPassword(generateSecret());
+
+        await user.save();
+
+        await revokeUserSessions(user._id.toString(), "identity_link");
+
+        await revokeUserApiKeys(user._id.toString());
+
+        // Otherwise the next step would ask for a code from the previous registrant's authenticator.
+        await disableTwoFactor(user._id.toString());
+
+    }
+
+    try {
+
+        await UserIdentity.create({ user: user._id, provider: provider.id, subject: claims.sub, email, lastLoginAt: new Date() });
+
+    } catch (error) {
+
+        // A concurrent sign-in with the same provider account linked it first.
+        if (!isDuplicateKeyError(error)) throw error;
+
+    }
+
+    return { user, created, linked: true };
+
+};
+
+/** Finishes a sign-in started with `startOidcLogin` and returns the user to issue tokens for. */
+export const completeOidcLogin = async (provider: OidcProvider, code: string, state: string): Promise<OidcLogin> => {
+
+    const claims = await exchangeCode(provider, code, state);
+
+    return resolveUser(provider, claims);
+
+};
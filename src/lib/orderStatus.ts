@@ -0,0 +1,47 @@
+import type { OrderStatus } from "@/models/Order";
+
+export type OrderActor = "buyer" | "seller" | "admin";
+
+/**
+ * Allowed status transitions and who may perform them. `paid` is admin-only:
+ * it is set by the payment integration, never by the buyer's own client.
+ * Cancelled and refunded are terminal.
+ */
+const TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, OrderActor[]>>> = {
+    pending: {
+        paid: ["admin"],
+        cancelled: ["buyer", "seller", "admin"],
+    },
+    paid: {
+        shipped: ["seller", "admin"],
+        refunded: ["seller", "admin"],
+    },
+    shipped: {
+        delivered: ["seller", "admin"],
+    },
+    delivered: {
+        refunded: ["seller", "admin"],
+    },
+    cancelled: {},
+    refunded: {},
+};
+
+export const isValidTransition = (from: OrderStatus, to: OrderStatus): boolean => {
+
+    return TRANSITIONS[from][to] !== undefined;
+
+};
+
+export const canTransition = (from: OrderStatus, to: OrderStatus, actors: OrderActor[]): boolean => {
+
+    const allowed = TRANSITIONS[from][to];
+
+    return allowed !== undefined && actors.some((actor) => allowed.includes(actor));
+
+};
+
+export const nextStatuses = (from: OrderStatus): OrderStatus[] => {
+
+    return Object.keys(TRANSITIONS[from]) as OrderStatus[];
+
+};
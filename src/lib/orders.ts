@@ -0,0 +1,205 @@
+import Order, { IOrder, IOrderItem, OrderStatus } from "@/models/Order";
+import { badRequest, conflict, notFound } from "./errors";
+import { canTransition, OrderActor } from "./orderStatus";
+import { releaseExpiredReservations, releaseStock, reservationExpiry, reserveStock } from "./inventory";
+import { BASE_CURRENCY, toMoneyView } from "./money";
+import { findVariant } from "./productVariants";
+import { getOrCreateCart } from "./cart";
+import { priceIn } from "./pricing";
+import { AuthUser, forbidden } from "./auth";
+import Product from "@/models/Product";
+import Cart from "@/models/Cart";
+import mongoose from "mongoose";
+
+/**
+ * Turns the user's cart into a pending order in `currency`. Title, SKU,
+ * variant options and price are copied from each product as it is right now,
+ * so the order keeps what was agreed on at purchase even if the seller edits
+ * or deletes the product (or the exchange rates change) afterwards. The stock
+ * is reserved until the order is paid or the reservation expires.
+ */
+export const checkout = async (userId: string, currency: string = BASE_CURRENCY): Promise<IOrder> => {
+
+    // Stock held by abandoned orders may be exactly what this checkout needs.
+    await releaseExpiredReservations();
+
+    const cart = await getOrCreateCart(userId);
+
+    if (cart.items.length === 0) throw badRequest("Cart is empty");
+
+    const products = await Product.find({ _id: { $in: cart.items.map((item) => item.product) } }).select("title sku price currency prices published author variants");
+
+    const byId = new Map(products.map((product) => [product._id.toString(), product]));
+
+    const lines = cart.items.map((item) => {
+
+        const product = byId.get(item.product.toString());
+
+        const variant = product && item.variant ? findVariant(product, item.variant.toString()) : undefined;
+
+        const key = item.variant ? `${item.product}.${item.variant}` : item.product.toString();
+
+        const available = !!product?.published && (item.variant ? !!variant : product.variants.length === 0);
+
+        return { item, product, variant, key, available };
+
+    });
+
+    const unavailable = lines.filter((line) => !line.available);
+
+    if (unavailable.length > 0) {
+
+        throw conflict(
+            "Some items in the cart are no longer available",
+            unavailable.map((line) => ({ field: `items.${line.key}`, message: "is no longer available" }))
+        );
+
+    }
+
+    const items: IOrderItem[] = lines.map(({ item, variant, ...line }) => {
+
+        const product = line.product!;
+
+        const unitPrice = priceIn(product, currency, variant).amount;
+
+        return {
+            product: product._id,
+            variant: variant?._id,
+            seller: product.author,
+            title: product.title,
+            sku: (variant ?? product).sku,
+            size: variant?.size,
+            color: variant?.color,
+            unitPrice,
+            quantity: item.quantity,
+            lineTotal: unitPrice * item.quantity
+        };
+
+    });
+
+    const sellers = [...new Map(items.map((item) => [item.seller.toString(), item.seller])).values()];
+
+    await reserveStock(items);
+
+    let order: IOrder;
+
+    try {
+
+        order = await Order.create({
+            buyer: userId,
+            items,
+            sellers,
+            currency,
+            subtotal: items.reduce((sum, item) => sum + item.lineTotal, 0),
+            status: "pending",
+            statusHistory: [{ status: "pending", changedBy: new mongoose.Types.ObjectId(userId), changedAt: new Date() }],
+            reservationExpiresAt: reservationExpiry()
+        });
+
+    } catch (error) {
+
+        await releaseStock(items);
+
+        throw error;
+
+    }
+
+    await Cart.updateOne({ user: userId }, { $set: { items: [] } });
+
+    return order;
+
+};
+
+export const getOrderActors = (order: IOrder, user: AuthUser): OrderActor[] => {
+
+    const actors: OrderActor[] = [];
+
+    if (order.buyer.toString() === user.id) actors.push("buyer");
+
+    if (order.sellers.some((seller) => seller.toString() === user.id)) actors.push("seller");
+
+    if (user.role === "admin") actors.push("admin");
+
+    return actors;
+
+};
+
+/** Loads an order the user takes part in; other users get a 404 so order ids are not probeable. */
+export const findOrderFor = async (orderId: string, user: AuthUser): Promise<IOrder> => {
+
+    const order = await Order.findById(orderId);
+
+    if (!order || getOrderActors(order, user).length === 0) throw notFound("Order not found");
+
+    return order;
+
+};
+
+export const transitionOrder = async (order: IOrder, to: OrderStatus, user: AuthUser, note?: string): Promise<IOrder> => {
+
+    const from = order.status;
+
+    if (!canTransition(from, to, getOrderActors(order, user))) {
+
+        throw forbidden(`You cannot change the status of this order from ${from} to ${to}`);
+
+    }
+
+    const now = new Date();
+
+    const filter: Record<string, unknown> = { _id: order._id, status: from };
+
+    // Stock of an expired reservation may already be sold to someone else.
+    if (to === "paid") filter.reservationExpiresAt = { $gt: now };
+
+    // Conditional on the status we checked, so two concurrent transitions
+    // cannot both succeed (e.g. shipping an order that was just cancelled).
+    const updated = await Order.findOneAndUpdate(
+        filter,
+        {
+            $set: { status: to },
+            $push: { statusHistory: { status: to, changedBy: user.id, changedAt: now, note } },
+            ...(from === "pending" && { $unset: { reservationExpiresAt: 1 } })
+        },
+        { new: true }
+    );
+
+    if (!updated) {
+
+        if (to === "paid" && order.reservationExpiresAt && order.reservationExpiresAt <= now) {
+
+            await releaseExpiredReservations();
+
+            throw conflict("The stock reservation of this order has expired");
+
+        }
+
+        throw conflict("The order status was changed concurrently, reload and try again");
+
+    }
+
+    if (from === "pending" && to === "cancelled") await releaseStock(updated.items);
+
+    return updated;
+
+};
+
+/** A seller only sees their own lines of an order, not what the buyer bought from others. */
+export const toSellerOrderView = (order: IOrder, sellerId: string) => {
+
+    const isOwn = (item: { seller: { toString(): string } }) => item.seller.toString() === sellerId;
+
+    const sellerSubtotal = order.items.filter(isOwn).reduce((sum, item) => sum + item.lineTotal, 0);
+
+    return {
+        _id: order._id,
+        buyer: order.buyer,
+        status: order.status,
+        currency: order.currency,
+        items: (order.toJSON().items as { seller: mongoose.Types.ObjectId }[]).filter(isOwn),
+        sellerSubtotal: toMoneyView({ amount: sellerSubtotal, currency: order.currency }),
+        createdAt: order.createdAt,
+        updatedAt: order.updatedAt
+    };
+
+};
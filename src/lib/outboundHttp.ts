@@ -0,0 +1,113 @@
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+
+export type OutboundResponse = {
+    status: number;
+    // At most `maxBodyLength` characters of the body.
+    body: string;
+};
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void;
+
+// Loopback, private, link-local (including cloud metadata at 169.254.169.254),
+// shared, multicast and reserved ranges. IPv4-mapped IPv6 addresses are
+// checked against the IPv4 ranges by `BlockList` itself.
+const PRIVATE_RANGES = new net.BlockList();
+
+for (const [network, prefix] of [
+    ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+    ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4]
+] as const) PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+
+for (const [network, prefix] of [["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+
+export const isPrivateAddress = (address: string): boolean => {
+
+    const family = net.isIP(address);
+
+    return family !== 0 && PRIVATE_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+
+};
+
+/**
+ * Resolves the host like `dns.lookup`, but fails if any of its addresses is
+ * private. Used as the socket's lookup, so the connection goes to exactly the
+ * address that was checked and a second, different DNS answer cannot sneak in.
+ */
+const lookupPublicAddress = (hostname: string, options: dns.LookupOptions, callback: LookupCallback): void => {
+
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+
+        if (error) return callback(error, []);
+
+        const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+
+        if (blocked) return callback(Object.assign(new Error(`${hostname} resolves to the private address ${blocked.address}`), { code: "EPRIVATEADDRESS" }), []);
+
+        if (options.all) return callback(null, addresses);
+
+        callback(null, addresses[0].address, addresses[0].family);
+
+    });
+
+};
+
+/**
+ * POSTs to a URL given by a user, which must only reach the public internet.
+ * Literal IPs are checked here and host names when they are resolved for the
+ * connection, unless `allowPrivate` is set. Redirects are not followed, and
+ * reading the response stops after `maxBodyLength` characters.
+ */
+export const postToPublicUrl = (
+    rawUrl: string,
+    { headers, body, signal, maxBodyLength, allowPrivate = false }: {
+        headers: Record<string, string>;
+        body: string;
+        signal: AbortSignal;
+        maxBodyLength: number;
+        allowPrivate?: boolean;
+    }
+): Promise<OutboundResponse> => new Promise((resolve, reject) => {
+
+    const url = new URL(rawUrl);
+
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+
+    if (!allowPrivate && isPrivateAddress(host)) return reject(new Error(`${host} is a private address`));
+
+    const request = (url.protocol === "https:" ? https : http).request(url, {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup: allowPrivate ? undefined : lookupPublicAddress,
+        signal
+    }, (response) => {
+
+        let text = "";
+
+        response.setEncoding("utf8");
+
+        response.on("data", (chunk: string) => {
+
+            text += chunk;
+
+            if (text.length < maxBodyLength) return;
+
+            resolve({ status: response.statusCode ?? 0, body: text.slice(0, maxBodyLength) });
+
+            request.destroy();
+
+        });
+
+        response.on("end", () => resolve({ status: response.statusCode ?? 0, body: text }));
+
+        response.on("error", reject);
+
+    });
+
+    request.on("error", reject);
+
+    request.end(body);
+
+});
@@ -0,0 +1,156 @@
+import { badRequest } from "./errors";
+import mongoose from "mongoose";
+
+export const DEFAULT_PAGE_LIMIT = 20;
+
+export const MAX_PAGE_LIMIT = 100;
+
+export type SortOrder = "asc" | "desc";
+
+type CursorValue = string | number | Date;
+
+type Cursor = {
+    value: CursorValue;
+    id: string;
+    // The sort the cursor was issued for; its value means nothing under another one.
+    sortBy: string;
+    order: SortOrder;
+};
+
+export type Page<T> = {
+    items: T[];
+    limit: number;
+    nextCursor: string | null;
+};
+
+export const parseLimit = (raw: string | null): number | null => {
+
+    if (raw === null || raw === "") return DEFAULT_PAGE_LIMIT;
+
+    const limit = Number(raw);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) return null;
+
+    return limit;
+
+};
+
+/** Reads `limit` and `cursor` from the query string, throwing a 400 for invalid values. */
+export const parseCursorParams = (params: URLSearchParams): { limit: number; cursor: Cursor | null } => {
+
+    const limit = parseLimit(params.get("limit"));
+
+    if (limit === null) throw badRequest(`limit must be an integer between 1 and ${MAX_PAGE_LIMIT}`);
+
+    const rawCursor = params.get("cursor");
+
+    const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+
+    if (rawCursor && !cursor) throw badRequest("Invalid cursor");
+
+    return { limit, cursor };
+
+};
+
+export const encodeCursor = (value: CursorValue, id: string, sortBy: string, order: SortOrder): string => {
+
+    const position = value instanceof Date ? { d: value.toISOString() } : { v: value };
+
+    const payload = { ...position, id, s: sortBy, o: order };
+
+    return Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+};
+
+export const decodeCursor = (cursor: string): Cursor | null => {
+
+    try {
+
+        const payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+
+        if (typeof payload?.id !== "string" || !mongoose.isValidObjectId(payload.id)) return null;
+
+        if (typeof payload.s !== "string" || (payload.o !== "asc" && payload.o !== "desc")) return null;
+
+        const sort = { id: payload.id, sortBy: payload.s, order: payload.o as SortOrder };
+
+        if (typeof payload.d === "string") {
+
+            const date = new Date(payload.d);
+
+            return isNaN(date.getTime()) ? null : { value: date, ...sort };
+
+        }
+
+        if (typeof payload.v !== "string" && typeof payload.v !== "number") return null;
+
+        return { value: payload.v, ...sort };
+
+    } catch {
+
+        return null;
+
+    }
+
+};
+
+/**
+ * Keyset pagination over `(sortBy, _id)`: the `_id` tiebreaker keeps the order
+ * total, so documents sharing a sort value are neither skipped nor repeated.
+ * A cursor issued for a different sort is rejected with a 400 rather than
+ * silently returning the wrong page.
+ */
+export const cursorQuery = (sortBy: string, order: SortOrder, cursor: Cursor | null) => {
+
+    const direction = order === "asc" ? 1 : -1;
+
+    const sort: Record<string, 1 | -1> = { [sortBy]: direction, _id: direction };
+
+    if (!cursor) return { filter: {}, sort };
+
+    if (cursor.sortBy !== sortBy || cursor.order !== order) throw badRequest("cursor was issued for a different sort or order");
+
+    const op = order === "asc" ? "$gt" : "$lt";
+
+    const id = new mongoose.Types.ObjectId(cursor.id);
+
+    const filter = {
+        $or: [
+            { [sortBy]: { [op]: cursor.value } },
+            { [sortBy]: cursor.value, _id: { [op]: id } }
+        ]
+    };
+
+    return { filter, sort };
+
+};
+
+/**
+ * Turns a `limit + 1` sized result into a page; the extra document only tells
+ * us whether another page exists and is never returned.
+ */
+export const toPage = <T extends { _id: unknown }>(docs: T[], limit: number, sortBy: keyof T & string, order: SortOrder): Page<T> => {
+
+    const items = docs.slice(0, limit);
+
+    const last = items[items.length - 1];
+
+    const nextCursor = docs.length > limit && last
+        ? encodeCursor(last[sortBy] as CursorValue, String(last._id), sortBy, order)
+        : null;
+
+    return { items, limit, nextCursor };
+
+};
+
+export const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const parsePageNumber = (raw: string | null): number | null => {
+
+    if (raw === null || raw === "") return 1;
+
+    const page = Number(raw);
+
+    return Number.isInteger(page) && page >= 1 ? page : null;
+
+};
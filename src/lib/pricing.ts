@@ -0,0 +1,20 @@
+import { IProduct, IProductVariant } from "@/models/Product";
+import { convert, Money } from "./money";
+
+/**
+ * What one unit costs in `currency`: a variant's own price wins, then a fixed
+ * override for that currency, and otherwise the product price is converted
+ * with the configured exchange rates.
+ */
+export const priceIn = (product: IProduct, currency: string, variant?: IProductVariant): Money => {
+
+    if (variant?.price !== undefined) return convert({ amount: variant.price, currency: product.currency }, currency);
+
+    // An override in the product's own currency would contradict `price`, so it is ignored.
+    const override = currency !== product.currency && product.prices?.find((price) => price.currency === currency);
+
+    if (override) return { amount: override.amount, currency };
+
+    return convert({ amount: product.price, currency: product.currency }, currency);
+
+};
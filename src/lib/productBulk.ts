@@ -0,0 +1,295 @@
+import { createProduct, findOwnedProduct, trashProduct, updateProduct } from "./products";
+import { AuditEntry, productSnapshot, recordAudit } from "./audit";
+import { FieldError, validate, validationError } from "./validation";
+import { ProductCreateInput, productCreateSchema, ProductUpdateInput } from "./schemas";
+import { requestIdOf, toApiError } from "./errors";
+import { toProductUpdate } from "./productPatch";
+import { isValidMongoId, AuthUser } from "./auth";
+import { EventType, publishProductEvent } from "./events";
+import { withTransaction } from "./mongoose";
+import { IProduct } from "@/models/Product";
+import { NextRequest } from "next/server";
+import { ClientSession } from "mongoose";
+
+export const MAX_BULK_ITEMS = 100;
+
+export type BulkItemResult = {
+    index: number;
+    status: number;
+    id: string | null;
+    error?: {
+        code: string;
+        message: string;
+        details: unknown;
+    };
+};
+
+export type BulkResult = {
+    atomic: boolean;
+    succeeded: number;
+    failed: number;
+    results: BulkItemResult[];
+};
+
+type PreparedItem<T> = {
+    id: string | null;
+    input?: T;
+    errors?: FieldError[];
+};
+
+type AppliedItem = {
+    status: number;
+    id: string;
+    audit: AuditEntry;
+    // Trashed products are passed by id, so the event carries their `deletedAt`.
+    event: { type: EventType; product: IProduct | string };
+};
+
+type BulkOperation<T> = {
+    /** Validates one raw item; a bad item only fails itself. */
+    prepare: (raw: unknown) => PreparedItem<T>;
+    /** Applies one valid item, inside the batch transaction in atomic mode. */
+    apply: (input: T, id: string | null, session?: ClientSession) => Promise<AppliedItem>;
+};
+
+/** Thrown to abort the atomic batch transaction after an item failed. */
+class BulkAborted extends Error {};
+
+/**
+ * Reads `{ <field>: [...], atomic?: boolean }`. Only the envelope is checked
+ * here; the items are validated one by one.
+ */
+export const parseBulkBody = (body: unknown, field: string): { items: unknown[]; atomic: boolean } => {
+
+    if (typeof body !== "object" || body === null || Array.isArray(body)) throw validationError([{ field: "body", message: "must be a JSON object" }]);
+
+    const { [field]: items, atomic = false } = body as Record<string, unknown>;
+
+    const errors: FieldError[] = [];
+
+    if (!Array.isArray(items)) errors.push({ field, message: "must be an array" });
+
+    else if (items.length < 1 || items.length > MAX_BULK_ITEMS) errors.push({ field, message: `must contain between 1 and ${MAX_BULK_ITEMS} items` });
+
+    if (typeof atomic !== "boolean") errors.push({ field: "atomic", message: "must be a boolean" });
+
+    if (errors.length > 0) throw validationError(errors);
+
+    return { items: items as unknown[], atomic: atomic as boolean };
+
+};
+
+const invalid = (index: number, id: string | null, errors: FieldError[]): BulkItemResult => ({
+    index,
+    status: 400,
+    id,
+    error: { code: "VALIDATION_ERROR", message: "Validation failed", details: errors }
+});
+
+const notApplied = (index: number, id: string | null): BulkItemResult => ({
+    index,
+    status: 424,
+    id,
+    error: { code: "NOT_APPLIED", message: "Not applied because another item in the atomic batch failed", details: null }
+});
+
+/**
+ * Runs one operation over every item. By default each item succeeds or fails
+ * on its own. In atomic mode all of them run in one transaction: the first
+ * failure rolls everything back and the other items are reported as 424.
+ */
+const runBulk = async <T>(req: NextRequest, items: unknown[], atomic: boolean, operation: BulkOperation<T>): Promise<BulkResult> => {
+
+    const prepared = items.map((raw, index) => ({ index, ...operation.prepare(raw) }));
+
+    const results = prepared.map(({ index, id, errors }) => errors ? invalid(index, id, errors) : notApplied(index, id));
+
+    const valid = prepared.filter((item) => !item.errors);
+
+    const applied: AppliedItem[] = [];
+
+    const applyItem = async (item: typeof valid[number], session?: ClientSession): Promise<void> => {
+
+        try {
+
+            const outcome = await operation.apply(item.input as T, item.id, session);
+
+            results[item.index] = { index: item.index, status: outcome.status, id: outcome.id };
+
+            applied.push(outcome);
+
+        } catch (error) {
+
+            const apiError = toApiError(error);
+
+            if (!apiError && atomic) throw error;
+
+            // Without a transaction earlier items are already saved, so an unexpected error must not hide their results.
+            if (!apiError) console.error(`[${requestIdOf(req)}] Bulk item ${item.index} failed:`, error);
+
+            results[item.index] = {
+                index: item.index,
+                status: apiError?.status ?? 500,
+                id: item.id,
+                error: apiError
+                    ? { code: apiError.code, message: apiError.message, details: apiError.details ?? null }
+                    : { code: "INTERNAL_ERROR", message: "Internal server error", details: null }
+            };
+
+            if (atomic) throw new BulkAborted();
+
+        }
+
+    };
+
+    if (!atomic) {
+
+        for (const item of valid) await applyItem(item);
+
+    } else if (valid.length === items.length) {
+
+        try {
+
+            await withTransaction(async (session) => {
+
+                // A retried transaction starts over from the first item.
+                applied.length = 0;
+
+                for (const item of valid) await applyItem(item, session);
+
+            });
+
+        } catch (error) {
+
+            if (!(error instanceof BulkAborted)) throw error;
+
+            applied.length = 0;
+
+            for (const item of valid) {
+
+                if (!results[item.index].error) results[item.index] = notApplied(item.index, item.id);
+
+            }
+
+        }
+
+    }
+
+    for (const { audit, event } of applied) {
+
+        await recordAudit(req, audit);
+
+        await publishProductEvent(req, event.type, event.product);
+
+    }
+
+    const succeeded = results.filter((result) => !result.error).length;
+
+    return { atomic, succeeded, failed: results.length - succeeded, results };
+
+};
+
+/** Splits an update item into the product id it names and the merge patch for it. */
+const splitId = (raw: unknown): { id: string | null; patch: unknown; error?: FieldError } => {
+
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return { id: null, patch: raw };
+
+    const { id, ...patch } = raw as Record<string, unknown>;
+
+    if (typeof id !== "string" || !isValidMongoId(id)) return { id: null, patch, error: { field: "id", message: "must be a valid ObjectId" } };
+
+    return { id, patch };
+
+};
+
+export const bulkCreateProducts = (req: NextRequest, auth: AuthUser, items: unknown[], atomic: boolean): Promise<BulkResult> => {
+
+    return runBulk<ProductCreateInput>(req, items, atomic, {
+        prepare: (raw) => {
+
+            const result = validate(productCreateSchema, raw);
+
+            return result.success ? { id: null, input: result.data } : { id: null, errors: result.errors };
+
+        },
+        apply: async (input, _id, session) => {
+
+            const product = await createProduct(auth.id, input, session);
+
+            const id = product._id.toString();
+
+            return {
+                status: 201,
+                id,
+                audit: { actor: auth, action: "product.create", target: { type: "product", id }, after: productSnapshot(product) },
+                event: { type: "product.created", product }
+            };
+
+        }
+    });
+
+};
+
+/** Items are `{ id, ...mergePatch }`, with the same JSON Merge Patch rules as PATCH /api/products/{id}. */
+export const bulkUpdateProducts = (req: NextRequest, auth: AuthUser, items: unknown[], atomic: boolean): Promise<BulkResult> => {
+
+    return runBulk<ProductUpdateInput>(req, items, atomic, {
+        prepare: (raw) => {
+
+            const { id, patch, error } = splitId(raw);
+
+            const result = toProductUpdate(patch);
+
+            const errors = [...(error ? [error] : []), ...(result.success ? [] : result.errors)];
+
+            return errors.length > 0 || !result.success ? { id, errors } : { id, input: result.data };
+
+        },
+        apply: async (input, id, session) => {
+
+            const existing = await findOwnedProduct(id as string, auth, { session });
+
+            const before = productSnapshot(existing);
+
+            const saved = await updateProduct(existing, input, auth.id, session);
+
+            const audit: AuditEntry = { actor: auth, action: "product.update", target: { type: "product", id: id as string }, before, after: productSnapshot(saved) };
+
+            return { status: 200, id: id as string, audit, event: { type: "product.updated", product: saved } };
+
+        }
+    });
+
+};
+
+/** Items are product ids; products go to the trash just like with DELETE /api/products/{id}. */
+export const bulkTrashProducts = (req: NextRequest, auth: AuthUser, items: unknown[], atomic: boolean): Promise<BulkResult> => {
+
+    return runBulk<null>(req, items, atomic, {
+        prepare: (raw) => {
+
+            if (typeof raw !== "string" || !isValidMongoId(raw)) return { id: null, errors: [{ field: "id", message: "must be a valid ObjectId" }] };
+
+            return { id: raw, input: null };
+
+        },
+        apply: async (_input, id, session) => {
+
+            const existing = await findOwnedProduct(id as string, auth, { session });
+
+            const deletedAt = await trashProduct(existing, auth.id, session);
+
+            const audit: AuditEntry = {
+                actor: auth,
+                action: "product.trash",
+                target: { type: "product", id: id as string },
+                before: { deletedAt: null },
+                after: { deletedAt: deletedAt.toISOString() }
+            };
+
+            return { status: 200, id: id as string, audit, event: { type: "product.deleted", product: id as string } };
+
+        }
+    });
+
+};
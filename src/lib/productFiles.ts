@@ -0,0 +1,374 @@
+import { createProduct, updateProduct } from "./products";
+import { FieldError, validate, validationError } from "./validation";
+import { ProductImportRow, productImportSchema } from "./schemas";
+import { AuditActor, productSnapshot, recordAudit } from "./audit";
+import Product, { IProduct } from "@/models/Product";
+import { ApiError, requestIdOf, toApiError } from "./errors";
+import { assertCategoriesExist } from "./categories";
+import { CsvValue, parseCsv, toCsvLine } from "./csv";
+import { adjustStock } from "./inventory";
+import { publishProductEvent } from "./events";
+import { NextRequest } from "next/server";
+
+export const PRODUCT_FILE_TYPES = {
+    csv: "text/csv",
+    jsonl: "application/x-ndjson"
+} as const;
+
+export type ProductFileFormat = keyof typeof PRODUCT_FILE_TYPES;
+
+export const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+
+export const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * Columns of the CSV format, in order. `id` is only informative and ignored
+ * on import. List fields are separated by `|`, and `prices` entries are
+ * written as `CURRENCY:amount`, e.g. `EUR:8990|USD:9790`.
+ */
+const CSV_COLUMNS = ["id", "sku", "title", "description", "price", "currency", "prices", "published", "stock", "categories"] as const;
+
+const JSON_LINES_TYPES = ["application/x-ndjson", "application/jsonl", "application/x-jsonlines"];
+
+export type ImportRowError = {
+    row: number;
+    sku: string | null;
+    errors: FieldError[];
+};
+
+export type ImportReport = {
+    dryRun: boolean;
+    rows: number;
+    created: number;
+    updated: number;
+    failed: number;
+    errors: ImportRowError[];
+};
+
+type RawRow = {
+    row: number;
+    data?: unknown;
+    error?: FieldError;
+};
+
+/** Picks the import format from the request's Content-Type; null if it is neither CSV nor JSON Lines. */
+export const formatFromContentType = (header: string | null): ProductFileFormat | null => {
+
+    const type = header?.split(";")[0].trim().toLowerCase();
+
+    if (type === PRODUCT_FILE_TYPES.csv) return "csv";
+
+    return type && JSON_LINES_TYPES.includes(type) ? "jsonl" : null;
+
+};
+
+/** Reads a `format` query parameter; null if it is not a known format. */
+export const parseFileFormat = (raw: string | null): ProductFileFormat | null => {
+
+    if (raw === null || raw === "") return "csv";
+
+    return Object.keys(PRODUCT_FILE_TYPES).includes(raw) ? raw as ProductFileFormat : null;
+
+};
+
+/** Numbers and booleans arrive as text in CSV; anything that does not convert is left for validation to reject. */
+const fromCsvCell = (column: string, value: string): unknown => {
+
+    switch (column) {
+
+        case "price":
+        case "stock": return value.trim() !== "" && !isNaN(Number(value)) ? Number(value) : value;
+
+        case "published": return value.toLowerCase() === "true" ? true : value.toLowerCase() === "false" ? false : value;
+
+        case "categories": return value.split("|").map((id) => id.trim()).filter(Boolean);
+
+        case "prices": return value.split("|").map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+
+            const [currency, amount] = entry.split(":").map((part) => part.trim());
+
+            return { currency, amount: amount !== undefined && amount !== "" && !isNaN(Number(amount)) ? Number(amount) : amount };
+
+        });
+
+        default: return value;
+
+    }
+
+};
+
+/**
+ * Splits an import file into rows. Row numbers are what a spreadsheet shows
+ * for CSV (the header is row 1) and line numbers for JSON Lines.
+ */
+const readRows = (text: string, format: ProductFileFormat): RawRow[] => {
+
+    if (format === "jsonl") {
+
+        return text.split(/\r?\n/).flatMap((line, index): RawRow[] => {
+
+            if (line.trim() === "") return [];
+
+            try {
+
+                return [{ row: index + 1, data: JSON.parse(line) }];
+
+            } catch {
+
+                return [{ row: index + 1, error: { field: "row", message: "must be valid JSON" } }];
+
+            }
+
+        });
+
+    }
+
+    const records = parseCsv(text);
+
+    if (!records) throw validationError([{ field: "body", message: "has a quoted CSV field that is never closed" }]);
+
+    const [header, ...rows] = records;
+
+    const columns = (header ?? []).map((column) => column.trim());
+
+    if (!columns.includes("sku")) throw validationError([{ field: "body", message: "must start with a header row that has a sku column" }]);
+
+    return rows.map((record, index) => {
+
+        const data: Record<string, unknown> = {};
+
+        columns.forEach((column, position) => {
+
+            const value = record[position] ?? "";
+
+            if (value !== "") data[column] = fromCsvCell(column, value);
+
+        });
+
+        return { row: index + 2, data };
+
+    });
+
+};
+
+/** Field errors are reported as they are; other failures, like a 412, become one error for the row. */
+const toRowErrors = (error: ApiError): FieldError[] => {
+
+    return Array.isArray(error.details) && error.details.length > 0
+        ? error.details as FieldError[]
+        : [{ field: "row", message: error.message }];
+
+};
+
+/**
+ * Imports the seller's catalog from CSV or JSON Lines. Every row is checked
+ * like a product create, then upserted by SKU: rows with a known SKU update
+ * that product, the others create one. Rows fail one by one and are reported
+ * with their row number. With `dryRun` everything is checked and counted but
+ * nothing is written.
+ */
+export const importProducts = async (req: NextRequest, actor: AuditActor, text: string, format: ProductFileFormat, dryRun: boolean): Promise<ImportReport> => {
+
+    const rows = readRows(text, format);
+
+    if (rows.length > MAX_IMPORT_ROWS) throw validationError([{ field: "body", message: `must contain at most ${MAX_IMPORT_ROWS} rows` }]);
+
+    const report: ImportReport = { dryRun, rows: rows.length, created: 0, updated: 0, failed: 0, errors: [] };
+
+    const valid: { row: number; data: ProductImportRow }[] = [];
+
+    const fail = (row: number, sku: unknown, errors: FieldError[]) => {
+
+        report.failed++;
+
+        report.errors.push({ row, sku: typeof sku === "string" ? sku : null, errors });
+
+    };
+
+    const firstRowOfSku = new Map<string, number>();
+
+    for (const { row, data, error } of rows) {
+
+        const sku = (data as { sku?: unknown } | null)?.sku;
+
+        if (error) {
+
+            fail(row, null, [error]);
+
+            continue;
+
+        }
+
+        const result = validate(productImportSchema, data);
+
+        if (!result.success) {
+
+            fail(row, sku, result.errors);
+
+            continue;
+
+        }
+
+        const first = firstRowOfSku.get(result.data.sku);
+
+        if (first !== undefined) {
+
+            fail(row, result.data.sku, [{ field: "sku", message: `is repeated from row ${first}` }]);
+
+            continue;
+
+        }
+
+        firstRowOfSku.set(result.data.sku, row);
+
+        valid.push({ row, data: result.data });
+
+    }
+
+    // Trashed products still hold their SKU, so they are looked up too.
+    const existing = await Product.find({ author: actor.id, sku: { $in: valid.map(({ data }) => data.sku) } }).setOptions({ withDeleted: true });
+
+    const bySku = new Map(existing.map((product) => [product.sku as string, product]));
+
+    for (const { row, data } of valid) {
+
+        const { sku, stock, ...fields } = data;
+
+        const product = bySku.get(sku);
+
+        try {
+
+            if (product?.deletedAt) throw validationError([{ field: "sku", message: "belongs to a product in the trash, restore it or use another SKU" }]);
+
+            if (product && stock !== undefined && product.variants.length > 0) throw validationError([{ field: "stock", message: "is kept per variant for products with variants" }]);
+
+            if (dryRun) {
+
+                await assertCategoriesExist(data.categories);
+
+                const draft: IProduct = product ? product.set(fields) : new Product({ ...data, author: actor.id });
+
+                const invalid = draft.validateSync();
+
+                if (invalid) throw invalid;
+
+            } else if (product) {
+
+                const before = productSnapshot(product);
+
+                const saved = await updateProduct(product, fields, actor.id);
+
+                const after = productSnapshot(saved);
+
+                if (stock !== undefined) after.stock = await adjustStock(saved._id.toString(), { quantity: stock });
+
+                await recordAudit(req, { actor, action: "product.update", target: { type: "product", id: saved._id }, before, after, metadata: { source: "import" } });
+
+                await publishProductEvent(req, "product.updated", stock !== undefined ? saved._id.toString() : saved);
+
+            } else {
+
+                const created = await createProduct(actor.id, data);
+
+                await recordAudit(req, { actor, action: "product.create", target: { type: "product", id: created._id }, after: productSnapshot(created), metadata: { source: "import" } });
+
+                await publishProductEvent(req, "product.created", created);
+
+            }
+
+            if (product) report.updated++;
+
+            else report.created++;
+
+        } catch (error) {
+
+            const apiError = toApiError(error);
+
+            // Earlier rows are already saved, so an unexpected error fails only its own row.
+            if (!apiError) console.error(`[${requestIdOf(req)}] Importing row ${row} failed:`, error);
+
+            fail(row, sku, apiError ? toRowErrors(apiError) : [{ field: "row", message: "could not be saved" }]);
+
+        }
+
+    }
+
+    return report;
+
+};
+
+/** The product fields a file holds, with amounts in minor units so an export can be imported again. */
+const toFileRow = (product: IProduct) => ({
+    id: product._id.toString(),
+    sku: product.sku ?? null,
+    title: product.title,
+    description: product.description,
+    price: product.price,
+    currency: product.currency,
+    prices: product.prices.map(({ currency, amount }) => ({ currency, amount })),
+    published: product.published,
+    stock: product.stock,
+    categories: product.categories.map(String)
+});
+
+const toCsvRecord = (row: ReturnType<typeof toFileRow>): CsvValue[] => CSV_COLUMNS.map((column) => {
+
+    if (column === "prices") return row.prices.map(({ currency, amount }) => `${currency}:${amount}`).join("|");
+
+    if (column === "categories") return row.categories.join("|");
+
+    return row[column];
+
+});
+
+/**
+ * Streams the seller's products (not the trash) in the import format, one
+ * product at a time, so large catalogs are never held in memory. Products
+ * without a SKU are exported too but cannot be imported back as they are.
+ */
+export const exportProducts = (authorId: string, format: ProductFileFormat): ReadableStream<Uint8Array> => {
+
+    const encoder = new TextEncoder();
+
+    const cursor = Product.find({ author: authorId }).sort({ _id: 1 }).cursor();
+
+    let headerSent = format !== "csv";
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+
+            if (!headerSent) {
+
+                headerSent = true;
+
+                controller.enqueue(encoder.encode(toCsvLine([...CSV_COLUMNS]) + "\r\n"));
+
+                return;
+
+            }
+
+            const product = await cursor.next();
+
+            if (!product) {
+
+                await cursor.close();
+
+                controller.close();
+
+                return;
+
+            }
+
+            const row = toFileRow(product);
+
+            controller.enqueue(encoder.encode(format === "csv" ? toCsvLine(toCsvRecord(row)) + "\r\n" : JSON.stringify(row) + "\n"));
+
+        },
+        async cancel() {
+
+            await cursor.close();
+
+        }
+    });
+
+};
@@ -0,0 +1,178 @@
+import Product, { IProduct, IProductImage } from "@/models/Product";
+import { badRequest, conflict, notFound } from "./errors";
+import { getStorage } from "./storage";
+import mongoose from "mongoose";
+import sharp from "sharp";
+
+export const MAX_IMAGES_PER_PRODUCT = 10;
+
+export const MAX_IMAGE_BYTES = Number(process.env.MAX_IMAGE_BYTES) || 5 * 1024 * 1024;
+
+const THUMBNAIL_SIZE = 320;
+
+// Keyed by the format sharp detects from the bytes, not the client's claim.
+const ALLOWED_FORMATS: Record<string, { contentType: string; extension: string }> = {
+    jpeg: { contentType: "image/jpeg", extension: "jpg" },
+    png: { contentType: "image/png", extension: "png" },
+    webp: { contentType: "image/webp", extension: "webp" },
+};
+
+const ALLOWED_CONTENT_TYPES = Object.values(ALLOWED_FORMATS).map((format) => format.contentType);
+
+/** Rejects files by declared type and size before any of them is decoded or stored. */
+export const validateImageFiles = (files: File[], existingCount: number): void => {
+
+    if (files.length === 0) throw badRequest("No images uploaded, send them as multipart form field \"images\"");
+
+    if (existingCount + files.length > MAX_IMAGES_PER_PRODUCT) {
+
+        throw badRequest(`A product can have at most ${MAX_IMAGES_PER_PRODUCT} images`);
+
+    }
+
+    const errors = files.flatMap((file, index) => {
+
+        if (!ALLOWED_CONTENT_TYPES.includes(file.type)) return [{ field: `images[${index}]`, message: `must be one of ${ALLOWED_CONTENT_TYPES.join(", ")}` }];
+
+        if (file.size > MAX_IMAGE_BYTES) return [{ field: `images[${index}]`, message: `must be at most ${MAX_IMAGE_BYTES} bytes` }];
+
+        return [];
+
+    });
+
+    if (errors.length > 0) throw badRequest("Invalid images", errors);
+
+};
+
+/** Decodes the image to confirm it is what it claims, then stores it along with a WebP thumbnail. */
+const storeImage = async (productId: string, file: File, index: number): Promise<IProductImage> => {
+
+    const data = Buffer.from(await file.arrayBuffer());
+
+    const metadata = await sharp(data).metadata().catch(() => null);
+
+    const format = metadata?.format ? ALLOWED_FORMATS[metadata.format] : undefined;
+
+    if (!metadata || !format || !metadata.width || !metadata.height) {
+
+        throw badRequest("Invalid images", [{ field: `images[${index}]`, message: "is not a valid JPEG, PNG or WebP image" }]);
+
+    }
+
+    const thumbnail = await sharp(data)
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer();
+
+    const imageId = new mongoose.Types.ObjectId();
+
+    const key = `products/${productId}/${imageId}.${format.extension}`;
+
+    const thumbnailKey = `products/${productId}/${imageId}_thumb.webp`;
+
+    const storage = getStorage();
+
+    await storage.put(key, data, format.contentType);
+
+    await storage.put(thumbnailKey, thumbnail, "image/webp");
+
+    return {
+        _id: imageId,
+        key,
+        thumbnailKey,
+        url: storage.url(key),
+        thumbnailUrl: storage.url(thumbnailKey),
+        contentType: format.contentType,
+        size: data.length,
+        width: metadata.width,
+        height: metadata.height
+    };
+
+};
+
+export const deleteImageFiles = async (images: IProductImage[]): Promise<void> => {
+
+    const storage = getStorage();
+
+    await Promise.all(images.flatMap((image) => [storage.delete(image.key), storage.delete(image.thumbnailKey)]));
+
+};
+
+/** Best-effort cleanup after the documents are gone; a leftover file is only wasted space. */
+export const cleanupProductImages = async (products: Pick<IProduct, "images">[]): Promise<void> => {
+
+    await deleteImageFiles(products.flatMap((product) => product.images ?? []))
+        .catch((error) => console.error("Deleting product images failed:", error));
+
+};
+
+export const addProductImages = async (product: IProduct, files: File[]): Promise<IProductImage[]> => {
+
+    validateImageFiles(files, product.images.length);
+
+    const productId = product._id.toString();
+
+    const stored: IProductImage[] = [];
+
+    try {
+
+        for (const [index, file] of files.entries()) stored.push(await storeImage(productId, file, index));
+
+        // The limit is checked again atomically in case another upload finished meanwhile.
+        const updated = await Product.findOneAndUpdate(
+            { _id: productId, [`images.${MAX_IMAGES_PER_PRODUCT - files.length}`]: { $exists: false } },
+            { $push: { images: { $each: stored } } },
+            { new: true }
+        );
+
+        if (!updated) throw conflict(`A product can have at most ${MAX_IMAGES_PER_PRODUCT} images`);
+
+        return updated.images;
+
+    } catch (error) {
+
+        await deleteImageFiles(stored).catch(() => undefined);
+
+        throw error;
+
+    }
+
+};
+
+export const removeProductImage = async (productId: string, imageId: string): Promise<IProductImage[]> => {
+
+    const before = await Product.findOneAndUpdate(
+        { _id: productId, "images._id": imageId },
+        { $pull: { images: { _id: imageId } } }
+    );
+
+    if (!before) throw notFound("Image not found");
+
+    await cleanupProductImages([{ images: before.images.filter((image) => image._id.toString() === imageId) }]);
+
+    return before.images.filter((image) => image._id.toString() !== imageId);
+
+};
+
+export const reorderProductImages = async (product: IProduct, order: string[]): Promise<IProductImage[]> => {
+
+    const byId = new Map(product.images.map((image) => [image._id.toString(), image]));
+
+    if (order.length !== byId.size || order.some((id) => !byId.has(id))) {
+
+        throw badRequest("order must list every image id of the product exactly once");
+
+    }
+
+    const updated = await Product.findOneAndUpdate(
+        { _id: product._id, images: { $size: byId.size } },
+        { $set: { images: order.map((id) => byId.get(id)) } },
+        { new: true }
+    );
+
+    if (!updated) throw conflict("The images changed meanwhile, reload and try again");
+
+    return updated.images;
+
+};
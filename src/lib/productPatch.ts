@@ -0,0 +1,68 @@
+import { FieldError, validate, ValidationResult } from "./validation";
+import { ProductUpdateInput, productUpdateSchema } from "./schemas";
+import { unsupportedMediaType } from "./errors";
+
+export const MERGE_PATCH_CONTENT_TYPE = "application/merge-patch+json";
+
+/** What removing a field with `null` leaves behind; every other field is required and cannot be removed. */
+const REMOVED_VALUES: Record<string, unknown> = {
+    sku: undefined,
+    description: "",
+    prices: [],
+    categories: []
+};
+
+/** Same fields as a PUT, without the minimum: an empty merge patch is a valid no-op. */
+const patchSchema = { properties: productUpdateSchema.properties };
+
+/** JSON Merge Patch is sent as `application/merge-patch+json`; plain JSON is accepted too. */
+export const assertMergePatchContentType = (req: Request): void => {
+
+    const type = req.headers.get("content-type")?.split(";")[0].trim().toLowerCase();
+
+    if (type !== MERGE_PATCH_CONTENT_TYPE && type !== "application/json") {
+
+        throw unsupportedMediaType(`Content-Type must be ${MERGE_PATCH_CONTENT_TYPE}`);
+
+    }
+
+};
+
+/**
+ * Turns a JSON Merge Patch (RFC 7396) of a product into an update: members
+ * that are present replace the current value, `null` removes it. Products
+ * have no nested objects, so arrays like `prices` are replaced as a whole.
+ */
+export const toProductUpdate = (patch: unknown): ValidationResult<ProductUpdateInput> => {
+
+    if (typeof patch !== "object" || patch === null || Array.isArray(patch)) {
+
+        return { success: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+
+    }
+
+    const errors: FieldError[] = [];
+
+    const removed: Record<string, unknown> = {};
+
+    const present: Record<string, unknown> = {};
+
+    for (const [field, value] of Object.entries(patch)) {
+
+        if (value !== null) present[field] = value;
+
+        else if (field in REMOVED_VALUES) removed[field] = REMOVED_VALUES[field];
+
+        else if (field in patchSchema.properties) errors.push({ field, message: "cannot be removed" });
+
+    }
+
+    const result = validate(patchSchema, present);
+
+    if (!result.success) errors.push(...result.errors);
+
+    if (errors.length > 0 || !result.success) return { success: false, errors };
+
+    return { success: true, data: { ...result.data, ...removed } };
+
+};
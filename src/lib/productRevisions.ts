@@ -0,0 +1,60 @@
+import ProductRevision from "@/models/ProductRevision";
+import { notFound, preconditionFailed } from "./errors";
+import { IProduct } from "@/models/Product";
+import { updateProduct } from "./products";
+
+/**
+ * Entity tag of a product's details. It changes with every edit through PUT
+ * or a rollback; stock, variants and images are not part of it.
+ */
+export const productETag = (product: Pick<IProduct, "revision">): string => `"${product.revision}"`;
+
+/** Reads a revision number from the path; null if it is not a positive integer. */
+export const parseRevision = (raw: string): number | null => {
+
+    const revision = Number(raw);
+
+    return Number.isInteger(revision) && revision >= 1 ? revision : null;
+
+};
+
+/**
+ * Checks the `If-Match` header against the product's current ETag. Requests
+ * without the header are not conditional and always pass.
+ */
+export const assertIfMatch = (req: Request, product: IProduct): void => {
+
+    const header = req.headers.get("if-match");
+
+    if (header === null) return;
+
+    const tags = header.split(",").map((tag) => tag.trim());
+
+    if (tags.includes("*") || tags.includes(productETag(product))) return;
+
+    throw preconditionFailed("The product has changed since it was fetched, fetch it again and retry");
+
+};
+
+/**
+ * Puts an earlier version's details back. The rollback is itself an edit, so
+ * the version it replaces becomes a revision too and nothing is lost.
+ */
+export const rollbackProduct = async (product: IProduct, revision: number, editorId: string): Promise<IProduct> => {
+
+    const target = await ProductRevision.findOne({ product: product._id, revision });
+
+    if (!target) throw notFound("Revision not found");
+
+    return updateProduct(product, {
+        title: target.title,
+        description: target.description,
+        sku: target.sku,
+        price: target.price,
+        currency: target.currency,
+        prices: target.prices.map(({ currency, amount }) => ({ currency, amount })),
+        published: target.published,
+        categories: target.categories.map(String)
+    }, editorId);
+
+};
@@ -0,0 +1,80 @@
+import Product, { IProduct, IProductVariant } from "@/models/Product";
+import { VariantCreateInput, VariantUpdateInput } from "./schemas";
+import { toSkuConflict } from "./products";
+import { conflict, notFound } from "./errors";
+
+const variantSkuTaken = () => conflict("Another variant of this product already has this SKU", [{ field: "sku", message: "is already taken" }]);
+
+export const findVariant = (product: IProduct, variantId: string): IProductVariant | undefined => {
+
+    return product.variants.find((variant) => variant._id.toString() === variantId);
+
+};
+
+export const addProductVariant = async (productId: string, input: VariantCreateInput): Promise<IProductVariant[]> => {
+
+    try {
+
+        // The SKU check and the push are one update, so two concurrent adds cannot both take the same SKU.
+        const updated = await Product.findOneAndUpdate(
+            { _id: productId, "variants.sku": { $ne: input.sku } },
+            { $push: { variants: { ...input, stock: input.stock ?? 0 } } },
+            { new: true, runValidators: true }
+        );
+
+        if (!updated) throw variantSkuTaken();
+
+        return updated.variants;
+
+    } catch (error) {
+
+        throw toSkuConflict(error);
+
+    }
+
+};
+
+/** Changes the descriptive fields of a variant in place; its stock only moves through the stock endpoint. */
+export const updateProductVariant = async (productId: string, variantId: string, input: VariantUpdateInput): Promise<IProductVariant> => {
+
+    const filter: Record<string, unknown>[] = [{ _id: productId, "variants._id": variantId }];
+
+    if (input.sku) filter.push({ variants: { $not: { $elemMatch: { sku: input.sku, _id: { $ne: variantId } } } } });
+
+    const update = Object.fromEntries(Object.entries(input).map(([field, value]) => [`variants.$.${field}`, value]));
+
+    try {
+
+        const updated = await Product.findOneAndUpdate({ $and: filter }, { $set: update }, { new: true, runValidators: true });
+
+        if (!updated) {
+
+            if (!await Product.exists({ _id: productId, "variants._id": variantId })) throw notFound("Variant not found");
+
+            throw variantSkuTaken();
+
+        }
+
+        return updated.variants.find((variant) => variant._id.toString() === variantId)!;
+
+    } catch (error) {
+
+        throw toSkuConflict(error);
+
+    }
+
+};
+
+export const removeProductVariant = async (productId: string, variantId: string): Promise<IProductVariant[]> => {
+
+    const updated = await Product.findOneAndUpdate(
+        { _id: productId, "variants._id": variantId },
+        { $pull: { variants: { _id: variantId } } },
+        { new: true }
+    );
+
+    if (!updated) throw notFound("Variant not found");
+
+    return updated.variants;
+
+};
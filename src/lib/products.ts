@@ -0,0 +1,282 @@
+import Product, { IProduct } from "@/models/Product";
+import { cleanupProductImages } from "./productImages";
+import { AuthUser, forbidden, isOwnerOrAdmin } from "./auth";
+import { conflict, isDuplicateKeyError, notFound, preconditionFailed } from "./errors";
+import { ProductCreateInput, ProductUpdateInput } from "./schemas";
+import { assertCategoriesExist } from "./categories";
+import { inTransaction, withTransaction } from "./mongoose";
+import ProductRevision from "@/models/ProductRevision";
+import User from "@/models/User";
+import mongoose, { ClientSession } from "mongoose";
+
+const TRASH_RETENTION_DAYS = Number(process.env.PRODUCT_TRASH_RETENTION_DAYS) || 30;
+
+type FindOwnedOptions = {
+    trashed?: boolean;
+    session?: ClientSession;
+};
+
+/** Loads a product the user may modify: its owner, or any admin. With `trashed` it looks in the trash instead. */
+export const findOwnedProduct = async (productId: string, user: AuthUser, { trashed = false, session }: FindOwnedOptions = {}): Promise<IProduct> => {
+
+    const product = trashed
+        ? await Product.findOne({ _id: productId, deletedAt: { $ne: null } }).setOptions({ withDeleted: true }).session(session ?? null)
+        : await Product.findById(productId).session(session ?? null);
+
+    if (!product) throw notFound("Product not found");
+
+    if (!isOwnerOrAdmin(user, product.author.toString())) throw forbidden("You can only modify your own products");
+
+    return product;
+
+};
+
+/** Turns a duplicate key error from the per-seller SKU indexes into a readable 409. */
+export const toSkuConflict = (error: unknown): unknown => {
+
+    if (!isDuplicateKeyError(error)) return error;
+
+    const field = Object.keys(error.keyValue ?? {}).find((key) => key === "sku" || key === "variants.sku");
+
+    return field ? conflict("SKU is already used by another of your products", [{ field, message: "is already taken" }]) : error;
+
+};
+
+/**
+ * Product writes that also keep the author's `User.products` list in step.
+ * Both sides change in one transaction so neither can be left half-done; pass
+ * a `session` to make them part of a larger one, as bulk operations do.
+ */
+export const createProduct = async (authorId: string, data: ProductCreateInput, session?: ClientSession): Promise<IProduct> => {
+
+    await assertCategoriesExist(data.categories);
+
+    try {
+
+        return await inTransaction(session, async (session) => {
+
+            const [product] = await Product.create([{
+                ...data,
+                categories: data.categories?.map((id) => new mongoose.Types.ObjectId(id)),
+                author: authorId,
+                amountsInMinorUnits: true
+            }], { session });
+
+            await User.updateOne({ _id: authorId }, { $addToSet: { products: product._id } }, { session });
+
+            return product;
+
+        });
+
+    } catch (error) {
+
+        throw toSkuConflict(error);
+
+    }
+
+};
+
+/**
+ * Applies an edit and keeps the version it replaces as a `ProductRevision`.
+ * The save only matches the revision that was loaded, so when someone else
+ * edited the product in the meantime it fails with a 412 instead of silently
+ * overwriting their change. Products whose prices are still in major units
+ * cannot be edited until `convertLegacyAmounts` has run, as the edit would
+ * mix in amounts in minor units that the conversion then scales up again.
+ */
+export const updateProduct = async (product: IProduct, data: ProductUpdateInput, editorId: string, session?: ClientSession): Promise<IProduct> => {
+
+    if (!product.amountsInMinorUnits) throw conflict("The product's prices still need converting to minor units, ask an admin to run /api/products/convert-legacy-amounts");
+
+    await assertCategoriesExist(data.categories);
+
+    const previous = {
+        product: product._id,
+        revision: product.revision,
+        title: product.title,
+        description: product.description,
+        sku: product.sku,
+        price: product.price,
+        currency: product.currency,
+        prices: product.prices.map(({ currency, amount }) => ({ currency, amount })),
+        published: product.published,
+        categories: [...product.categories],
+        replacedBy: editorId
+    };
+
+    product.set(data);
+
+    if (!product.isModified()) return product;
+
+    // Products saved before revisions existed have no `revision` stored yet.
+    product.$where = { revision: previous.revision === 1 ? { $in: [1, null] } : previous.revision };
+
+    product.revision = previous.revision + 1;
+
+    try {
+
+        return await inTransaction(session, async (session) => {
+
+            await ProductRevision.create([previous], { session });
+
+            return product.save({ session });
+
+        });
+
+    } catch (error) {
+
+        const raced = error instanceof mongoose.Error.DocumentNotFoundError
+            || (isDuplicateKeyError(error) && "revision" in (error.keyValue ?? {}));
+
+        if (raced) throw preconditionFailed("The product was changed by someone else, fetch it again and retry");
+
+        throw toSkuConflict(error);
+
+    }
+
+};
+
+/** Moves a product to the trash. It keeps its images and SKU until it is purged, so it can be restored as it was. */
+export const trashProduct = async (product: IProduct, userId: string, session?: ClientSession): Promise<Date> => {
+
+    const deletedAt = new Date();
+
+    await inTransaction(session, async (session) => {
+
+        const result = await Product.updateOne(
+            { _id: product._id },
+            { $set: { deletedAt, deletedBy: userId } },
+            { session }
+        );
+
+        if (result.modifiedCount !== 1) throw notFound("Product not found");
+
+        await User.updateOne({ _id: product.author }, { $pull: { products: product._id } }, { session });
+
+    });
+
+    return deletedAt;
+
+};
+
+export const restoreProduct = async (product: IProduct): Promise<IProduct> => {
+
+    return withTransaction(async (session) => {
+
+        const restored = await Product.findOneAndUpdate(
+            { _id: product._id, deletedAt: { $ne: null } },
+            { $set: { deletedAt: null }, $unset: { deletedBy: 1 } },
+            { session, new: true }
+        ).setOptions({ withDeleted: true });
+
+        if (!restored) throw notFound("Product not found in the trash");
+
+        await User.updateOne({ _id: restored.author }, { $addToSet: { products: restored._id } }, { session });
+
+        return restored;
+
+    });
+
+};
+
+/**
+ * Permanently deletes products that have been in the trash for longer than
+ * `PRODUCT_TRASH_RETENTION_DAYS` (30 by default), along with their images.
+ * Orders keep their own snapshot of the products, so nothing points here anymore.
+ * Returns the products as they were before deletion.
+ */
+export const purgeTrashedProducts = async (now = new Date()): Promise<IProduct[]> => {
+
+    const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+    const expired = await Product.find({ deletedAt: { $lte: cutoff } }).setOptions({ withDeleted: true });
+
+    const purged: IProduct[] = [];
+
+    for (const product of expired) {
+
+        // Conditional, so a product restored in the meantime keeps its images.
+        const { deletedCount } = await Product.deleteOne({ _id: product._id, deletedAt: { $lte: cutoff } });
+
+        if (deletedCount !== 1) continue;
+
+        await ProductRevision.deleteMany({ product: product._id });
+
+        await cleanupProductImages([product]);
+
+        purged.push(product);
+
+    }
+
+    return purged;
+
+};
+
+export type ReconcileReport = {
+    usersChecked: number;
+    usersRepaired: number;
+    orphanedProducts: number;
+};
+
+const sameIds = (a: mongoose.Types.ObjectId[], b: mongoose.Types.ObjectId[]): boolean => {
+
+    if (a.length !== b.length) return false;
+
+    const ids = new Set(a.map(String));
+
+    return b.every((id) => ids.has(String(id)));
+
+};
+
+/**
+ * Rebuilds `User.products` from the `author` field of the products, which is
+ * the source of truth, for data written before the two were kept in sync.
+ * With `dryRun` it only reports what it would repair.
+ */
+export const reconcileUserProducts = async ({ dryRun = false } = {}): Promise<ReconcileReport> => {
+
+    const grouped: { _id: mongoose.Types.ObjectId; products: mongoose.Types.ObjectId[] }[] = await Product.aggregate([
+        { $group: { _id: "$author", products: { $push: "$_id" } } }
+    ]);
+
+    const actual = new Map(grouped.map((group) => [group._id.toString(), group.products]));
+
+    const users = User.find({
+        $or: [
+            { _id: { $in: grouped.map((group) => group._id) } },
+            { "products.0": { $exists: true } }
+        ]
+    }).select("products").cursor();
+
+    const report: ReconcileReport = { usersChecked: 0, usersRepaired: 0, orphanedProducts: 0 };
+
+    const seen = new Set<string>();
+
+    for await (const user of users) {
+
+        const id = user._id.toString();
+
+        seen.add(id);
+
+        report.usersChecked++;
+
+        const expected = actual.get(id) ?? [];
+
+        if (sameIds(user.products as mongoose.Types.ObjectId[], expected)) continue;
+
+        report.usersRepaired++;
+
+        if (!dryRun) await User.updateOne({ _id: user._id }, { $set: { products: expected } });
+
+    }
+
+    // Products whose author no longer exists cannot be listed on anyone.
+    for (const [authorId, products] of actual) {
+
+        if (!seen.has(authorId)) report.orphanedProducts += products.length;
+
+    }
+
+    return report;
+
+};
@@ -0,0 +1,187 @@
+import { tooManyRequests } from "./errors";
+import { getClientIp } from "./request";
+
+export type RateLimitEntry = {
+    count: number;
+    resetAt: number;
+};
+
+/**
+ * Backing store of the rate limiter. The in-memory default only counts per
+ * process; deployments running several instances should plug in a shared
+ * store (e.g. Redis) with `setRateLimitStore`.
+ */
+export interface RateLimitStore {
+    increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+    get(key: string): Promise<RateLimitEntry | null>;
+    set(key: string, entry: RateLimitEntry): Promise<void>;
+    reset(key: string): Promise<void>;
+};
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+
+    private entries = new Map<string, RateLimitEntry>();
+
+    private lastSweep = Date.now();
+
+    async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+
+        const now = Date.now();
+
+        this.sweep(now);
+
+        const current = this.entries.get(key);
+
+        const entry = current && current.resetAt > now
+            ? { count: current.count + 1, resetAt: current.resetAt }
+            : { count: 1, resetAt: now + windowMs };
+
+        this.entries.set(key, entry);
+
+        return entry;
+
+    }
+
+    async get(key: string): Promise<RateLimitEntry | null> {
+
+        const entry = this.entries.get(key);
+
+        return entry && entry.resetAt > Date.now() ? entry : null;
+
+    }
+
+    async set(key: string, entry: RateLimitEntry): Promise<void> {
+
+        this.entries.set(key, entry);
+
+    }
+
+    async reset(key: string): Promise<void> {
+
+        this.entries.delete(key);
+
+    }
+
+    // Expired entries are dropped lazily so the map does not grow without bound.
+    private sweep(now: number): void {
+
+        if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+
+        this.lastSweep = now;
+
+        for (const [key, entry] of this.entries) {
+
+            if (entry.resetAt <= now) this.entries.delete(key);
+
+        }
+
+    }
+
+};
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export const setRateLimitStore = (next: RateLimitStore): void => {
+
+    store = next;
+
+};
+
+export type RateLimitRule = {
+    name: string;
+    limit: number;
+    windowMs: number;
+};
+
+const MINUTE = 60 * 1000;
+
+export const RATE_LIMITS = {
+    loginPerIp: { name: "login-ip", limit: 20, windowMs: 15 * MINUTE },
+    loginPerEmail: { name: "login-email", limit: 10, windowMs: 15 * MINUTE },
+    registerPerIp: { name: "register-ip", limit: 5, windowMs: 60 * MINUTE },
+    accountEmailPerIp: { name: "account-email-ip", limit: 10, windowMs: 60 * MINUTE },
+    accountEmailPerAddress: { name: "account-email-address", limit: 3, windowMs: 60 * MINUTE },
+    products: { name: "products", limit: 120, windowMs: MINUTE },
+    twoFactorPerUser: { name: "two-factor-user", limit: 10, windowMs: 15 * MINUTE },
+    webhookPingsPerUser: { name: "webhook-ping-user", limit: 10, windowMs: MINUTE },
+} satisfies Record<string, RateLimitRule>;
+
+const secondsUntil = (timestamp: number): number => Math.max(1, Math.ceil((timestamp - Date.now()) / 1000));
+
+/** Counts a hit for `identifier` under `rule` and throws a 429 once the limit is exceeded. */
+export const rateLimit = async (rule: RateLimitRule, identifier: string): Promise<void> => {
+
+    const { count, resetAt } = await store.increment(`${rule.name}:${identifier}`, rule.windowMs);
+
+    if (count > rule.limit) throw tooManyRequests(secondsUntil(resetAt));
+
+};
+
+let warnedAboutUnknownIp = false;
+
+/**
+ * Counts a hit for the client's IP under `rule`. Without a trusted proxy the IP
+ * is unknown, and the request is not limited per IP at all: a shared bucket
+ * would let one client use up the limit for everybody. Per-account limits
+ * still apply.
+ */
+export const rateLimitByIp = async (req: Request, rule: RateLimitRule): Promise<void> => {
+
+    const ip = getClientIp(req);
+
+    if (ip) return rateLimit(rule, ip);
+
+    if (!warnedAboutUnknownIp) console.warn("Client IP unknown, per-IP rate limits are off; see TRUSTED_PROXY_HOPS");
+
+    warnedAboutUnknownIp = true;
+
+};
+
+const FREE_LOGIN_FAILURES = 5;
+
+const BASE_LOCKOUT_MS = MINUTE;
+
+const MAX_LOCKOUT_MS = 60 * MINUTE;
+
+const FAILURE_MEMORY_MS = 24 * 60 * MINUTE;
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/** Throws a 429 while the account is locked after repeated failed logins. */
+export const assertLoginAllowed = async (email: string): Promise<void> => {
+
+    const lockout = await store.get(`login-lockout:${normalizeEmail(email)}`);
+
+    if (lockout) throw tooManyRequests(secondsUntil(lockout.resetAt), "Too many failed login attempts, try again later");
+
+};
+
+/**
+ * Records a failed login. After the first few failures every further one locks
+ * the account for twice as long as the previous lockout, capped at an hour.
+ */
+export const recordLoginFailure = async (email: string): Promise<void> => {
+
+    const key = normalizeEmail(email);
+
+    const { count } = await store.increment(`login-failures:${key}`, FAILURE_MEMORY_MS);
+
+    if (count < FREE_LOGIN_FAILURES) return;
+
+    const duration = Math.min(BASE_LOCKOUT_MS * 2 ** (count - FREE_LOGIN_FAILURES), MAX_LOCKOUT_MS);
+
+    await store.set(`login-lockout:${key}`, { count, resetAt: Date.now() + duration });
+
+};
+
+export const recordLoginSuccess = async (email: string): Promise<void> => {
+
+    const key = normalizeEmail(email);
+
+    await store.reset(`login-failures:${key}`);
+
+    await store.reset(`login-lockout:${key}`);
+
+};
@@ -0,0 +1,28 @@
+// Number of reverse proxies in front of the app. Each appends the address it
+// was connected from to `X-Forwarded-For`, so only that many entries at the
+// end of the header can be trusted; anything left of them is whatever the
+// client sent. Set to 0 when the app is reachable without a proxy; per-IP
+// rate limits are then off, as the app has no address it can trust.
+const trustedProxyHops = (): number => {
+
+    const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+
+    return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+
+};
+
+/** Client IP as reported by the reverse proxy in front of the app; undefined when there is no trusted proxy. */
+export const getClientIp = (req: Request): string | undefined => {
+
+    const hops = trustedProxyHops();
+
+    if (hops === 0) return undefined;
+
+    const forwarded = (req.headers.get("x-forwarded-for") ?? "").split(",").map((entry) => entry.trim()).filter(Boolean);
+
+    // The entry written by the outermost trusted proxy, i.e. the address that connected to it.
+    if (forwarded.length > 0) return forwarded[Math.max(0, forwarded.length - hops)];
+
+    return req.headers.get("x-real-ip") || undefined;
+
+};
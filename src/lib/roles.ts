@@ -0,0 +1,68 @@
+import { NextRequest } from "next/server";
+import { recordAudit } from "./audit";
+import Product from "@/models/Product";
+import User, { IUser } from "@/models/User";
+
+export type SellerMigrationReport = {
+    authorsFound: number;
+    usersPromoted: number;
+};
+
+// Addresses from `ADMIN_EMAILS`, a comma-separated list, compared without case.
+const bootstrapAdminEmails = (): Set<string> => {
+
+    return new Set((process.env.ADMIN_EMAILS ?? "").split(",").map((email) => email.trim().toLowerCase()).filter(Boolean));
+
+};
+
+/**
+ * Makes the user an admin if their address is listed in `ADMIN_EMAILS` and
+ * verified, which is how the first admin of a new deployment comes about.
+ * Called when a user verifies their address or logs in; later admins can be
+ * appointed through `/api/users/{id}/role` instead. Returns whether the role
+ * changed, in which case `user.role` is updated as well.
+ */
+export const applyBootstrapAdmin = async (req: NextRequest, user: IUser): Promise<boolean> => {
+
+    // Unverified addresses do not count, or anyone could register a listed address first.
+    if (user.role === "admin" || !user.emailVerified || !bootstrapAdminEmails().has(user.email.toLowerCase())) return false;
+
+    const previousRole = user.role;
+
+    await User.updateOne({ _id: user._id }, { role: "admin" });
+
+    user.role = "admin";
+
+    await recordAudit(req, {
+        actor: null,
+        action: "user.role_change",
+        target: { type: "user", id: user._id },
+        before: { role: previousRole },
+        after: { role: "admin" },
+        metadata: { source: "ADMIN_EMAILS" }
+    });
+
+    return true;
+
+};
+
+/**
+ * One-off migration for accounts from before roles existed, which all read as
+ * customers: everyone who authors a product, including trashed ones, becomes
+ * a seller so they can keep managing their products. Sellers and admins are
+ * left alone. With `dryRun` it only reports how many users it would promote.
+ */
+export const grantSellerRoleToProductAuthors = async ({ dryRun = false } = {}): Promise<SellerMigrationReport> => {
+
+    const authors = await Product.distinct("author").setOptions({ withDeleted: true });
+
+    // Users saved since roles were added have `customer` written out; older ones have no role at all.
+    const filter = { _id: { $in: authors }, role: { $nin: ["seller", "admin"] } };
+
+    const usersPromoted = dryRun
+        ? await User.countDocuments(filter)
+        : (await User.updateMany(filter, { $set: { role: "seller" } })).modifiedCount;
+
+    return { authorsFound: authors.length, usersPromoted };
+
+};
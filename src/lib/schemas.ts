@@ -0,0 +1,385 @@
+import { defineSchema, Infer, toOpenApiSchema } from "./validation";
+import { SUPPORTED_CURRENCIES } from "./money";
+import { ORDER_STATUSES } from "@/models/Order";
+import { USER_ROLES } from "@/models/User";
+import { WEBHOOK_EVENTS } from "@/models/Webhook";
+import { API_KEY_SCOPES } from "@/models/ApiKey";
+
+// bcrypt ignores everything after the 72nd byte, so longer passwords would only look stronger.
+const newPasswordRule = { type: "string", required: true, format: "password", minLength: 8, maxLength: 72, trim: false, example: "StrongPassword123" } as const;
+
+export const registerSchema = defineSchema({
+    properties: {
+        fullname: { type: "string", required: true, minLength: 1, maxLength: 100, example: "XYFORA AB" },
+        email: { type: "string", required: true, format: "email", maxLength: 254, example: "info@xyfora.se" },
+        password: newPasswordRule
+    }
+});
+
+export const loginSchema = defineSchema({
+    properties: {
+        email: { type: "string", required: true, format: "email", example: "info@xyfora.se" },
+        password: { type: "string", required: true, format: "password", minLength: 1, trim: false, example: "StrongPassword123" }
+    }
+});
+
+export const tokenSchema = defineSchema({
+    properties: {
+        token: { type: "string", required: true, minLength: 1, description: "Token from the link in the email", example: "k1XbYw0m9n..." }
+    }
+});
+
+export const oidcCallbackSchema = defineSchema({
+    properties: {
+        code: { type: "string", required: true, minLength: 1, maxLength: 2048, description: "`code` from the provider's redirect", example: "4/0AX4XfWh..." },
+        state: { type: "string", required: true, minLength: 1, maxLength: 256, description: "`state` from the provider's redirect", example: "gq3V9xk2..." }
+    }
+});
+
+const totpCodeRule = { type: "string", pattern: "^[0-9]{6}$", description: "Current code from the authenticator app", example: "492039" } as const;
+
+const recoveryCodeRule = { type: "string", minLength: 1, maxLength: 32, description: "One of the recovery codes, instead of `code`", example: "k3f9a-pq2xm" } as const;
+
+export const twoFactorCodeSchema = defineSchema({
+    properties: {
+        code: { ...totpCodeRule, required: true }
+    }
+});
+
+export const secondFactorSchema = defineSchema({
+    properties: {
+        code: totpCodeRule,
+        recoveryCode: recoveryCodeRule
+    }
+});
+
+export const twoFactorLoginSchema = defineSchema({
+    properties: {
+        challengeToken: { type: "string", required: true, minLength: 1, description: "`challengeToken` from `/api/auth/login`", example: "Zp0c8nS1x..." },
+        code: totpCodeRule,
+        recoveryCode: recoveryCodeRule
+    }
+});
+
+export const twoFactorDisableSchema = defineSchema({
+    properties: {
+        password: { type: "string", required: true, format: "password", minLength: 1, trim: false, example: "StrongPassword123" },
+        code: totpCodeRule,
+        recoveryCode: recoveryCodeRule
+    }
+});
+
+export const forgotPasswordSchema = defineSchema({
+    properties: {
+        email: { type: "string", required: true, format: "email", example: "info@xyfora.se" }
+    }
+});
+
+export const resetPasswordSchema = defineSchema({
+    properties: {
+        token: { type: "string", required: true, minLength: 1, description: "Token from the password reset email", example: "k1XbYw0m9n..." },
+        password: newPasswordRule
+    }
+});
+
+export const profileUpdateSchema = defineSchema({
+    properties: {
+        fullname: { type: "string", minLength: 1, maxLength: 100, example: "XYFORA AB" },
+        email: { type: "string", format: "email", maxLength: 254, description: "Changing it requires currentPassword and verifying the new address", example: "sales@xyfora.se" },
+        currentPassword: { type: "string", format: "password", minLength: 1, trim: false, example: "StrongPassword123" }
+    },
+    minProperties: 1
+});
+
+export const passwordChangeSchema = defineSchema({
+    properties: {
+        currentPassword: { type: "string", required: true, format: "password", minLength: 1, trim: false, example: "StrongPassword123" },
+        newPassword: newPasswordRule
+    }
+});
+
+export const accountDeleteSchema = defineSchema({
+    properties: {
+        password: { type: "string", required: true, format: "password", minLength: 1, trim: false, example: "StrongPassword123" },
+        products: {
+            type: "string",
+            enum: ["delete", "transfer"],
+            description: "What happens to the user's products. Required when the user has any.",
+            example: "transfer"
+        },
+        transferTo: { type: "string", format: "email", description: "Seller or admin receiving the products when transferring", example: "info@xyfora.se" }
+    }
+});
+
+export const refreshSchema = defineSchema({
+    properties: {
+        refreshToken: { type: "string", required: true, minLength: 1, example: "675a3c92f1a3b9b529c7e312.q2v8Xn..." }
+    }
+});
+
+export const logoutSchema = defineSchema({
+    properties: {
+        all: { type: "boolean", description: "Revoke every session of the user instead of only the current one", example: false }
+    }
+});
+
+export const roleUpdateSchema = defineSchema({
+    properties: {
+        role: { type: "string", required: true, enum: USER_ROLES, example: "seller" }
+    }
+});
+
+const skuRule = { type: "string", minLength: 1, maxLength: 64, pattern: "^[A-Za-z0-9._-]+$", description: "Stock keeping unit, unique among the seller's products", example: "MBP-14-M3" } as const;
+
+const currencyRule = {
+    type: "string",
+    enum: SUPPORTED_CURRENCIES,
+    description: "ISO 4217 code of the currency `price` is in: the base currency or one with a configured exchange rate. Defaults to the base currency.",
+    example: "SEK"
+} as const;
+
+const amountRule = { type: "integer", minimum: 0, description: "In minor units of the product currency, e.g. 99990 for 999.90", example: 99990 } as const;
+
+const priceOverridesRule = {
+    type: "array",
+    items: {
+        type: "object",
+        properties: {
+            currency: { type: "string", required: true, enum: SUPPORTED_CURRENCIES, example: "EUR" },
+            amount: { type: "integer", required: true, minimum: 0, description: "In minor units of this currency", example: 8990 }
+        }
+    },
+    maxItems: 20,
+    description: "Fixed prices for other currencies. Currencies without one are converted from `price` with the configured exchange rates.",
+    example: [{ currency: "EUR", amount: 8990 }]
+} as const;
+
+const categoriesRule = {
+    type: "array",
+    items: { type: "string", format: "objectId" },
+    maxItems: 10,
+    uniqueItems: true,
+    description: "Ids of the categories the product is listed in",
+    example: ["675d1f22c4e6fa05b3c9da01"]
+} as const;
+
+const variantProperties = {
+    sku: { ...skuRule, required: true, description: "Unique among the seller's variants", example: "MBP-14-M3-SILVER" },
+    size: { type: "string", maxLength: 50, example: "14-inch" },
+    color: { type: "string", maxLength: 50, example: "Silver" },
+    price: { type: "integer", minimum: 0, description: "Overrides the product price for this variant, in minor units of the product currency", example: 104990 }
+} as const;
+
+export const productCreateSchema = defineSchema({
+    properties: {
+        title: { type: "string", required: true, minLength: 1, maxLength: 200, example: "Macbook" },
+        description: { type: "string", maxLength: 5000, example: "14-inch laptop with M3 chip" },
+        sku: skuRule,
+        price: { ...amountRule, required: true },
+        currency: currencyRule,
+        prices: priceOverridesRule,
+        published: { type: "boolean", description: "Whether the product is listed in the public catalog. Defaults to true.", example: true },
+        stock: { type: "integer", minimum: 0, description: "Initial quantity in stock for products without variants. Defaults to 0; change it later through the stock endpoint.", example: 25 },
+        categories: categoriesRule,
+        variants: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    ...variantProperties,
+                    stock: { type: "integer", minimum: 0, description: "Initial quantity in stock. Defaults to 0.", example: 10 }
+                }
+            },
+            maxItems: 100,
+            description: "Sizes, colors and so on. A product with variants is bought and stocked per variant."
+        }
+    }
+});
+
+/** One row of a catalog import. Rows are matched to the seller's existing products by SKU. */
+export const productImportSchema = defineSchema({
+    properties: {
+        sku: { ...skuRule, required: true, description: "Identifies the product: an existing product with this SKU is updated, otherwise one is created" },
+        title: productCreateSchema.properties.title,
+        description: productCreateSchema.properties.description,
+        price: productCreateSchema.properties.price,
+        currency: currencyRule,
+        prices: priceOverridesRule,
+        published: productCreateSchema.properties.published,
+        stock: { type: "integer", minimum: 0, description: "Quantity in stock; replaces the current stock of an existing product", example: 25 },
+        categories: categoriesRule
+    }
+});
+
+export const productUpdateSchema = defineSchema({
+    properties: {
+        title: { type: "string", minLength: 1, maxLength: 200, example: "Updated Macbook" },
+        description: { type: "string", maxLength: 5000, example: "14-inch laptop with M3 Pro chip" },
+        sku: skuRule,
+        price: { ...amountRule, example: 109999 },
+        currency: currencyRule,
+        prices: priceOverridesRule,
+        published: { type: "boolean", description: "Admins moderate listings by setting this to false", example: true },
+        categories: categoriesRule
+    },
+    minProperties: 1
+});
+
+export const variantCreateSchema = defineSchema({
+    properties: {
+        ...variantProperties,
+        stock: { type: "integer", minimum: 0, description: "Initial quantity in stock. Defaults to 0; change it later through the stock endpoint.", example: 10 }
+    }
+});
+
+export const variantUpdateSchema = defineSchema({
+    properties: {
+        ...variantProperties,
+        sku: skuRule
+    },
+    minProperties: 1
+});
+
+export const categorySchema = defineSchema({
+    properties: {
+        name: { type: "string", required: true, minLength: 1, maxLength: 100, example: "Laptops" },
+        description: { type: "string", maxLength: 1000, example: "Portable computers" },
+        parent: { type: "string", format: "objectId", description: "Parent category; omit for a top-level category", example: "675d1f22c4e6fa05b3c9da00" }
+    }
+});
+
+export const stockUpdateSchema = defineSchema({
+    properties: {
+        variantId: { type: "string", format: "objectId", description: "Required for products with variants", example: "675d2a10c4e6fa05b3c9da11" },
+        delta: { type: "integer", description: "Amount to add (positive) or remove (negative). Mutually exclusive with quantity.", example: -3 },
+        quantity: { type: "integer", minimum: 0, description: "Absolute quantity to set. Mutually exclusive with delta.", example: 40 }
+    },
+    minProperties: 1
+});
+
+export const imageOrderSchema = defineSchema({
+    properties: {
+        order: {
+            type: "array",
+            required: true,
+            items: { type: "string", format: "objectId" },
+            maxItems: 10,
+            uniqueItems: true,
+            description: "Every image id of the product, in the new display order",
+            example: ["675c0a11b3d5e9f4a2b8c913", "675c0a11b3d5e9f4a2b8c912"]
+        }
+    }
+});
+
+export const cartItemAddSchema = defineSchema({
+    properties: {
+        productId: { type: "string", required: true, format: "objectId", example: "675a3c92f1a3b9b529c7e312" },
+        variantId: { type: "string", format: "objectId", description: "Required for products with variants", example: "675d2a10c4e6fa05b3c9da11" },
+        quantity: { type: "integer", minimum: 1, maximum: 99, description: "Defaults to 1. Added to the quantity already in the cart.", example: 1 }
+    }
+});
+
+export const cartItemUpdateSchema = defineSchema({
+    properties: {
+        quantity: { type: "integer", required: true, minimum: 1, maximum: 99, example: 2 }
+    }
+});
+
+export const orderStatusUpdateSchema = defineSchema({
+    properties: {
+        status: { type: "string", required: true, enum: ORDER_STATUSES, example: "shipped" },
+        note: { type: "string", maxLength: 500, example: "Sent with PostNord, tracking 00370712345678901234" }
+    }
+});
+
+const webhookEventsRule = {
+    type: "array",
+    items: { type: "string", enum: WEBHOOK_EVENTS },
+    minItems: 1,
+    uniqueItems: true,
+    description: "Events to receive. Product events are about the user's own products, account events about their own account.",
+    example: ["product.created", "product.updated", "product.deleted"]
+} as const;
+
+export const webhookCreateSchema = defineSchema({
+    properties: {
+        url: { type: "string", required: true, maxLength: 2048, description: "HTTPS endpoint the events are POSTed to", example: "https://erp.example.com/hooks/xyfora" },
+        events: { ...webhookEventsRule, required: true },
+        description: { type: "string", maxLength: 200, example: "ERP product sync" },
+        active: { type: "boolean", description: "Inactive webhooks receive no events. Defaults to true.", example: true }
+    }
+});
+
+export const webhookUpdateSchema = defineSchema({
+    properties: {
+        url: { type: "string", maxLength: 2048, example: "https://erp.example.com/hooks/xyfora" },
+        events: webhookEventsRule,
+        description: webhookCreateSchema.properties.description,
+        active: { type: "boolean", description: "Set to false to pause deliveries; pending retries then fail", example: false }
+    },
+    minProperties: 1
+});
+
+export const apiKeyCreateSchema = defineSchema({
+    properties: {
+        name: { type: "string", required: true, minLength: 1, maxLength: 100, description: "What the key is for, to tell keys apart", example: "ERP sync" },
+        scopes: {
+            type: "array",
+            required: true,
+            items: { type: "string", enum: API_KEY_SCOPES },
+            minItems: 1,
+            uniqueItems: true,
+            description: "`products:read` lets the key read the user's products, `products:write` change them",
+            example: ["products:read", "products:write"]
+        },
+        expiresInDays: { type: "integer", minimum: 1, maximum: 365, description: "Omit for a key that does not expire", example: 90 }
+    }
+});
+
+export type RegisterInput = Infer<typeof registerSchema>;
+
+export type LoginInput = Infer<typeof loginSchema>;
+
+export type ProductCreateInput = Infer<typeof productCreateSchema>;
+
+export type ProductImportRow = Infer<typeof productImportSchema>;
+
+export type ProductUpdateInput = Infer<typeof productUpdateSchema>;
+
+export type VariantCreateInput = Infer<typeof variantCreateSchema>;
+
+export type VariantUpdateInput = Infer<typeof variantUpdateSchema>;
+
+/** Request body schemas published under `components.schemas` in the OpenAPI spec. */
+export const openApiSchemas = {
+    RegisterInput: toOpenApiSchema(registerSchema),
+    LoginInput: toOpenApiSchema(loginSchema),
+    TokenInput: toOpenApiSchema(tokenSchema),
+    OidcCallbackInput: toOpenApiSchema(oidcCallbackSchema),
+    TwoFactorCodeInput: toOpenApiSchema(twoFactorCodeSchema),
+    SecondFactorInput: toOpenApiSchema(secondFactorSchema),
+    TwoFactorLoginInput: toOpenApiSchema(twoFactorLoginSchema),
+    TwoFactorDisableInput: toOpenApiSchema(twoFactorDisableSchema),
+    ForgotPasswordInput: toOpenApiSchema(forgotPasswordSchema),
+    ResetPasswordInput: toOpenApiSchema(resetPasswordSchema),
+    ProfileUpdateInput: toOpenApiSchema(profileUpdateSchema),
+    PasswordChangeInput: toOpenApiSchema(passwordChangeSchema),
+    AccountDeleteInput: toOpenApiSchema(accountDeleteSchema),
+    RefreshInput: toOpenApiSchema(refreshSchema),
+    LogoutInput: toOpenApiSchema(logoutSchema),
+    RoleUpdateInput: toOpenApiSchema(roleUpdateSchema),
+    ProductCreateInput: toOpenApiSchema(productCreateSchema),
+    ProductUpdateInput: toOpenApiSchema(productUpdateSchema),
+    ProductImportRow: toOpenApiSchema(productImportSchema),
+    VariantCreateInput: toOpenApiSchema(variantCreateSchema),
+    VariantUpdateInput: toOpenApiSchema(variantUpdateSchema),
+    CategoryInput: toOpenApiSchema(categorySchema),
+    StockUpdateInput: toOpenApiSchema(stockUpdateSchema),
+    ImageOrderInput: toOpenApiSchema(imageOrderSchema),
+    CartItemAddInput: toOpenApiSchema(cartItemAddSchema),
+    CartItemUpdateInput: toOpenApiSchema(cartItemUpdateSchema),
+    OrderStatusUpdateInput: toOpenApiSchema(orderStatusUpdateSchema),
+    WebhookCreateInput: toOpenApiSchema(webhookCreateSchema),
+    WebhookUpdateInput: toOpenApiSchema(webhookUpdateSchema),
+    ApiKeyCreateInput: toOpenApiSchema(apiKeyCreateSchema)
+};
@@ -0,0 +1,10 @@
+import crypto from "crypto";
+
+/** Random URL-safe secret for tokens that are handed to the client once. */
+export const generateSecret = (bytes = 48): string => crypto.randomBytes(bytes).toString("base64url");
+
+/**
+ * Tokens are high-entropy random values, so a fast unsalted hash is enough to
+ * keep a database leak from handing out usable tokens.
+ */
+export const hashSecret = (secret: string): string => crypto.createHash("sha256").update(secret).digest("hex");
@@ -0,0 +1,133 @@
+import { generateSecret, hashSecret } from "./secrets";
+import { getClientIp } from "./request";
+import { signToken } from "./jwt";
+import User, { UserRole } from "@/models/User";
+import Session from "@/models/Session";
+
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type SessionTokens = {
+    token: string;
+    refreshToken: string;
+};
+
+/**
+ * Refresh tokens have the shape `<sessionId>.<secret>`; only the hash of the
+ * secret is stored.
+ */
+const parseRefreshToken = (refreshToken: string): { sessionId: string; secret: string } | null => {
+
+    const [sessionId, secret] = refreshToken.split(".");
+
+    if (!/^[0-9a-fA-F]{24}$/.test(sessionId ?? "") || !secret) return null;
+
+    return { sessionId, secret };
+
+};
+
+export const createSession = async (userId: string, role: UserRole, req: Request): Promise<SessionTokens> => {
+
+    const secret = generateSecret();
+
+    const session = await Session.create({
+        user: userId,
+        tokenHash: hashSecret(secret),
+        userAgent: req.headers.get("user-agent") ?? undefined,
+        ip: getClientIp(req),
+        lastUsedAt: new Date(),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+    });
+
+    const sessionId = session._id.toString();
+
+    return {
+        token: signToken(userId, sessionId, role),
+        refreshToken: `${sessionId}.${secret}`
+    };
+
+};
+
+/**
+ * Exchanges a refresh token for a new token pair. Every refresh token can be
+ * used once: presenting one that has already been rotated out means it leaked,
+ * so the whole session is revoked and both parties have to log in again.
+ */
+export const rotateSession = async (refreshToken: string): Promise<SessionTokens | null> => {
+
+    const parsed = parseRefreshToken(refreshToken);
+
+    if (!parsed) return null;
+
+    const session = await Session.findById(parsed.sessionId);
+
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) return null;
+
+    const presentedHash = hashSecret(parsed.secret);
+
+    const secret = generateSecret();
+
+    const rotated = await Session.findOneAndUpdate(
+        { _id: session._id, tokenHash: presentedHash, revokedAt: null },
+        { tokenHash: hashSecret(secret), lastUsedAt: new Date() },
+        { new: true }
+    );
+
+    if (!rotated) {
+
+        await revokeSession(session._id.toString(), "refresh_token_reuse");
+
+        return null;
+
+    }
+
+    // Read the role again so promotions and demotions apply from the next refresh.
+    const user = await User.findById(rotated.user).select("role");
+
+    if (!user) {
+
+        await revokeSession(rotated._id.toString(), "user_deleted");
+
+        return null;
+
+    }
+
+    const sessionId = rotated._id.toString();
+
+    return {
+        token: signToken(user._id.toString(), sessionId, user.role),
+        refreshToken: `${sessionId}.${secret}`
+    };
+
+};
+
+export const revokeSession = async (sessionId: string, reason = "logout"): Promise<void> => {
+
+    await Session.updateOne(
+        { _id: sessionId, revokedAt: null },
+        { revokedAt: new Date(), revokedReason: reason }
+    );
+
+};
+
+export const revokeUserSessions = async (userId: string, reason = "logout", exceptSessionId?: string): Promise<void> => {
+
+    const filter: Record<string, unknown> = { user: userId, revokedAt: null };
+
+    if (exceptSessionId) filter._id = { $ne: exceptSessionId };
+
+    await Session.updateMany(filter, { revokedAt: new Date(), revokedReason: reason });
+
+};
+
+export const isSessionActive = async (sessionId: string, userId: string): Promise<boolean> => {
+
+    const session = await Session.exists({
+        _id: sessionId,
+        user: userId,
+        revokedAt: null,
+        expiresAt: { $gt: new Date() }
+    });
+
+    return session !== null;
+
+};
@@ -0,0 +1,106 @@
+import { mkdir, readFile, unlink, writeFile } from "fs/promises";
+import path from "path";
+
+export type StoredObject = {
+    data: Buffer;
+    contentType: string;
+};
+
+/**
+ * Where uploaded files live. Keys are relative paths such as
+ * `products/<productId>/<imageId>.jpg`; `url` returns what clients fetch.
+ */
+export interface StorageAdapter {
+    put(key: string, data: Buffer, contentType: string): Promise<void>;
+    get(key: string): Promise<StoredObject | null>;
+    delete(key: string): Promise<void>;
+    url(key: string): string;
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".png": "image/png",
+    ".webp": "image/webp",
+};
+
+/**
+ * Stores files on the local disk and serves them through `/api/uploads`,
+ * since files added to `public/` after the build are not served by Next.js.
+ */
+export class LocalDiskStorage implements StorageAdapter {
+
+    private readonly root: string;
+
+    constructor(root: string, private readonly baseUrl = "/api/uploads") {
+
+        this.root = path.resolve(root);
+
+    }
+
+    async put(key: string, data: Buffer): Promise<void> {
+
+        const file = this.resolve(key);
+
+        await mkdir(path.dirname(file), { recursive: true });
+
+        await writeFile(file, data);
+
+    }
+
+    async get(key: string): Promise<StoredObject | null> {
+
+        try {
+
+            const data = await readFile(this.resolve(key));
+
+            return { data, contentType: CONTENT_TYPES[path.extname(key).toLowerCase()] ?? "application/octet-stream" };
+
+        } catch (error) {
+
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+
+            throw error;
+
+        }
+
+    }
+
+    async delete(key: string): Promise<void> {
+
+        await unlink(this.resolve(key)).catch((error: NodeJS.ErrnoException) => {
+
+            if (error.code !== "ENOENT") throw error;
+
+        });
+
+    }
+
+    url(key: string): string {
+
+        return `${this.baseUrl}/${key}`;
+
+    }
+
+    // Refuses keys like `../../etc/passwd` that would escape the upload directory.
+    private resolve(key: string): string {
+
+        const file = path.resolve(this.root, key);
+
+        if (!file.startsWith(this.root + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+
+        return file;
+
+    }
+
+};
+
+let storage: StorageAdapter = new LocalDiskStorage(process.env.UPLOAD_DIR || "uploads");
+
+export const getStorage = (): StorageAdapter => storage;
+
+export const setStorage = (next: StorageAdapter): void => {
+
+    storage = next;
+
+};
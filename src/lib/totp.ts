@@ -0,0 +1,128 @@
+import crypto from "crypto";
+
+// The parameters every authenticator app assumes: SHA-1, 6 digits, 30 second steps.
+const DIGITS = 6;
+
+const PERIOD_SECONDS = 30;
+
+// Codes from one step before or after are accepted too, to allow for clock drift.
+const DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const base32Encode = (bytes: Buffer): string => {
+
+    let bits = 0;
+
+    let value = 0;
+
+    let output = "";
+
+    for (const byte of bytes) {
+
+        value = (value << 8) | byte;
+
+        bits += 8;
+
+        while (bits >= 5) {
+
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+
+            bits -= 5;
+
+        }
+
+    }
+
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+
+    return output;
+
+};
+
+const base32Decode = (text: string): Buffer => {
+
+    let bits = 0;
+
+    let value = 0;
+
+    const bytes: number[] = [];
+
+    for (const char of text.replace(/=+$/, "").toUpperCase()) {
+
+        const index = BASE32_ALPHABET.indexOf(char);
+
+        if (index === -1) throw new Error("Invalid base32 character");
+
+        value = (value << 5) | index;
+
+        bits += 5;
+
+        if (bits >= 8) {
+
+            bytes.push((value >>> (bits - 8)) & 255);
+
+            bits -= 8;
+
+        }
+
+    }
+
+    return Buffer.from(bytes);
+
+};
+
+/** A new 160-bit secret, base32-encoded as authenticator apps expect it. */
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+/** The code for one time step (RFC 4226 HOTP with the step as counter). */
+const codeAt = (key: Buffer, step: number): string => {
+
+    const counter = Buffer.alloc(8);
+
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac("sha1", key).update(counter).digest();
+
+    const offset = hmac[hmac.length - 1] & 15;
+
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+
+};
+
+export const currentStep = (now = Date.now()): number => Math.floor(now / 1000 / PERIOD_SECONDS);
+
+/**
+ * Checks a code (RFC 6238) and returns the time step it belongs to, so the
+ * caller can refuse the same step twice; null if the code is wrong.
+ */
+export const verifyTotp = (secret: string, code: string, now = Date.now()): number | null => {
+
+    if (!/^\d+$/.test(code) || code.length !== DIGITS) return null;
+
+    const key = base32Decode(secret);
+
+    const step = currentStep(now);
+
+    for (let drift = -DRIFT_STEPS; drift <= DRIFT_STEPS; drift++) {
+
+        if (crypto.timingSafeEqual(Buffer.from(codeAt(key, step + drift)), Buffer.from(code))) return step + drift;
+
+    }
+
+    return null;
+
+};
+
+/** The `otpauth://` URI authenticator apps read from a QR code. */
+export const totpUri = (secret: string, account: string, issuer: string): string => {
+
+    const label = encodeURIComponent(`${issuer}:${account}`);
+
+    const params = new URLSearchParams({ secret, issuer, algorithm: "SHA1", digits: String(DIGITS), period: String(PERIOD_SECONDS) });
+
+    return `otpauth://totp/${label}?${params}`;
+
+};
@@ -0,0 +1,182 @@
+import TwoFactor, { ITwoFactor } from "@/models/TwoFactor";
+import { base32Encode, generateTotpSecret, totpUri, verifyTotp } from "./totp";
+import { badRequest, conflict, isDuplicateKeyError } from "./errors";
+import { hashSecret } from "./secrets";
+import { issueUserToken } from "./userTokens";
+import { validationError } from "./validation";
+import { unauthorized } from "./auth";
+import crypto from "crypto";
+
+const RECOVERY_CODE_COUNT = 10;
+
+export type SecondFactor = {
+    code?: string;
+    recoveryCode?: string;
+};
+
+export type SecondFactorMethod = "totp" | "recovery_code";
+
+export type TwoFactorStatus = {
+    enabled: boolean;
+    enabledAt: Date | null;
+    recoveryCodesRemaining: number;
+};
+
+export type LoginChallenge = {
+    twoFactorRequired: true;
+    challengeToken: string;
+};
+
+// The name authenticator apps show next to the code.
+const issuer = (): string => process.env.TOTP_ISSUER || "XYFORA";
+
+// Recovery codes are typed by hand, so case, spaces and dashes do not matter.
+const normalizeRecoveryCode = (code: string): string => code.toLowerCase().replace(/[\s-]/g, "");
+
+/** New recovery codes, formatted like `k3f9a-pq2xm`, and the hashes that are stored in their place. */
+const generateRecoveryCodes = (): { codes: string[]; hashes: string[] } => {
+
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+
+        const raw = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+
+    });
+
+    return { codes, hashes: codes.map((code) => hashSecret(normalizeRecoveryCode(code))) };
+
+};
+
+/** Checks a TOTP code and records its time step, so every code is accepted only once. */
+const acceptTotp = async (twoFactor: ITwoFactor, code: string): Promise<boolean> => {
+
+    const step = verifyTotp(twoFactor.secret, code);
+
+    if (step === null) return false;
+
+    const { modifiedCount } = await TwoFactor.updateOne(
+        { _id: twoFactor._id, $or: [{ lastUsedStep: null }, { lastUsedStep: { $lt: step } }] },
+        { lastUsedStep: step }
+    );
+
+    return modifiedCount === 1;
+
+};
+
+export const isTwoFactorEnabled = async (userId: string): Promise<boolean> => {
+
+    return (await TwoFactor.exists({ user: userId, enabledAt: { $ne: null } })) !== null;
+
+};
+
+export const getTwoFactorStatus = async (userId: string): Promise<TwoFactorStatus> => {
+
+    const twoFactor = await TwoFactor.findOne({ user: userId, enabledAt: { $ne: null } }).select("+recoveryCodeHashes");
+
+    return {
+        enabled: twoFactor !== null,
+        enabledAt: twoFactor?.enabledAt ?? null,
+        recoveryCodesRemaining: twoFactor?.recoveryCodeHashes.length ?? 0
+    };
+
+};
+
+/**
+ * Starts an enrollment with a new secret, replacing any enrollment that was
+ * never confirmed. Nothing changes at login until `enableTwoFactor` succeeds.
+ */
+export const startTwoFactorSetup = async (userId: string, email: string): Promise<{ secret: string; otpauthUri: string }> => {
+
+    const secret = generateTotpSecret();
+
+    try {
+
+        await TwoFactor.updateOne(
+            { user: userId, enabledAt: null },
+            { secret, recoveryCodeHashes: [], lastUsedStep: null },
+            { upsert: true }
+        );
+
+    } catch (error) {
+
+        // The filter only misses an existing document when it is enabled, and the upsert then collides with it.
+        if (isDuplicateKeyError(error)) throw conflict("Two-factor authentication is already enabled");
+
+        throw error;
+
+    }
+
+    return { secret, otpauthUri: totpUri(secret, email, issuer()) };
+
+};
+
+/** Confirms the enrollment with a code from the authenticator app and returns the recovery codes, which are shown only this once. */
+export const enableTwoFactor = async (userId: string, code: string): Promise<string[]> => {
+
+    const twoFactor = await TwoFactor.findOne({ user: userId }).select("+secret");
+
+    if (!twoFactor) throw badRequest("Set up two-factor authentication first");
+
+    if (twoFactor.enabledAt) throw conflict("Two-factor authentication is already enabled");
+
+    if (!(await acceptTotp(twoFactor, code))) throw unauthorized("Two-factor code is incorrect");
+
+    const { codes, hashes } = generateRecoveryCodes();
+
+    await TwoFactor.updateOne({ _id: twoFactor._id, enabledAt: null }, { enabledAt: new Date(), recoveryCodeHashes: hashes });
+
+    return codes;
+
+};
+
+/**
+ * Checks a TOTP code or a recovery code, exactly one of which must be given,
+ * against the user's enabled second factor. A recovery code is used up.
+ * Returns which one matched, or null if it did not.
+ */
+export const verifySecondFactor = async (userId: string, { code, recoveryCode }: SecondFactor): Promise<SecondFactorMethod | null> => {
+
+    if (!code === !recoveryCode) throw validationError([{ field: "code", message: "exactly one of code and recoveryCode is required" }]);
+
+    const twoFactor = await TwoFactor.findOne({ user: userId, enabledAt: { $ne: null } }).select("+secret");
+
+    if (!twoFactor) return null;
+
+    if (!recoveryCode) return (await acceptTotp(twoFactor, code ?? "")) ? "totp" : null;
+
+    const hash = hashSecret(normalizeRecoveryCode(recoveryCode));
+
+    const { modifiedCount } = await TwoFactor.updateOne({ _id: twoFactor._id, recoveryCodeHashes: hash }, { $pull: { recoveryCodeHashes: hash } });
+
+    return modifiedCount === 1 ? "recovery_code" : null;
+
+};
+
+/** Replaces the recovery codes; the old ones stop working. */
+export const regenerateRecoveryCodes = async (userId: string): Promise<string[]> => {
+
+    const { codes, hashes } = generateRecoveryCodes();
+
+    await TwoFactor.updateOne({ user: userId, enabledAt: { $ne: null } }, { recoveryCodeHashes: hashes });
+
+    return codes;
+
+};
+
+export const disableTwoFactor = async (userId: string): Promise<void> => {
+
+    await TwoFactor.deleteOne({ user: userId });
+
+};
+
+/**
+ * Issued instead of tokens when the password (or external sign-in) was right
+ * but the account has two-factor authentication. It is exchanged for tokens at
+ * `/api/auth/login/2fa` within five minutes; a newer login replaces it.
+ */
+export const issueLoginChallenge = async (userId: string): Promise<LoginChallenge> => {
+
+    return { twoFactorRequired: true, challengeToken: await issueUserToken(userId, "login_challenge") };
+
+};
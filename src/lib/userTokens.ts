@@ -0,0 +1,49 @@
+import UserToken, { IUserToken, UserTokenPurpose } from "@/models/UserToken";
+import { generateSecret, hashSecret } from "./secrets";
+
+const TOKEN_TTL_MS: Record<UserTokenPurpose, number> = {
+    email_verification: 24 * 60 * 60 * 1000,
+    password_reset: 60 * 60 * 1000,
+    login_challenge: 5 * 60 * 1000,
+};
+
+/**
+ * Creates a single-use token and returns its raw value, which only ever
+ * leaves the server inside the email. Issuing a new token invalidates the
+ * unused ones of the same purpose, so only the latest link works.
+ */
+export const issueUserToken = async (userId: string, purpose: UserTokenPurpose, email?: string): Promise<string> => {
+
+    const token = generateSecret(32);
+
+    await UserToken.deleteMany({ user: userId, purpose, usedAt: null });
+
+    await UserToken.create({
+        user: userId,
+        purpose,
+        tokenHash: hashSecret(token),
+        email,
+        expiresAt: new Date(Date.now() + TOKEN_TTL_MS[purpose])
+    });
+
+    return token;
+
+};
+
+/** Returns a token that is still usable without using it up, or null. */
+export const findUserToken = async (token: string, purpose: UserTokenPurpose): Promise<IUserToken | null> => {
+
+    return UserToken.findOne({ tokenHash: hashSecret(token), purpose, usedAt: null, expiresAt: { $gt: new Date() } });
+
+};
+
+/** Marks a token as used and returns it, or null if it is unknown, expired or already used. */
+export const consumeUserToken = async (token: string, purpose: UserTokenPurpose): Promise<IUserToken | null> => {
+
+    return UserToken.findOneAndUpdate(
+        { tokenHash: hashSecret(token), purpose, usedAt: null, expiresAt: { $gt: new Date() } },
+        { usedAt: new Date() },
+        { new: true }
+    );
+
+};
@@ -0,0 +1,307 @@
+import { ApiError } from "./errors";
+
+type BaseRule = {
+    required?: boolean;
+    description?: string;
+    example?: unknown;
+};
+
+export type StringRule = BaseRule & {
+    type: "string";
+    format?: "email" | "password" | "objectId";
+    pattern?: string;
+    enum?: readonly string[];
+    minLength?: number;
+    maxLength?: number;
+    trim?: boolean;
+};
+
+export type NumberRule = BaseRule & {
+    type: "number" | "integer";
+    minimum?: number;
+    maximum?: number;
+};
+
+export type BooleanRule = BaseRule & {
+    type: "boolean";
+};
+
+export type ScalarRule = StringRule | NumberRule | BooleanRule;
+
+export type ObjectRule = BaseRule & {
+    type: "object";
+    properties: Record<string, FieldRule>;
+};
+
+export type ArrayRule = BaseRule & {
+    type: "array";
+    items: ScalarRule | ObjectRule;
+    minItems?: number;
+    maxItems?: number;
+    uniqueItems?: boolean;
+};
+
+export type FieldRule = ScalarRule | ObjectRule | ArrayRule;
+
+export type ObjectSchema = {
+    properties: Record<string, FieldRule>;
+    minProperties?: number;
+};
+
+export type FieldError = {
+    field: string;
+    message: string;
+};
+
+type FieldValue<F> =
+    F extends { type: "array"; items: infer I } ? FieldValue<I>[] :
+    F extends { type: "object"; properties: infer P } ? InferProperties<P> :
+    F extends { enum: readonly (infer E)[] } ? E :
+    F extends { type: "string" } ? string :
+    F extends { type: "number" | "integer" } ? number :
+    boolean;
+
+type RequiredKeys<P> = { [K in keyof P]: P[K] extends { required: true } ? K : never }[keyof P];
+
+type InferProperties<P> =
+    { [K in RequiredKeys<P>]: FieldValue<P[K]> } &
+    { [K in Exclude<keyof P, RequiredKeys<P>>]?: FieldValue<P[K]> };
+
+export type Infer<S extends ObjectSchema> = InferProperties<S["properties"]>;
+
+export type ValidationResult<T> =
+    { success: true; data: T } |
+    { success: false; errors: FieldError[] };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const OBJECT_ID_PATTERN = /^[0-9a-fA-F]{24}$/;
+
+/** Keeps the literal types of a schema so `Infer` can derive the request body type from it. */
+export const defineSchema = <const S extends ObjectSchema>(schema: S): S => schema;
+
+const checkString = (rule: StringRule, raw: unknown): { value?: string; error?: string } => {
+
+    if (typeof raw !== "string") return { error: "must be a string" };
+
+    const value = rule.trim === false ? raw : raw.trim();
+
+    if (rule.minLength !== undefined && value.length < rule.minLength)
+
+        return { error: rule.minLength === 1 ? "must not be empty" : `must be at least ${rule.minLength} characters` };
+
+    if (rule.maxLength !== undefined && value.length > rule.maxLength) return { error: `must be at most ${rule.maxLength} characters` };
+
+    if (rule.format === "email" && !EMAIL_PATTERN.test(value)) return { error: "must be a valid email address" };
+
+    if (rule.format === "objectId" && !OBJECT_ID_PATTERN.test(value)) return { error: "must be a valid ObjectId" };
+
+    if (rule.pattern && !new RegExp(rule.pattern).test(value)) return { error: `must match ${rule.pattern}` };
+
+    if (rule.enum && !rule.enum.includes(value)) return { error: `must be one of ${rule.enum.join(", ")}` };
+
+    return { value };
+
+};
+
+const checkNumber = (rule: NumberRule, raw: unknown): { value?: number; error?: string } => {
+
+    if (typeof raw !== "number" || !Number.isFinite(raw)) return { error: "must be a number" };
+
+    if (rule.type === "integer" && !Number.isInteger(raw)) return { error: "must be an integer" };
+
+    if (rule.minimum !== undefined && raw < rule.minimum) return { error: `must be at least ${rule.minimum}` };
+
+    if (rule.maximum !== undefined && raw > rule.maximum) return { error: `must be at most ${rule.maximum}` };
+
+    return { value: raw };
+
+};
+
+const checkArray = (rule: ArrayRule, raw: unknown): { value?: unknown[]; error?: string } => {
+
+    if (!Array.isArray(raw)) return { error: "must be an array" };
+
+    if (rule.minItems !== undefined && raw.length < rule.minItems) return { error: `must contain at least ${rule.minItems} items` };
+
+    if (rule.maxItems !== undefined && raw.length > rule.maxItems) return { error: `must contain at most ${rule.maxItems} items` };
+
+    const value: unknown[] = [];
+
+    for (const [index, item] of raw.entries()) {
+
+        const result = checkField(rule.items, item);
+
+        if (result.error) return { error: `item ${index} ${result.error}` };
+
+        value.push(result.value);
+
+    }
+
+    if (rule.uniqueItems && new Set(value).size !== value.length) return { error: "must not contain duplicates" };
+
+    return { value };
+
+};
+
+/** Checks every declared property and drops the rest, collecting one error per field. */
+const checkProperties = (properties: Record<string, FieldRule>, body: Record<string, unknown>) => {
+
+    const errors: FieldError[] = [];
+
+    const data: Record<string, unknown> = {};
+
+    for (const [field, rule] of Object.entries(properties)) {
+
+        const raw = body[field];
+
+        if (raw === undefined || raw === null) {
+
+            if (rule.required) errors.push({ field, message: "is required" });
+
+            continue;
+
+        }
+
+        const { value, error } = checkField(rule, raw);
+
+        if (error) errors.push({ field, message: error });
+
+        else data[field] = value;
+
+    }
+
+    return { data, errors };
+
+};
+
+const checkObject = (rule: ObjectRule, raw: unknown): { value?: Record<string, unknown>; error?: string } => {
+
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return { error: "must be an object" };
+
+    const { data, errors } = checkProperties(rule.properties, raw as Record<string, unknown>);
+
+    if (errors.length > 0) return { error: `${errors[0].field} ${errors[0].message}` };
+
+    return { value: data };
+
+};
+
+const checkField = (rule: FieldRule, raw: unknown): { value?: unknown; error?: string } => {
+
+    switch (rule.type) {
+
+        case "array": return checkArray(rule, raw);
+
+        case "object": return checkObject(rule, raw);
+
+        case "string": return checkString(rule, raw);
+
+        case "number":
+        case "integer": return checkNumber(rule, raw);
+
+        case "boolean": return typeof raw === "boolean" ? { value: raw } : { error: "must be a boolean" };
+
+    }
+
+};
+
+/**
+ * Checks `input` against `schema` and returns only the declared fields, so
+ * clients cannot smuggle extra properties (like `author`) into a document.
+ */
+export const validate = <S extends ObjectSchema>(schema: S, input: unknown): ValidationResult<Infer<S>> => {
+
+    if (typeof input !== "object" || input === null || Array.isArray(input))
+
+        return { success: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+
+    const { data, errors } = checkProperties(schema.properties, input as Record<string, unknown>);
+
+    if (schema.minProperties && errors.length === 0 && Object.keys(data).length < schema.minProperties) {
+
+        const fields = Object.keys(schema.properties).join(", ");
+
+        errors.push({ field: "body", message: `must contain at least ${schema.minProperties} of ${fields}` });
+
+    }
+
+    return errors.length > 0 ? { success: false, errors } : { success: true, data: data as Infer<S> };
+
+};
+
+export const validationError = (errors: FieldError[]) => new ApiError(400, "VALIDATION_ERROR", "Validation failed", errors);
+
+/** Reads a JSON request body without validating its shape, throwing a 400 if it does not parse. */
+export const readJson = async (req: Request): Promise<unknown> => {
+
+    try {
+
+        return await req.json();
+
+    } catch {
+
+        throw validationError([{ field: "body", message: "must be valid JSON" }]);
+
+    }
+
+};
+
+/** Reads and validates a JSON request body, throwing a 400 listing every field error. */
+export const parseBody = async <S extends ObjectSchema>(req: Request, schema: S): Promise<Infer<S>> => {
+
+    const result = validate(schema, await readJson(req));
+
+    if (!result.success) throw validationError(result.errors);
+
+    return result.data;
+
+};
+
+const toOpenApiProperty = (rule: FieldRule): Record<string, unknown> => {
+
+    const property: Record<string, unknown> = { ...rule };
+
+    delete property.required;
+
+    delete property.trim;
+
+    if (property.format === "objectId") {
+
+        delete property.format;
+
+        property.pattern = OBJECT_ID_PATTERN.source;
+
+    }
+
+    if (rule.type === "array") property.items = toOpenApiProperty(rule.items);
+
+    if (rule.type === "object") Object.assign(property, toOpenApiSchema(rule));
+
+    return property;
+
+};
+
+/** Renders a schema as an OpenAPI schema object for `components.schemas`. */
+export const toOpenApiSchema = (schema: ObjectSchema) => {
+
+    const properties: Record<string, Record<string, unknown>> = {};
+
+    const required: string[] = [];
+
+    for (const [field, rule] of Object.entries(schema.properties)) {
+
+        properties[field] = toOpenApiProperty(rule);
+
+        if (rule.required) required.push(field);
+
+    }
+
+    return {
+        type: "object",
+        properties,
+        ...(required.length > 0 && { required }),
+        ...(schema.minProperties && { minProperties: schema.minProperties })
+    };
+
+};
@@ -0,0 +1,343 @@
+import WebhookDelivery, { IWebhookAttempt, IWebhookDelivery } from "@/models/WebhookDelivery";
+import Webhook, { IWebhook, WebhookEvent } from "@/models/Webhook";
+import { AuthUser, forbidden, isOwnerOrAdmin } from "./auth";
+import { conflict, notFound } from "./errors";
+import { validationError } from "./validation";
+import { generateSecret } from "./secrets";
+import { isPrivateAddress, postToPublicUrl } from "./outboundHttp";
+import { after } from "next/server";
+import type { AppEvent } from "./events";
+import crypto from "crypto";
+
+export const MAX_WEBHOOKS_PER_USER = 10;
+
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8;
+
+const RETRY_BASE_SECONDS = Number(process.env.WEBHOOK_RETRY_BASE_SECONDS) || 30;
+
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// A claimed delivery is left alone for this long, so two workers never send it at once.
+const CLAIM_SECONDS = 60;
+
+const MAX_RESPONSE_BODY_LENGTH = 1024;
+
+export const SIGNATURE_HEADER = "X-Xyfora-Signature";
+
+export type WebhookInput = {
+    url?: string;
+    events?: WebhookEvent[];
+    description?: string;
+    active?: boolean;
+};
+
+export type DeliveryRunReport = {
+    attempted: number;
+    succeeded: number;
+    retrying: number;
+    failed: number;
+};
+
+const allowPrivateUrls = (): boolean => process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true";
+
+/**
+ * Webhooks are called from our servers, so they must not point back into our
+ * own network. This rejects addresses that are obviously local up front; host
+ * names are checked when they are resolved for each delivery, since DNS
+ * answers can change after the webhook was saved.
+ */
+const assertWebhookUrl = (raw: string): void => {
+
+    let url: URL;
+
+    try {
+
+        url = new URL(raw);
+
+    } catch {
+
+        throw validationError([{ field: "url", message: "must be an absolute URL" }]);
+
+    }
+
+    const allowHttp = process.env.NODE_ENV !== "production";
+
+    if (url.protocol !== "https:" && !(allowHttp && url.protocol === "http:")) {
+
+        throw validationError([{ field: "url", message: allowHttp ? "must use http or https" : "must use https" }]);
+
+    }
+
+    if (url.username || url.password) throw validationError([{ field: "url", message: "must not contain credentials" }]);
+
+    const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+
+    const local = host === "localhost" || /\.(localhost|local|internal)$/.test(host) || isPrivateAddress(host);
+
+    if (local && !allowPrivateUrls()) {
+
+        throw validationError([{ field: "url", message: "must not point to a local or private address" }]);
+
+    }
+
+};
+
+/**
+ * The signature is an HMAC-SHA256 over `<timestamp>.<body>` with the
+ * webhook's secret, sent as `t=<timestamp>,v1=<hex>`. Receivers recompute it
+ * and reject old timestamps to stop replays.
+ */
+export const signPayload = (secret: string, timestamp: number, body: string): string => {
+
+    const signature = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+    return `t=${timestamp},v1=${signature}`;
+
+};
+
+/** Seconds to wait after the given number of failed attempts: 30s, 1m, 2m, 4m and so on, up to 6 hours. */
+export const retryDelaySeconds = (attempts: number): number => Math.min(RETRY_BASE_SECONDS * 2 ** (attempts - 1), MAX_RETRY_DELAY_SECONDS);
+
+/** Loads a webhook the user may manage: their own, or any for an admin. */
+export const findOwnedWebhook = async (webhookId: string, user: AuthUser): Promise<IWebhook> => {
+
+    const webhook = await Webhook.findById(webhookId);
+
+    if (!webhook) throw notFound("Webhook not found");
+
+    if (!isOwnerOrAdmin(user, webhook.user.toString())) throw forbidden("You can only manage your own webhooks");
+
+    return webhook;
+
+};
+
+/** Creates a webhook with a new signing secret. The secret is returned only here. */
+export const createWebhook = async (userId: string, input: Required<Pick<WebhookInput, "url" | "events">> & WebhookInput): Promise<{ webhook: IWebhook; secret: string }> => {
+
+    assertWebhookUrl(input.url);
+
+    if (await Webhook.countDocuments({ user: userId }) >= MAX_WEBHOOKS_PER_USER) {
+
+        throw conflict(`You can have at most ${MAX_WEBHOOKS_PER_USER} webhooks`);
+
+    }
+
+    const secret = `whsec_${generateSecret(24)}`;
+
+    const webhook = await Webhook.create({ ...input, user: userId, secret });
+
+    return { webhook, secret };
+
+};
+
+export const updateWebhook = async (webhook: IWebhook, input: WebhookInput): Promise<IWebhook> => {
+
+    if (input.url !== undefined) assertWebhookUrl(input.url);
+
+    webhook.set(input);
+
+    return webhook.save();
+
+};
+
+/** Deletes a webhook together with its delivery log; pending deliveries are dropped. */
+export const deleteWebhook = async (webhook: IWebhook): Promise<void> => {
+
+    await WebhookDelivery.deleteMany({ webhook: webhook._id });
+
+    await webhook.deleteOne();
+
+};
+
+const toPayload = (event: AppEvent): Record<string, unknown> => ({
+    id: event.id,
+    type: event.type,
+    createdAt: event.createdAt.toISOString(),
+    data: event.data
+});
+
+/**
+ * Queues a delivery of the event to every active webhook of the user it is
+ * about that subscribes to it, and tries them once the response has been
+ * sent. Deliveries that fail then are picked up by `processDueDeliveries`.
+ */
+export const dispatchWebhooks = async (event: AppEvent): Promise<void> => {
+
+    const webhooks = await Webhook.find({ user: event.userId, active: true, events: event.type }).select("_id");
+
+    if (webhooks.length === 0) return;
+
+    // Round-tripped through JSON so the stored payload is exactly what is sent.
+    const payload = JSON.parse(JSON.stringify(toPayload(event)));
+
+    const deliveries = await WebhookDelivery.insertMany(webhooks.map((webhook) => ({
+        webhook: webhook._id,
+        eventId: event.id,
+        event: event.type,
+        payload,
+        nextAttemptAt: event.createdAt
+    })));
+
+    after(async () => {
+
+        for (const delivery of deliveries) {
+
+            await deliverWebhook(delivery._id.toString())
+                .catch((error) => console.error(`Delivering webhook event ${event.type} failed:`, error));
+
+        }
+
+    });
+
+};
+
+const send = async (webhook: IWebhook, delivery: IWebhookDelivery): Promise<IWebhookAttempt> => {
+
+    const body = JSON.stringify(delivery.payload);
+
+    const started = Date.now();
+
+    const signal = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+
+    try {
+
+        // Redirects are not followed, as they could lead anywhere; they count as a failure.
+        const response = await postToPublicUrl(webhook.url, {
+            headers: {
+                "Content-Type": "application/json",
+                "User-Agent": "XYFORA-Webhooks/1.0",
+                "X-Xyfora-Event": delivery.event,
+                "X-Xyfora-Delivery": delivery._id.toString(),
+                [SIGNATURE_HEADER]: signPayload(webhook.secret, Math.floor(started / 1000), body)
+            },
+            body,
+            signal,
+            maxBodyLength: MAX_RESPONSE_BODY_LENGTH,
+            allowPrivate: allowPrivateUrls()
+        });
+
+        return {
+            at: new Date(started),
+            responseStatus: response.status,
+            responseBody: response.body,
+            durationMs: Date.now() - started
+        };
+
+    } catch (error) {
+
+        const message = signal.aborted
+            ? `No response within ${REQUEST_TIMEOUT_MS / 1000} seconds`
+            : error instanceof Error ? error.message : String(error);
+
+        return { at: new Date(started), error: message, durationMs: Date.now() - started };
+
+    }
+
+};
+
+/**
+ * Makes the next attempt of a pending delivery that is due, and schedules a
+ * retry with exponential backoff when it fails. Returns null when the
+ * delivery is not due or another worker already claimed it.
+ */
+export const deliverWebhook = async (deliveryId: string): Promise<IWebhookDelivery | null> => {
+
+    const now = new Date();
+
+    const delivery = await WebhookDelivery.findOneAndUpdate(
+        { _id: deliveryId, status: "pending", nextAttemptAt: { $lte: now } },
+        { $set: { nextAttemptAt: new Date(now.getTime() + CLAIM_SECONDS * 1000) } },
+        { new: true }
+    );
+
+    if (!delivery) return null;
+
+    const webhook = await Webhook.findById(delivery.webhook).select("+secret");
+
+    const ping = delivery.event === "ping";
+
+    // Pings also reach paused webhooks, so an endpoint can be tested before it goes live.
+    const sendable = webhook !== null && (webhook.active || ping);
+
+    const attempt: IWebhookAttempt = sendable
+        ? await send(webhook, delivery)
+        : { at: now, error: "The webhook was disabled", durationMs: 0 };
+
+    const succeeded = attempt.responseStatus !== undefined && attempt.responseStatus >= 200 && attempt.responseStatus < 300;
+
+    delivery.attempts.push(attempt);
+
+    if (succeeded) {
+
+        delivery.status = "succeeded";
+
+        delivery.deliveredAt = new Date();
+
+        delivery.nextAttemptAt = undefined;
+
+    } else if (!sendable || ping || delivery.attempts.length >= MAX_ATTEMPTS) {
+
+        delivery.status = "failed";
+
+        delivery.nextAttemptAt = undefined;
+
+    } else {
+
+        delivery.nextAttemptAt = new Date(Date.now() + retryDelaySeconds(delivery.attempts.length) * 1000);
+
+    }
+
+    return delivery.save();
+
+};
+
+/** Sends a `ping` event to the webhook right away and returns the delivery with its outcome. */
+export const pingWebhook = async (webhook: IWebhook): Promise<IWebhookDelivery> => {
+
+    const createdAt = new Date();
+
+    const eventId = crypto.randomUUID();
+
+    const delivery = await WebhookDelivery.create({
+        webhook: webhook._id,
+        eventId,
+        event: "ping",
+        payload: { id: eventId, type: "ping", createdAt: createdAt.toISOString(), data: { webhook: webhook._id.toString() } },
+        nextAttemptAt: createdAt
+    });
+
+    return await deliverWebhook(delivery._id.toString()) ?? delivery;
+
+};
+
+/** Retries the pending deliveries that are due, oldest first. Meant to be run periodically. */
+export const processDueDeliveries = async (limit = 100): Promise<DeliveryRunReport> => {
+
+    const due = await WebhookDelivery.find({ status: "pending", nextAttemptAt: { $lte: new Date() } })
+        .sort({ nextAttemptAt: 1 })
+        .limit(limit)
+        .select("_id");
+
+    const report: DeliveryRunReport = { attempted: 0, succeeded: 0, retrying: 0, failed: 0 };
+
+    for (const { _id } of due) {
+
+        const delivery = await deliverWebhook(_id.toString());
+
+        if (!delivery) continue;
+
+        report.attempted++;
+
+        if (delivery.status === "succeeded") report.succeeded++;
+
+        else if (delivery.status === "failed") report.failed++;
+
+        else report.retrying++;
+
+    }
+
+    return report;
+
+};
@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export const API_KEY_SCOPES = ["products:read", "products:write"] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+/**
+ * A long-lived credential for server-to-server calls. Only the hash of the
+ * key is stored; `prefix` is its first characters, kept so the owner can tell
+ * their keys apart.
+ */
+export interface IApiKey extends Document {
+    user: mongoose.Types.ObjectId;
+    name: string;
+    prefix: string;
+    keyHash: string;
+    scopes: ApiKeyScope[];
+    lastUsedAt?: Date;
+    expiresAt?: Date;
+    revokedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+};
+
+const ApiKeySchema: Schema<IApiKey> = new Schema({
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+        index: true,
+    },
+    name: {
+        type: String,
+        required: true,
+    },
+    prefix: {
+        type: String,
+        required: true,
+    },
+    keyHash: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    scopes: {
+        type: [{ type: String, enum: API_KEY_SCOPES }],
+        required: true,
+    },
+    lastUsedAt: {
+        type: Date,
+    },
+    expiresAt: {
+        type: Date,
+    },
+    revokedAt: {
+        type: Date,
+    },
+}, { timestamps: true }
+);
+
+ApiKeySchema.set("toJSON", {
+    transform: (_doc, ret) => {
+
+        const json = ret as unknown as Record<string, unknown>;
+
+        delete json.keyHash;
+
+        return json;
+
+    },
+});
+
+const ApiKey: Model<IApiKey> = mongoose.models.ApiKey || mongoose.model<IApiKey>("ApiKey", ApiKeySchema);
+
+export default ApiKey;
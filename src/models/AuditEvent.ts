@@ -0,0 +1,137 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export const AUDIT_TARGET_TYPES = ["user", "product", "category"] as const;
+
+export type AuditTargetType = typeof AUDIT_TARGET_TYPES[number];
+
+export interface IAuditChange {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+};
+
+export interface IAuditEvent extends Document {
+    actor: mongoose.Types.ObjectId | null;
+    actorRole: string | null;
+    actorApiKey: mongoose.Types.ObjectId | null;
+    action: string;
+    target: {
+        type: AuditTargetType;
+        id: mongoose.Types.ObjectId | null;
+    } | null;
+    changes: IAuditChange[];
+    metadata: Record<string, unknown> | null;
+    request: {
+        requestId: string;
+        method: string;
+        path: string;
+        ip: string | null;
+        userAgent: string | null;
+    };
+    createdAt: Date;
+};
+
+const AuditChangeSchema = new Schema<IAuditChange>({
+    field: {
+        type: String,
+        required: true,
+    },
+    before: Schema.Types.Mixed,
+    after: Schema.Types.Mixed,
+}, { _id: false }
+);
+
+const AuditEventSchema: Schema<IAuditEvent> = new Schema({
+    // Null for anonymous requests such as failed logins and password resets.
+    actor: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        default: null,
+    },
+    actorRole: {
+        type: String,
+        default: null,
+    },
+    // Set when the actor made the request with one of their API keys.
+    actorApiKey: {
+        type: Schema.Types.ObjectId,
+        ref: "ApiKey",
+        default: null,
+    },
+    action: {
+        type: String,
+        required: true,
+    },
+    target: {
+        type: new Schema({
+            type: {
+                type: String,
+                enum: AUDIT_TARGET_TYPES,
+                required: true,
+            },
+            id: {
+                type: Schema.Types.ObjectId,
+                default: null,
+            },
+        }, { _id: false }),
+        default: null,
+    },
+    changes: [AuditChangeSchema],
+    metadata: {
+        type: Schema.Types.Mixed,
+        default: null,
+    },
+    request: {
+        requestId: {
+            type: String,
+            required: true,
+        },
+        method: {
+            type: String,
+            required: true,
+        },
+        path: {
+            type: String,
+            required: true,
+        },
+        ip: {
+            type: String,
+            default: null,
+        },
+        userAgent: {
+            type: String,
+            default: null,
+        },
+    },
+}, { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+AuditEventSchema.index({ createdAt: -1, _id: -1 });
+
+AuditEventSchema.index({ actor: 1, createdAt: -1 });
+
+AuditEventSchema.index({ "target.id": 1, createdAt: -1 });
+
+// The log is append-only: events are written once and never edited or removed.
+const rejectMutation = () => {
+
+    throw new Error("Audit events are append-only");
+
+};
+
+AuditEventSchema.pre(
+    ["updateOne", "updateMany", "findOneAndUpdate", "replaceOne", "findOneAndReplace", "deleteOne", "deleteMany", "findOneAndDelete"],
+    rejectMutation
+);
+
+AuditEventSchema.pre("deleteOne", { document: true, query: false }, rejectMutation);
+
+AuditEventSchema.pre("save", function () {
+
+    if (!this.isNew) rejectMutation();
+
+});
+
+const AuditEvent: Model<IAuditEvent> = mongoose.models.AuditEvent || mongoose.model<IAuditEvent>("AuditEvent", AuditEventSchema);
+
+export default AuditEvent;
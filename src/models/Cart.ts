@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export interface ICartItem {
+    product: mongoose.Types.ObjectId;
+    variant?: mongoose.Types.ObjectId;
+    quantity: number;
+    addedAt: Date;
+};
+
+export interface ICart extends Document {
+    user: mongoose.Types.ObjectId;
+    items: ICartItem[];
+    createdAt: Date;
+    updatedAt: Date;
+};
+
+const CartItemSchema = new Schema<ICartItem>({
+    product: {
+        type: Schema.Types.ObjectId,
+        ref: "Product",
+        required: true,
+    },
+    // Set for products with variants; a line is identified by product and variant together.
+    variant: {
+        type: Schema.Types.ObjectId,
+    },
+    quantity: {
+        type: Number,
+        required: true,
+        min: 1,
+    },
+    addedAt: {
+        type: Date,
+        default: Date.now,
+    },
+}, { _id: false }
+);
+
+const CartSchema: Schema<ICart> = new Schema({
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+        unique: true,
+    },
+    items: [CartItemSchema],
+}, { timestamps: true }
+);
+
+const Cart: Model<ICart> = mongoose.models.Cart || mongoose.model<ICart>("Cart", CartSchema);
+
+export default Cart;
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export interface ICategory extends Document {
+    name: string;
+    slug: string;
+    description: string;
+    parent: mongoose.Types.ObjectId | null;
+    ancestors: mongoose.Types.ObjectId[];
+    createdAt: Date;
+    updatedAt: Date;
+};
+
+const CategorySchema: Schema<ICategory> = new Schema({
+    name: {
+        type: String,
+        required: true,
+    },
+    slug: {
+        type: String,
+        required: true,
+    },
+    description: {
+        type: String,
+        default: "",
+    },
+    parent: {
+        type: Schema.Types.ObjectId,
+        ref: "Category",
+        default: null,
+    },
+    // Root first, parent last. Lets a whole subtree be found with one indexed
+    // query instead of walking the tree level by level.
+    ancestors: {
+        type: [{ type: Schema.Types.ObjectId, ref: "Category" }],
+        default: [],
+    },
+}, { timestamps: true }
+);
+
+// Slugs only need to be unique among siblings, e.g. "accessories" can exist
+// under both "phones" and "laptops".
+CategorySchema.index({ parent: 1, slug: 1 }, { unique: true });
+CategorySchema.index({ ancestors: 1 });
+
+const Category: Model<ICategory> = mongoose.models.Category || mongoose.model<ICategory>("Category", CategorySchema);
+
+export default Category;
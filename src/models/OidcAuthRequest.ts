@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+/**
+ * A sign-in started with an OpenID Connect provider and not finished yet. It
+ * is looked up by the hash of its `state` and can be used once; the nonce and
+ * PKCE verifier are kept as they are because the callback needs them back.
+ */
+export interface IOidcAuthRequest extends Document {
+    provider: string;
+    stateHash: string;
+    nonce: string;
+    codeVerifier: string;
+    expiresAt: Date;
+    createdAt: Date;
+};
+
+const OidcAuthRequestSchema: Schema<IOidcAuthRequest> = new Schema({
+    provider: {
+        type: String,
+        required: true,
+    },
+    stateHash: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    nonce: {
+        type: String,
+        required: true,
+    },
+    codeVerifier: {
+        type: String,
+        required: true,
+    },
+    expiresAt: {
+        type: Date,
+        required: true,
+    },
+}, { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+OidcAuthRequestSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const OidcAuthRequest: Model<IOidcAuthRequest> = mongoose.models.OidcAuthRequest || mongoose.model<IOidcAuthRequest>("OidcAuthRequest", OidcAuthRequestSchema);
+
+export default OidcAuthRequest;
@@ -0,0 +1,177 @@
+import { BASE_CURRENCY, toMoneyView } from "@/lib/money";
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export const ORDER_STATUSES = ["pending", "paid", "shipped", "delivered", "cancelled", "refunded"] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export interface IOrderItem {
+    product: mongoose.Types.ObjectId;
+    variant?: mongoose.Types.ObjectId;
+    seller: mongoose.Types.ObjectId;
+    title: string;
+    sku?: string;
+    size?: string;
+    color?: string;
+    unitPrice: number;
+    quantity: number;
+    lineTotal: number;
+};
+
+export interface IOrderStatusChange {
+    status: OrderStatus;
+    changedBy?: mongoose.Types.ObjectId;
+    changedAt: Date;
+    note?: string;
+};
+
+export interface IOrder extends Document {
+    buyer: mongoose.Types.ObjectId;
+    items: IOrderItem[];
+    sellers: mongoose.Types.ObjectId[];
+    currency: string;
+    subtotal: number;
+    status: OrderStatus;
+    statusHistory: IOrderStatusChange[];
+    reservationExpiresAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+};
+
+// Items are a snapshot of the products at purchase time: later edits or
+// deletions of a product must never change what was bought or at what price.
+const OrderItemSchema = new Schema<IOrderItem>({
+    product: {
+        type: Schema.Types.ObjectId,
+        ref: "Product",
+        required: true,
+    },
+    variant: {
+        type: Schema.Types.ObjectId,
+    },
+    seller: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+    },
+    title: {
+        type: String,
+        required: true,
+    },
+    sku: {
+        type: String,
+    },
+    size: {
+        type: String,
+    },
+    color: {
+        type: String,
+    },
+    unitPrice: {
+        type: Number,
+        required: true,
+    },
+    quantity: {
+        type: Number,
+        required: true,
+        min: 1,
+    },
+    lineTotal: {
+        type: Number,
+        required: true,
+    },
+}, { _id: false }
+);
+
+const OrderStatusChangeSchema = new Schema<IOrderStatusChange>({
+    status: {
+        type: String,
+        enum: ORDER_STATUSES,
+        required: true,
+    },
+    // Empty for transitions made by the system, like expired reservations.
+    changedBy: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+    },
+    changedAt: {
+        type: Date,
+        default: Date.now,
+    },
+    note: {
+        type: String,
+    },
+}, { _id: false }
+);
+
+const OrderSchema: Schema<IOrder> = new Schema({
+    buyer: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+        immutable: true,
+    },
+    items: {
+        type: [OrderItemSchema],
+        immutable: true,
+    },
+    sellers: {
+        type: [{ type: Schema.Types.ObjectId, ref: "User" }],
+        immutable: true,
+    },
+    // Every amount of the order is in minor units of this currency.
+    currency: {
+        type: String,
+        default: BASE_CURRENCY,
+        immutable: true,
+    },
+    subtotal: {
+        type: Number,
+        required: true,
+        immutable: true,
+    },
+    status: {
+        type: String,
+        enum: ORDER_STATUSES,
+        default: "pending",
+    },
+    statusHistory: [OrderStatusChangeSchema],
+    // Set while a pending order holds stock; cleared once it is paid or cancelled.
+    reservationExpiresAt: {
+        type: Date,
+    },
+}, { timestamps: true }
+);
+
+OrderSchema.index({ buyer: 1, createdAt: -1, _id: -1 });
+OrderSchema.index({ sellers: 1, createdAt: -1, _id: -1 });
+OrderSchema.index({ status: 1, reservationExpiresAt: 1 });
+
+// Responses show every amount as a money object instead of bare minor units.
+OrderSchema.set("toJSON", {
+    transform: (_doc, ret) => {
+
+        const json = ret as unknown as Record<string, unknown>;
+
+        const currency = (json.currency as string | undefined) ?? BASE_CURRENCY;
+
+        json.subtotal = toMoneyView({ amount: json.subtotal as number, currency });
+
+        if (Array.isArray(json.items)) {
+
+            json.items = json.items.map((item: Record<string, unknown>) => ({
+                ...item,
+                unitPrice: toMoneyView({ amount: item.unitPrice as number, currency }),
+                lineTotal: toMoneyView({ amount: item.lineTotal as number, currency })
+            }));
+
+        }
+
+        return json;
+
+    },
+});
+
+const Order: Model<IOrder> = mongoose.models.Order || mongoose.model<IOrder>("Order", OrderSchema);
+
+export default Order;
@@ -1,30 +1,301 @@
+import { BASE_CURRENCY, isSupportedCurrency, Money, toMoneyView } from "@/lib/money";
 import mongoose, { Schema, Document, Model } from "mongoose";
 
+export interface IProductImage {
+    _id: mongoose.Types.ObjectId;
+    key: string;
+    thumbnailKey: string;
+    url: string;
+    thumbnailUrl: string;
+    contentType: string;
+    size: number;
+    width: number;
+    height: number;
+};
+
+export interface IPriceOverride {
+    currency: string;
+    amount: number;
+};
+
+export interface IProductVariant {
+    _id: mongoose.Types.ObjectId;
+    sku: string;
+    size?: string;
+    color?: string;
+    price?: number;
+    stock: number;
+};
+
 export interface IProduct extends Document {
     title: string;
+    description: string;
+    sku?: string;
     price: number;
+    currency: string;
+    prices: IPriceOverride[];
+    published: boolean;
+    stock: number;
+    categories: mongoose.Types.ObjectId[];
+    variants: IProductVariant[];
+    images: IProductImage[];
     author: mongoose.Types.ObjectId;
+    revision: number;
+    amountsInMinorUnits?: boolean;
+    deletedAt: Date | null;
+    deletedBy?: mongoose.Types.ObjectId;
     createdAt: Date;
     updatedAt: Date;
 };
 
+const ProductImageSchema = new Schema<IProductImage>({
+    key: {
+        type: String,
+        required: true,
+    },
+    thumbnailKey: {
+        type: String,
+        required: true,
+    },
+    url: {
+        type: String,
+        required: true,
+    },
+    thumbnailUrl: {
+        type: String,
+        required: true,
+    },
+    contentType: {
+        type: String,
+        required: true,
+    },
+    size: {
+        type: Number,
+        required: true,
+    },
+    width: {
+        type: Number,
+        required: true,
+    },
+    height: {
+        type: Number,
+        required: true,
+    },
+});
+
+const amountField = {
+    type: Number,
+    min: 0,
+    validate: {
+        validator: Number.isInteger,
+        message: "Amounts must be whole minor units, e.g. 99990 for 999.90",
+    },
+};
+
+const currencyField = {
+    type: String,
+    uppercase: true,
+    validate: {
+        validator: isSupportedCurrency,
+        message: "Currency must be the base currency or have a configured exchange rate",
+    },
+};
+
+const PriceOverrideSchema = new Schema<IPriceOverride>({
+    currency: {
+        ...currencyField,
+        required: true,
+    },
+    amount: {
+        ...amountField,
+        required: true,
+    },
+}, { _id: false }
+);
+
+const stockField = {
+    type: Number,
+    default: 0,
+    min: 0,
+    validate: {
+        validator: Number.isInteger,
+        message: "Stock must be a whole number",
+    },
+};
+
+const ProductVariantSchema = new Schema<IProductVariant>({
+    sku: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    size: {
+        type: String,
+    },
+    color: {
+        type: String,
+    },
+    // In the product currency. Falls back to the product price when not set;
+    // other currencies are converted from it, overrides do not apply.
+    price: amountField,
+    stock: stockField,
+});
+
 const ProductSchema: Schema<IProduct> = new Schema({
     title: {
         type: String,
         required: true,
     },
+    description: {
+        type: String,
+        default: "",
+    },
+    sku: {
+        type: String,
+        trim: true,
+    },
+    // Minor units of `currency`.
     price: {
-        type: Number,
+        ...amountField,
         required: true,
     },
+    currency: {
+        ...currencyField,
+        default: BASE_CURRENCY,
+    },
+    // Set by `createProduct` and `convertLegacyAmounts`. Products without it
+    // in the database still hold major units (999.9 for 999.90). There is no
+    // default, because mongoose would fill it in when such a product is loaded
+    // and write it on its next save, without converting anything.
+    amountsInMinorUnits: {
+        type: Boolean,
+    },
+    // Fixed prices for other currencies, used instead of converting `price`.
+    prices: {
+        type: [PriceOverrideSchema],
+        default: [],
+        validate: {
+            validator: (prices: IPriceOverride[]) => new Set(prices.map((price) => price.currency)).size === prices.length,
+            message: "Each currency can only have one price override",
+        },
+    },
+    published: {
+        type: Boolean,
+        default: true,
+    },
+    // Only used by products without variants; otherwise each variant has its own.
+    stock: stockField,
+    categories: {
+        type: [{ type: Schema.Types.ObjectId, ref: "Category" }],
+        default: [],
+    },
+    variants: {
+        type: [ProductVariantSchema],
+        validate: {
+            validator: (variants: IProductVariant[]) => new Set(variants.map((variant) => variant.sku)).size === variants.length,
+            message: "Variant SKUs must be unique within a product",
+        },
+    },
+    // Display order: the first image is the main one.
+    images: [ProductImageSchema],
     author: {
         type: Schema.Types.ObjectId,
         ref: "User",
         required: true,
     },
+    // Counts edits of the product details; earlier versions live in ProductRevision.
+    revision: {
+        type: Number,
+        default: 1,
+    },
+    // Set while the product is in the trash; purged for good after the retention period.
+    deletedAt: {
+        type: Date,
+        default: null,
+    },
+    deletedBy: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+    },
 }, { timestamps: true }
 );
 
+// Trashed products are invisible to every query unless it opts in with the
+// `withDeleted` option. Matching `null` also covers documents from before
+// soft deletion existed, which have no `deletedAt` at all.
+ProductSchema.pre(["find", "findOne", "findOneAndUpdate", "countDocuments", "updateOne", "updateMany", "distinct"], function () {
+
+    if (!this.getOptions().withDeleted) this.where({ deletedAt: null });
+
+});
+
+ProductSchema.pre("aggregate", function () {
+
+    if (!this.options.withDeleted) this.pipeline().unshift({ $match: { deletedAt: null } });
+
+});
+
+// Keyset pagination indexes for GET /api/products, one per sort key. MongoDB
+// walks them backwards for descending order, so one direction is enough.
+ProductSchema.index({ author: 1, createdAt: -1, _id: -1 });
+ProductSchema.index({ author: 1, price: 1, _id: 1 });
+ProductSchema.index({ author: 1, title: 1, _id: 1 });
+
+// Low-stock report for sellers.
+ProductSchema.index({ author: 1, stock: 1 });
+
+// Product SKUs are unique per seller, and so are variant SKUs. Products
+// without a SKU or without variants are left out of these indexes.
+ProductSchema.index({ author: 1, sku: 1 }, { unique: true, partialFilterExpression: { sku: { $exists: true } } });
+ProductSchema.index({ author: 1, "variants.sku": 1 }, { unique: true, partialFilterExpression: { "variants.sku": { $exists: true } } });
+
+// Owner trash list, and the purge job looking for expired trash.
+ProductSchema.index({ author: 1, deletedAt: -1, _id: -1 });
+ProductSchema.index({ deletedAt: 1 }, { partialFilterExpression: { deletedAt: { $type: "date" } } });
+
+// Category filters, which match a whole subtree with `$in`.
+ProductSchema.index({ categories: 1, createdAt: -1 });
+
+// Public catalog: browsing newest first, and relevance-ranked full-text search
+// where a title match counts for more than a description match.
+ProductSchema.index({ published: 1, createdAt: -1, _id: -1 });
+ProductSchema.index(
+    { title: "text", description: "text" },
+    { weights: { title: 10, description: 2 }, name: "ProductTextIndex" }
+);
+
+// Responses show every amount as a money object instead of bare minor units.
+ProductSchema.set("toJSON", {
+    transform: (_doc, ret) => {
+
+        const json = ret as unknown as Record<string, unknown>;
+
+        const currency = (json.currency as string | undefined) ?? BASE_CURRENCY;
+
+        const view = (amount: unknown) => typeof amount === "number" ? toMoneyView({ amount, currency }) : amount;
+
+        delete json.amountsInMinorUnits;
+
+        json.price = view(json.price);
+
+        if (Array.isArray(json.prices)) json.prices = json.prices.map((price: Money) => toMoneyView(price));
+
+        if (Array.isArray(json.variants)) {
+
+            json.variants = json.variants.map((variant: Record<string, unknown>) => ({ ...variant, price: view(variant.price) }));
+
+        }
+
+        return json;
+
+    },
+});
+
+// Products created before `published` existed have no such field; the schema
+// default only fills it in on load, so queries must count a missing field as
+// published too.
+export const PUBLISHED_FILTER = { published: { $ne: false } };
+
 const Product: Model<IProduct> = mongoose.models.Product || mongoose.model<IProduct>("Product", ProductSchema);
 
-export default Product;
\ No newline at end of file
+export default Product;
@@ -0,0 +1,99 @@
+import { BASE_CURRENCY, Money, toMoneyView } from "@/lib/money";
+import mongoose, { Schema, Document, Model } from "mongoose";
+import { IPriceOverride } from "./Product";
+
+/**
+ * A superseded version of a product's details, saved whenever an edit
+ * replaces it. Variants, images and stock have their own endpoints and are
+ * not versioned.
+ */
+export interface IProductRevision extends Document {
+    product: mongoose.Types.ObjectId;
+    revision: number;
+    title: string;
+    description: string;
+    sku?: string;
+    price: number;
+    currency: string;
+    prices: IPriceOverride[];
+    published: boolean;
+    categories: mongoose.Types.ObjectId[];
+    // The user whose edit replaced this version.
+    replacedBy: mongoose.Types.ObjectId;
+    createdAt: Date;
+};
+
+const ProductRevisionSchema: Schema<IProductRevision> = new Schema({
+    product: {
+        type: Schema.Types.ObjectId,
+        ref: "Product",
+        required: true,
+    },
+    revision: {
+        type: Number,
+        required: true,
+    },
+    title: {
+        type: String,
+        required: true,
+    },
+    description: {
+        type: String,
+        default: "",
+    },
+    sku: {
+        type: String,
+    },
+    price: {
+        type: Number,
+        required: true,
+    },
+    currency: {
+        type: String,
+        required: true,
+    },
+    prices: [
+        new Schema<IPriceOverride>({
+            currency: String,
+            amount: Number,
+        }, { _id: false }),
+    ],
+    published: {
+        type: Boolean,
+        required: true,
+    },
+    categories: [
+        {
+            type: Schema.Types.ObjectId,
+            ref: "Category",
+        },
+    ],
+    replacedBy: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+    },
+}, { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+ProductRevisionSchema.index({ product: 1, revision: -1 }, { unique: true });
+
+ProductRevisionSchema.set("toJSON", {
+    transform: (_doc, ret) => {
+
+        const json = ret as unknown as Record<string, unknown>;
+
+        const currency = (json.currency as string | undefined) ?? BASE_CURRENCY;
+
+        if (typeof json.price === "number") json.price = toMoneyView({ amount: json.price, currency });
+
+        if (Array.isArray(json.prices)) json.prices = json.prices.map((price: Money) => toMoneyView(price));
+
+        return json;
+
+    },
+});
+
+const ProductRevision: Model<IProductRevision> = mongoose.models.ProductRevision || mongoose.model<IProductRevision>("ProductRevision", ProductRevisionSchema);
+
+export default ProductRevision;
@@ -0,0 +1,54 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export interface ISession extends Document {
+    user: mongoose.Types.ObjectId;
+    tokenHash: string;
+    userAgent?: string;
+    ip?: string;
+    lastUsedAt?: Date;
+    expiresAt: Date;
+    revokedAt?: Date;
+    revokedReason?: string;
+    createdAt: Date;
+    updatedAt: Date;
+};
+
+const SessionSchema: Schema<ISession> = new Schema({
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+        index: true,
+    },
+    tokenHash: {
+        type: String,
+        required: true,
+    },
+    userAgent: {
+        type: String,
+    },
+    ip: {
+        type: String,
+    },
+    lastUsedAt: {
+        type: Date,
+    },
+    expiresAt: {
+        type: Date,
+        required: true,
+    },
+    revokedAt: {
+        type: Date,
+    },
+    revokedReason: {
+        type: String,
+    },
+}, { timestamps: true }
+);
+
+// Let MongoDB drop sessions once their refresh token can no longer be used.
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const Session: Model<ISession> = mongoose.models.Session || mongoose.model<ISession>("Session", SessionSchema);
+
+export default Session;
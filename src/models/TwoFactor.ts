@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+/**
+ * A user's TOTP second factor. Until `enabledAt` is set it only holds the
+ * secret of an enrollment that still has to be confirmed with a code.
+ */
+export interface ITwoFactor extends Document {
+    user: mongoose.Types.ObjectId;
+    secret: string;
+    enabledAt?: Date;
+    recoveryCodeHashes: string[];
+    // The time step of the last accepted code, so a code cannot be replayed.
+    lastUsedStep?: number;
+    createdAt: Date;
+    updatedAt: Date;
+};
+
+const TwoFactorSchema: Schema<ITwoFactor> = new Schema({
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+        unique: true,
+    },
+    secret: {
+        type: String,
+        required: true,
+        select: false,
+    },
+    enabledAt: {
+        type: Date,
+        default: null,
+    },
+    recoveryCodeHashes: {
+        type: [String],
+        default: [],
+        select: false,
+    },
+    lastUsedStep: {
+        type: Number,
+        default: null,
+    },
+}, { timestamps: true }
+);
+
+TwoFactorSchema.set("toJSON", {
+    transform: (_doc, ret) => {
+
+        const json = ret as unknown as Record<string, unknown>;
+
+        delete json.secret;
+
+        delete json.recoveryCodeHashes;
+
+        return json;
+
+    },
+});
+
+const TwoFactor: Model<ITwoFactor> = mongoose.models.TwoFactor || mongoose.model<ITwoFactor>("TwoFactor", TwoFactorSchema);
+
+export default TwoFactor;
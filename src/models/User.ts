@@ -1,10 +1,16 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
 import { IProduct } from "./Product";
 
+export const USER_ROLES = ["customer", "seller", "admin"] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
 export interface IUser extends Document {
     fullname: string;
     email: string;
     password: string;
+    role: UserRole;
+    emailVerified: boolean;
     products: mongoose.Types.ObjectId[] | IProduct[];
     createdAt: Date;
     updatedAt: Date;
@@ -24,6 +30,15 @@ const UserSchema: Schema<IUser> = new Schema({
         type: String,
         required: true,
     },
+    role: {
+        type: String,
+        enum: USER_ROLES,
+        default: "customer",
+    },
+    emailVerified: {
+        type: Boolean,
+        default: false,
+    },
     products: [
         {
             type: Schema.Types.ObjectId,
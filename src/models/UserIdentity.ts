@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+/** An account at an external OpenID Connect provider that signs in as a user. */
+export interface IUserIdentity extends Document {
+    user: mongoose.Types.ObjectId;
+    provider: string;
+    // The provider's stable id of the account, the `sub` claim.
+    subject: string;
+    email?: string;
+    lastLoginAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+};
+
+const UserIdentitySchema: Schema<IUserIdentity> = new Schema({
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+        index: true,
+    },
+    provider: {
+        type: String,
+        required: true,
+    },
+    subject: {
+        type: String,
+        required: true,
+    },
+    email: {
+        type: String,
+    },
+    lastLoginAt: {
+        type: Date,
+    },
+}, { timestamps: true }
+);
+
+UserIdentitySchema.index({ provider: 1, subject: 1 }, { unique: true });
+
+const UserIdentity: Model<IUserIdentity> = mongoose.models.UserIdentity || mongoose.model<IUserIdentity>("UserIdentity", UserIdentitySchema);
+
+export default UserIdentity;
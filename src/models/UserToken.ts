@@ -0,0 +1,54 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export const USER_TOKEN_PURPOSES = ["email_verification", "password_reset", "login_challenge"] as const;
+
+export type UserTokenPurpose = typeof USER_TOKEN_PURPOSES[number];
+
+export interface IUserToken extends Document {
+    user: mongoose.Types.ObjectId;
+    purpose: UserTokenPurpose;
+    tokenHash: string;
+    email?: string;
+    expiresAt: Date;
+    usedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+};
+
+const UserTokenSchema: Schema<IUserToken> = new Schema({
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+    },
+    purpose: {
+        type: String,
+        enum: USER_TOKEN_PURPOSES,
+        required: true,
+    },
+    tokenHash: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    // The address an email verification or password reset token was sent to,
+    // so an old link cannot mark a since-changed address as verified.
+    email: {
+        type: String,
+    },
+    expiresAt: {
+        type: Date,
+        required: true,
+    },
+    usedAt: {
+        type: Date,
+    },
+}, { timestamps: true }
+);
+
+UserTokenSchema.index({ user: 1, purpose: 1 });
+UserTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const UserToken: Model<IUserToken> = mongoose.models.UserToken || mongoose.model<IUserToken>("UserToken", UserTokenSchema);
+
+export default UserToken;
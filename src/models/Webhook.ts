@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export const WEBHOOK_EVENTS = [
+    "product.created",
+    "product.updated",
+    "product.deleted",
+    "product.restored",
+    "product.purged",
+    "account.updated",
+    "account.password_changed",
+    "account.email_verified",
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export interface IWebhook extends Document {
+    user: mongoose.Types.ObjectId;
+    url: string;
+    events: WebhookEvent[];
+    description: string;
+    // Signs deliveries, so unlike tokens it is kept as it is, and only shown once.
+    secret: string;
+    active: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+};
+
+const WebhookSchema: Schema<IWebhook> = new Schema({
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+    },
+    url: {
+        type: String,
+        required: true,
+    },
+    events: {
+        type: [{ type: String, enum: WEBHOOK_EVENTS }],
+        required: true,
+    },
+    description: {
+        type: String,
+        default: "",
+    },
+    secret: {
+        type: String,
+        required: true,
+        select: false,
+    },
+    active: {
+        type: Boolean,
+        default: true,
+    },
+}, { timestamps: true }
+);
+
+WebhookSchema.index({ user: 1, events: 1 });
+
+WebhookSchema.set("toJSON", {
+    transform: (_doc, ret) => {
+
+        const json = ret as unknown as Record<string, unknown>;
+
+        delete json.secret;
+
+        return json;
+
+    },
+});
+
+const Webhook: Model<IWebhook> = mongoose.models.Webhook || mongoose.model<IWebhook>("Webhook", WebhookSchema);
+
+export default Webhook;
@@ -0,0 +1,83 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "succeeded", "failed"] as const;
+
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+export interface IWebhookAttempt {
+    at: Date;
+    responseStatus?: number;
+    responseBody?: string;
+    error?: string;
+    durationMs: number;
+};
+
+/**
+ * One event sent to one webhook, with every attempt made so far. Pending
+ * deliveries are retried from `nextAttemptAt` until they succeed or run out
+ * of attempts.
+ */
+export interface IWebhookDelivery extends Document {
+    webhook: mongoose.Types.ObjectId;
+    // Shared by the deliveries of one event to different webhooks.
+    eventId: string;
+    event: string;
+    payload: Record<string, unknown>;
+    status: WebhookDeliveryStatus;
+    attempts: IWebhookAttempt[];
+    nextAttemptAt?: Date;
+    deliveredAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+};
+
+const DELIVERY_RETENTION_DAYS = 30;
+
+const WebhookDeliverySchema: Schema<IWebhookDelivery> = new Schema({
+    webhook: {
+        type: Schema.Types.ObjectId,
+        ref: "Webhook",
+        required: true,
+    },
+    eventId: {
+        type: String,
+        required: true,
+    },
+    event: {
+        type: String,
+        required: true,
+    },
+    payload: {
+        type: Schema.Types.Mixed,
+        required: true,
+    },
+    status: {
+        type: String,
+        enum: WEBHOOK_DELIVERY_STATUSES,
+        default: "pending",
+    },
+    attempts: [
+        new Schema<IWebhookAttempt>({
+            at: { type: Date, required: true },
+            responseStatus: Number,
+            responseBody: String,
+            error: String,
+            durationMs: { type: Number, required: true },
+        }, { _id: false }),
+    ],
+    nextAttemptAt: {
+        type: Date,
+    },
+    deliveredAt: {
+        type: Date,
+    },
+}, { timestamps: true }
+);
+
+WebhookDeliverySchema.index({ webhook: 1, createdAt: -1, _id: -1 });
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: DELIVERY_RETENTION_DAYS * 24 * 60 * 60 });
+
+const WebhookDelivery: Model<IWebhookDelivery> = mongoose.models.WebhookDelivery || mongoose.model<IWebhookDelivery>("WebhookDelivery", WebhookDeliverySchema);
+
+export default WebhookDelivery;
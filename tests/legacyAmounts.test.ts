@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import mongoose, { ClientSession } from "mongoose";
+import { convertLegacyAmounts } from "@/lib/legacyAmounts";
+import { updateProduct } from "@/lib/products";
+import { ApiError } from "@/lib/errors";
+import Product, { IProduct } from "@/models/Product";
+import ProductRevision from "@/models/ProductRevision";
+import Order from "@/models/Order";
+
+const editorId = new mongoose.Types.ObjectId().toString();
+
+const variantId = new mongoose.Types.ObjectId();
+
+// A product as it was stored before amounts became minor units: 199.90 SEK, with a variant at 249.50.
+const legacyProduct = (): Record<string, unknown> => ({
+    _id: new mongoose.Types.ObjectId(),
+    title: "Linen shirt",
+    description: "Washed linen",
+    price: 199.9,
+    currency: "SEK",
+    stock: 0,
+    variants: [{ _id: variantId, sku: "SHIRT-M", size: "M", price: 249.5, stock: 4 }],
+    author: new mongoose.Types.ObjectId(),
+    revision: 1,
+    deletedAt: null
+});
+
+/** Stands in for `Model.find(...)...cursor()` over `docs`. */
+const findReturning = (docs: unknown[]) => {
+
+    const chain = {
+        setOptions: () => chain,
+        select: () => chain,
+        lean: () => chain,
+        cursor: () => docs.values()
+    };
+
+    return chain as unknown as ReturnType<typeof Product.find>;
+
+};
+
+/** Applies a conversion's `$set` to a stored product, resolving the variant array filters by id. */
+const applyConversion = (stored: Record<string, unknown>, update: { $set: Record<string, unknown> }, arrayFilters: Record<string, unknown>[]) => {
+
+    const converted: Record<string, unknown> & { variants: Record<string, unknown>[] } = { ...stored, variants: (stored.variants as Record<string, unknown>[]).map((variant) => ({ ...variant })) };
+
+    for (const [path, value] of Object.entries(update.$set)) {
+
+        const match = /^variants\.\$\[(v\d+)\]\.price$/.exec(path);
+
+        if (!match) {
+
+            converted[path] = value;
+
+            continue;
+
+        }
+
+        const filter = arrayFilters.find((candidate) => `${match[1]}._id` in candidate) ?? {};
+
+        const variant = converted.variants.find(({ _id }) => String(_id) === String(filter[`${match[1]}._id`]));
+
+        if (variant) variant.price = value as number;
+
+    }
+
+    return converted;
+
+};
+
+afterEach(() => {
+
+    vi.restoreAllMocks();
+
+});
+
+describe("legacy products", () => {
+
+    it("are not marked as converted when they are loaded and saved", () => {
+
+        const product = Product.hydrate(legacyProduct());
+
+        expect(product.amountsInMinorUnits).toBeUndefined();
+
+        product.set({ stock: 3 });
+
+        // Mongoose writes the defaults it filled in on load along with the change; the flag must not be one of them.
+        const { $set } = product.getChanges();
+
+        expect($set).toMatchObject({ stock: 3 });
+
+        expect($set).not.toHaveProperty("amountsInMinorUnits");
+
+    });
+
+    it("cannot be edited until converted, and are converted and editable afterwards", async () => {
+
+        let stored = legacyProduct();
+
+        const edit = updateProduct(Product.hydrate(stored) as IProduct, { price: 22900 }, editorId);
+
+        const error = await edit.catch((caught: unknown) => caught);
+
+        expect(error).toBeInstanceOf(ApiError);
+
+        expect((error as ApiError).status).toBe(409);
+
+        // The refused edit leaves the stored product untouched, so the conversion still finds it.
+        vi.spyOn(Product, "find").mockImplementation(((filter: Record<string, { $exists?: boolean }>) => {
+
+            return findReturning(filter.amountsInMinorUnits?.$exists === false && stored.amountsInMinorUnits === undefined ? [stored] : []);
+
+        }) as unknown as typeof Product.find);
+
+        vi.spyOn(Order, "find").mockReturnValue(findReturning([]) as unknown as ReturnType<typeof Order.find>);
+
+        const updateOne = vi.spyOn(Product, "updateOne").mockImplementation(((_filter: unknown, update: { $set: Record<string, unknown> }, options: { arrayFilters: Record<string, unknown>[] }) => {
+
+            stored = applyConversion(stored, update, options.arrayFilters);
+
+            return { setOptions: async () => ({ modifiedCount: 1 }) };
+
+        }) as unknown as typeof Product.updateOne);
+
+        expect(await convertLegacyAmounts()).toEqual({ productsConverted: 1, ordersConverted: 0 });
+
+        expect(updateOne).toHaveBeenCalledTimes(1);
+
+        expect(stored).toMatchObject({ price: 19990, amountsInMinorUnits: true, variants: [{ price: 24950 }] });
+
+        expect(await convertLegacyAmounts()).toEqual({ productsConverted: 0, ordersConverted: 0 });
+
+        // Once converted, the edit goes through.
+        vi.spyOn(ProductRevision, "create").mockResolvedValue([] as never);
+
+        const product = Product.hydrate(stored) as IProduct;
+
+        vi.spyOn(product, "save").mockResolvedValue(product);
+
+        const saved = await updateProduct(product, { price: 22900 }, editorId, {} as ClientSession);
+
+        expect(saved.price).toBe(22900);
+
+        expect(saved.amountsInMinorUnits).toBe(true);
+
+    });
+
+});
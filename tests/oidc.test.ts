@@ -0,0 +1,282 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { NextRequest } from "next/server";
+import { startMockIdentityProvider, MockIdentityProvider } from "./support/mockIdentityProvider";
+import { models } from "./support/models";
+import { ApiError } from "@/lib/errors";
+
+const PROVIDER_ID = "mock";
+
+const CLIENT_ID = "xyfora-test-client";
+
+const REDIRECT_URI = "http://localhost:3000/auth/oidc/mock/callback";
+
+let idp: MockIdentityProvider;
+
+let oidc: typeof import("@/lib/oidc");
+
+let callback: typeof import("@/app/api/auth/oidc/[provider]/callback/route");
+
+/** Starts a sign-in and returns what the provider would redirect back with, using `claims` for the ID token. */
+const signIn = async (claims: Record<string, unknown> = {}): Promise<{ code: string; state: string; nonce: string }> => {
+
+    const { authorizationUrl } = await oidc.startOidcLogin(oidc.getProvider(PROVIDER_ID));
+
+    const params = new URL(authorizationUrl).searchParams;
+
+    const nonce = params.get("nonce") ?? "";
+
+    const code = idp.createCode({ nonce, codeChallenge: params.get("code_challenge") ?? "", claims });
+
+    return { code, state: params.get("state") ?? "", nonce };
+
+};
+
+const complete = async (claims: Record<string, unknown> = {}) => {
+
+    const { code, state } = await signIn(claims);
+
+    return oidc.completeOidcLogin(oidc.getProvider(PROVIDER_ID), code, state);
+
+};
+
+const expectApiError = async (promise: Promise<unknown>, status: number): Promise<void> => {
+
+    const error = await promise.catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ApiError);
+
+    expect((error as ApiError).status).toBe(status);
+
+};
+
+const postCallback = async (body: { code: string; state: string }) => {
+
+    const req = new NextRequest(`http://localhost:3000/api/auth/oidc/${PROVIDER_ID}/callback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Forwarded-For": "203.0.113.7" },
+        body: JSON.stringify(body)
+    });
+
+    const res = await callback.POST(req, { params: Promise.resolve({ provider: PROVIDER_ID }) });
+
+    return { status: res.status, body: await res.json() };
+
+};
+
+beforeAll(async () => {
+
+    idp = await startMockIdentityProvider({ clientId: CLIENT_ID, redirectUri: REDIRECT_URI });
+
+    // Providers are read when the module loads, so it is imported only once the provider is listening.
+    process.env.OIDC_PROVIDERS = JSON.stringify({ [PROVIDER_ID]: { name: "Mock", issuer: idp.issuer, clientId: CLIENT_ID, redirectUri: REDIRECT_URI } });
+
+    oidc = await import("@/lib/oidc");
+
+    callback = await import("@/app/api/auth/oidc/[provider]/callback/route");
+
+});
+
+afterAll(async () => {
+
+    await idp.close();
+
+});
+
+describe("sign-in state", () => {
+
+    it("accepts a state only once", async () => {
+
+        const { code, state } = await signIn();
+
+        const provider = oidc.getProvider(PROVIDER_ID);
+
+        await oidc.completeOidcLogin(provider, code, state);
+
+        await expectApiError(oidc.completeOidcLogin(provider, code, state), 400);
+
+    });
+
+    it("rejects an expired state", async () => {
+
+        const { code, state } = await signIn();
+
+        models.OidcAuthRequest.docs[0].expiresAt = new Date(Date.now() - 1000);
+
+        await expectApiError(oidc.completeOidcLogin(oidc.getProvider(PROVIDER_ID), code, state), 400);
+
+    });
+
+    it("rejects an unknown state", async () => {
+
+        const { code } = await signIn();
+
+        await expectApiError(oidc.completeOidcLogin(oidc.getProvider(PROVIDER_ID), code, "not-a-state"), 400);
+
+    });
+
+});
+
+describe("ID token checks", () => {
+
+    it("rejects a token issued for another nonce", async () => {
+
+        await expectApiError(complete({ nonce: "someone-elses-nonce" }), 401);
+
+    });
+
+    it("rejects a token from another issuer", async () => {
+
+        await expectApiError(complete({ iss: "https://attacker.example.com" }), 401);
+
+    });
+
+    it("rejects a token for another audience", async () => {
+
+        await expectApiError(complete({ aud: "another-client" }), 401);
+
+    });
+
+    it("rejects an expired token", async () => {
+
+        await expectApiError(complete({ exp: Math.floor(Date.now() / 1000) - 600 }), 401);
+
+    });
+
+    it("refuses an email address the provider has not verified", async () => {
+
+        await expectApiError(complete({ email_verified: false }), 403);
+
+        expect(models.User.docs).toHaveLength(0);
+
+    });
+
+});
+
+describe("resolving the user", () => {
+
+    it("creates a customer account for a new email address", async () => {
+
+        const { user, created, linked } = await complete({ email: "new@example.com", name: "New Customer" });
+
+        expect(created).toBe(true);
+
+        expect(linked).toBe(true);
+
+        expect(user).toMatchObject({ email: "new@example.com", fullname: "New Customer", role: "customer", emailVerified: true });
+
+    });
+
+    it("links a verified email address to the existing account, then signs in through the link", async () => {
+
+        const existing = await models.User.create({ fullname: "Existing", email: "existing@example.com", password: "hash", emailVerified: true });
+
+        const first = await complete({ sub: "subject-1", email: "existing@example.com" });
+
+        expect(first).toMatchObject({ created: false, linked: true });
+
+        expect(first.user._id.toString()).toBe(existing._id.toString());
+
+        expect(first.user.password).toBe("hash");
+
+        // The email the provider reports no longer matters once the account is linked.
+        const second = await complete({ sub: "subject-1", email: "changed@example.com" });
+
+        expect(second).toMatchObject({ created: false, linked: false });
+
+        expect(second.user._id.toString()).toBe(existing._id.toString());
+
+        expect(models.UserIdentity.docs).toHaveLength(1);
+
+    });
+
+    it("takes over an unverified account, signing out whoever registered it", async () => {
+
+        const existing = await models.User.create({ fullname: "Squatter", email: "victim@example.com", password: "hash", emailVerified: false });
+
+        await models.Session.create({ user: existing._id, expiresAt: new Date(Date.now() + 60_000) });
+
+        await models.ApiKey.create({ user: existing._id });
+
+        const { user, linked } = await complete({ email: "victim@example.com" });
+
+        expect(linked).toBe(true);
+
+        expect(user.emailVerified).toBe(true);
+
+        expect(user.password).not.toBe("hash");
+
+        expect(models.Session.docs[0].revokedAt).toBeInstanceOf(Date);
+
+        expect(models.ApiKey.docs[0].revokedAt).toBeInstanceOf(Date);
+
+    });
+
+});
+
+describe("POST /api/auth/oidc/{provider}/callback", () => {
+
+    it("returns tokens for an account without two-factor authentication", async () => {
+
+        const { code, state } = await signIn({ email: "plain@example.com" });
+
+        const { status, body } = await postCallback({ code, state });
+
+        expect(status).toBe(200);
+
+        expect(body).toMatchObject({ email: "plain@example.com", created: true });
+
+        expect(typeof body.token).toBe("string");
+
+        expect(typeof body.refreshToken).toBe("string");
+
+        expect(models.Session.docs).toHaveLength(1);
+
+    });
+
+    it("returns a login challenge instead of tokens when two-factor authentication is enabled", async () => {
+
+        const existing = await models.User.create({ fullname: "Careful", email: "careful@example.com", password: "hash", emailVerified: true });
+
+        await models.TwoFactor.create({ user: existing._id, secret: "JBSWY3DPEHPK3PXP", enabledAt: new Date() });
+
+        const { code, state } = await signIn({ email: "careful@example.com" });
+
+        const { status, body } = await postCallback({ code, state });
+
+        expect(status).toBe(200);
+
+        expect(body).toEqual({ twoFactorRequired: true, challengeToken: expect.any(String) });
+
+        expect(models.Session.docs).toHaveLength(0);
+
+        expect(models.UserToken.docs).toHaveLength(1);
+
+        expect(models.UserToken.docs[0]).toMatchObject({ purpose: "login_challenge" });
+
+        expect(String(models.UserToken.docs[0].user)).toBe(existing._id.toString());
+
+    });
+
+    it("drops the previous registrant's two-factor enrollment when taking over an unverified account", async () => {
+
+        const existing = await models.User.create({ fullname: "Squatter", email: "victim@example.com", password: "hash", emailVerified: false });
+
+        await models.TwoFactor.create({ user: existing._id, secret: "JBSWY3DPEHPK3PXP", enabledAt: new Date() });
+
+        const { code, state } = await signIn({ email: "victim@example.com" });
+
+        const { status, body } = await postCallback({ code, state });
+
+        expect(status).toBe(200);
+
+        expect(body).toMatchObject({ id: existing._id.toString(), emailVerified: true, created: false });
+
+        expect(body.twoFactorRequired).toBeUndefined();
+
+        expect(typeof body.token).toBe("string");
+
+        expect(models.TwoFactor.docs).toHaveLength(0);
+
+    });
+
+});
@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/auth/password/forgot/route";
+import { MemoryRateLimitStore, setRateLimitStore } from "@/lib/rateLimit";
+import { setMailTransport } from "@/lib/mailer";
+import { models } from "./support/models";
+
+const forgot = async (email: string) => {
+
+    const res = await POST(new NextRequest("http://localhost:3000/api/auth/password/forgot", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Forwarded-For": "203.0.113.7" },
+        body: JSON.stringify({ email })
+    }), undefined);
+
+    return { status: res.status, body: await res.json() };
+
+};
+
+beforeEach(() => {
+
+    setRateLimitStore(new MemoryRateLimitStore());
+
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+});
+
+describe("POST /api/auth/password/forgot", () => {
+
+    it("answers the same for registered and unknown addresses when sending fails", async () => {
+
+        setMailTransport({ send: async () => { throw new Error("SMTP is down"); } });
+
+        await models.User.create({ fullname: "Known", email: "known@example.com", password: "hash" });
+
+        const known = await forgot("known@example.com");
+
+        const unknown = await forgot("unknown@example.com");
+
+        expect(known.status).toBe(200);
+
+        expect(known).toEqual(unknown);
+
+    });
+
+});
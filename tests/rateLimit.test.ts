@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemoryRateLimitStore, rateLimitByIp, setRateLimitStore } from "@/lib/rateLimit";
+import { getClientIp } from "@/lib/request";
+import { ApiError } from "@/lib/errors";
+
+const RULE = { name: "test", limit: 2, windowMs: 60_000 };
+
+const request = (headers: Record<string, string> = {}): Request => new Request("http://localhost:3000/api/auth/login", { method: "POST", headers });
+
+const hit = async (headers: Record<string, string>): Promise<number | null> => {
+
+    try {
+
+        await rateLimitByIp(request(headers), RULE);
+
+        return null;
+
+    } catch (error) {
+
+        return (error as ApiError).status;
+
+    }
+
+};
+
+beforeEach(() => {
+
+    setRateLimitStore(new MemoryRateLimitStore());
+
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+});
+
+afterEach(() => {
+
+    vi.unstubAllEnvs();
+
+    vi.restoreAllMocks();
+
+});
+
+describe("getClientIp", () => {
+
+    it("takes the entry appended by the trusted proxy, not what the client sent", () => {
+
+        expect(getClientIp(request({ "X-Forwarded-For": "1.2.3.4, 203.0.113.7" }))).toBe("203.0.113.7");
+
+    });
+
+    it("counts trusted hops from the end", () => {
+
+        vi.stubEnv("TRUSTED_PROXY_HOPS", "2");
+
+        expect(getClientIp(request({ "X-Forwarded-For": "1.2.3.4, 203.0.113.7, 10.0.0.2" }))).toBe("203.0.113.7");
+
+    });
+
+    it("knows no IP without a trusted proxy", () => {
+
+        vi.stubEnv("TRUSTED_PROXY_HOPS", "0");
+
+        expect(getClientIp(request({ "X-Forwarded-For": "203.0.113.7" }))).toBeUndefined();
+
+    });
+
+});
+
+describe("rateLimitByIp", () => {
+
+    it("limits each client IP separately", async () => {
+
+        const results = [];
+
+        for (const ip of ["203.0.113.7", "203.0.113.7", "203.0.113.7", "203.0.113.8"]) results.push(await hit({ "X-Forwarded-For": ip }));
+
+        expect(results).toEqual([null, null, 429, null]);
+
+    });
+
+    it("does not put clients without a known IP into one shared bucket", async () => {
+
+        vi.stubEnv("TRUSTED_PROXY_HOPS", "0");
+
+        const results = [];
+
+        for (let i = 0; i < RULE.limit + 3; i++) results.push(await hit({ "X-Forwarded-For": `203.0.113.${i}` }));
+
+        expect(results.every((status) => status === null)).toBe(true);
+
+    });
+
+});
@@ -0,0 +1,20 @@
+import { afterEach, vi } from "vitest";
+import { resetModels } from "./support/models";
+
+// There is no MongoDB in the test environment, so the models the tests touch
+// are swapped for in-memory ones and connecting is a no-op.
+vi.mock("@/lib/mongoose", async (importOriginal) => ({
+    ...await importOriginal<typeof import("@/lib/mongoose")>(),
+    connectDB: async () => undefined
+}));
+
+vi.mock("@/models/User", async (importOriginal) => ({ ...await importOriginal<object>(), default: (await import("./support/models")).models.User }));
+vi.mock("@/models/UserIdentity", async (importOriginal) => ({ ...await importOriginal<object>(), default: (await import("./support/models")).models.UserIdentity }));
+vi.mock("@/models/OidcAuthRequest", async (importOriginal) => ({ ...await importOriginal<object>(), default: (await import("./support/models")).models.OidcAuthRequest }));
+vi.mock("@/models/Session", async (importOriginal) => ({ ...await importOriginal<object>(), default: (await import("./support/models")).models.Session }));
+vi.mock("@/models/ApiKey", async (importOriginal) => ({ ...await importOriginal<object>(), default: (await import("./support/models")).models.ApiKey }));
+vi.mock("@/models/TwoFactor", async (importOriginal) => ({ ...await importOriginal<object>(), default: (await import("./support/models")).models.TwoFactor }));
+vi.mock("@/models/UserToken", async (importOriginal) => ({ ...await importOriginal<object>(), default: (await import("./support/models")).models.UserToken }));
+vi.mock("@/models/AuditEvent", async (importOriginal) => ({ ...await importOriginal<object>(), default: (await import("./support/models")).models.AuditEvent }));
+
+afterEach(() => resetModels());
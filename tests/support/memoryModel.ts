@@ -0,0 +1,212 @@
+import mongoose from "mongoose";
+
+type Doc = Record<string, unknown> & { _id: mongoose.Types.ObjectId };
+
+type Filter = Record<string, unknown>;
+
+/** A query stand-in: awaitable, and ignoring the modifiers the code under test chains on. */
+type FakeQuery<T> = PromiseLike<T> & {
+    select(): FakeQuery<T>;
+    setOptions(): FakeQuery<T>;
+    lean(): FakeQuery<T>;
+    session(): FakeQuery<T>;
+};
+
+const query = <T>(run: () => T): FakeQuery<T> => {
+
+    const fake: FakeQuery<T> = {
+        select: () => fake,
+        setOptions: () => fake,
+        lean: () => fake,
+        session: () => fake,
+        then: (resolve, reject) => Promise.resolve().then(run).then(resolve, reject)
+    };
+
+    return fake;
+
+};
+
+const isOperatorObject = (value: unknown): value is Record<string, unknown> => {
+
+    return typeof value === "object" && value !== null && !(value instanceof Date) && !(value instanceof mongoose.Types.ObjectId)
+        && Object.keys(value).some((key) => key.startsWith("$"));
+
+};
+
+// ObjectIds and strings compare by their hex value, dates by their time.
+const comparable = (value: unknown): unknown => value instanceof Date ? value.getTime() : value instanceof mongoose.Types.ObjectId ? value.toString() : value;
+
+const equals = (actual: unknown, expected: unknown): boolean => {
+
+    if (expected === null || expected === undefined) return actual === null || actual === undefined;
+
+    if (Array.isArray(actual)) return actual.some((item) => equals(item, expected));
+
+    return comparable(actual) === comparable(expected);
+
+};
+
+const matchesCondition = (actual: unknown, condition: unknown): boolean => {
+
+    if (!isOperatorObject(condition)) return equals(actual, condition);
+
+    return Object.entries(condition).every(([operator, operand]) => {
+
+        switch (operator) {
+
+            case "$ne": return !equals(actual, operand);
+
+            case "$exists": return (actual !== undefined) === operand;
+
+            case "$in": return (operand as unknown[]).some((value) => equals(actual, value));
+
+            case "$gt": return actual !== null && actual !== undefined && (comparable(actual) as number) > (comparable(operand) as number);
+
+            case "$gte": return actual !== null && actual !== undefined && (comparable(actual) as number) >= (comparable(operand) as number);
+
+            case "$lt": return actual !== null && actual !== undefined && (comparable(actual) as number) < (comparable(operand) as number);
+
+            case "$lte": return actual !== null && actual !== undefined && (comparable(actual) as number) <= (comparable(operand) as number);
+
+            default: throw new Error(`memoryModel does not support ${operator}`);
+
+        }
+
+    });
+
+};
+
+const matches = (doc: Doc, filter: Filter): boolean => {
+
+    return Object.entries(filter).every(([key, condition]) => {
+
+        if (key === "$or") return (condition as Filter[]).some((branch) => matches(doc, branch));
+
+        return matchesCondition(doc[key], condition);
+
+    });
+
+};
+
+const applyUpdate = (doc: Doc, update: Filter): void => {
+
+    const { $set, $pull, ...plain } = update as { $set?: Filter; $pull?: Filter } & Filter;
+
+    Object.assign(doc, plain, $set);
+
+    for (const [key, value] of Object.entries($pull ?? {})) {
+
+        if (Array.isArray(doc[key])) doc[key] = (doc[key] as unknown[]).filter((item) => !equals(item, value));
+
+    }
+
+};
+
+/**
+ * An in-memory stand-in for a mongoose model, covering the calls the auth
+ * code makes. Filters support equality and the operators above; `unique`
+ * lists field groups that behave like unique indexes.
+ */
+export const memoryModel = ({ defaults = () => ({}), unique = [] }: { defaults?: () => Filter; unique?: string[][] } = {}) => {
+
+    const docs: Doc[] = [];
+
+    const assertUnique = (candidate: Doc): void => {
+
+        for (const fields of unique) {
+
+            const clash = docs.some((doc) => doc !== candidate && fields.every((field) => equals(doc[field], candidate[field])));
+
+            if (clash) throw Object.assign(new Error(`E11000 duplicate key on ${fields.join(", ")}`), { code: 11000 });
+
+        }
+
+    };
+
+    const toDoc = (data: Filter): Doc => {
+
+        const doc = { _id: new mongoose.Types.ObjectId(), ...defaults(), ...data } as Doc;
+
+        Object.defineProperties(doc, {
+            save: {
+                value: async () => {
+
+                    assertUnique(doc);
+
+                    if (!docs.includes(doc)) docs.push(doc);
+
+                    return doc;
+
+                }
+            },
+            deleteOne: { value: async () => void docs.splice(docs.indexOf(doc), 1) },
+            toJSON: { value: () => ({ ...doc }) }
+        });
+
+        return doc;
+
+    };
+
+    const find = (filter: Filter): Doc | null => docs.find((doc) => matches(doc, filter)) ?? null;
+
+    const update = (filter: Filter, changes: Filter, many: boolean) => {
+
+        const targets = many ? docs.filter((doc) => matches(doc, filter)) : [find(filter)].filter((doc): doc is Doc => doc !== null);
+
+        targets.forEach((doc) => applyUpdate(doc, changes));
+
+        return { matchedCount: targets.length, modifiedCount: targets.length };
+
+    };
+
+    return {
+        docs,
+        reset: (): void => void docs.splice(0),
+        create: async (data: Filter): Promise<Doc> => {
+
+            const doc = toDoc(data);
+
+            assertUnique(doc);
+
+            docs.push(doc);
+
+            return doc;
+
+        },
+        findOne: (filter: Filter) => query(() => find(filter)),
+        findById: (id: unknown) => query(() => find({ _id: id })),
+        exists: (filter: Filter) => query(() => find(filter) && { _id: find(filter)?._id }),
+        findOneAndDelete: (filter: Filter) => query(() => {
+
+            const doc = find(filter);
+
+            if (doc) docs.splice(docs.indexOf(doc), 1);
+
+            return doc;
+
+        }),
+        updateOne: (filter: Filter, changes: Filter) => query(() => update(filter, changes, false)),
+        updateMany: (filter: Filter, changes: Filter) => query(() => update(filter, changes, true)),
+        deleteOne: (filter: Filter) => query(() => {
+
+            const doc = find(filter);
+
+            if (doc) docs.splice(docs.indexOf(doc), 1);
+
+            return { deletedCount: doc ? 1 : 0 };
+
+        }),
+        deleteMany: (filter: Filter) => query(() => {
+
+            const doomed = docs.filter((doc) => matches(doc, filter));
+
+            doomed.forEach((doc) => docs.splice(docs.indexOf(doc), 1));
+
+            return { deletedCount: doomed.length };
+
+        })
+    };
+
+};
+
+export type MemoryModel = ReturnType<typeof memoryModel>;
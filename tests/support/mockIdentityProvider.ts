@@ -0,0 +1,138 @@
+import http from "http";
+import crypto from "crypto";
+import { AddressInfo } from "net";
+import jwt from "jsonwebtoken";
+
+export type MockIdentityProvider = {
+    issuer: string;
+    clientId: string;
+    /**
+     * Registers an authorization code the way the provider would after the
+     * user signed in, for the nonce and PKCE challenge of the authorization
+     * URL. `claims` override the ID token's defaults, e.g. the issuer.
+     */
+    createCode: (options: { nonce: string; codeChallenge: string; claims?: Record<string, unknown> }) => string;
+    close: () => Promise<void>;
+};
+
+type PendingCode = {
+    codeChallenge: string;
+    claims: Record<string, unknown>;
+};
+
+const KEY_ID = "mock-key-1";
+
+const readForm = async (req: http.IncomingMessage): Promise<URLSearchParams> => {
+
+    let body = "";
+
+    for await (const chunk of req) body += chunk;
+
+    return new URLSearchParams(body);
+
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown): void => {
+
+    res.writeHead(status, { "Content-Type": "application/json" });
+
+    res.end(JSON.stringify(body));
+
+};
+
+/**
+ * An OpenID Connect provider on a local port: discovery, a JWKS with one RSA
+ * key, and a token endpoint that checks the PKCE verifier and redirect URI
+ * before answering with an RS256 ID token. Every code can be redeemed once.
+ */
+export const startMockIdentityProvider = async ({ clientId, redirectUri }: { clientId: string; redirectUri: string }): Promise<MockIdentityProvider> => {
+
+    const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+    const jwk = { ...publicKey.export({ format: "jwk" }), kid: KEY_ID, use: "sig", alg: "RS256" };
+
+    const codes = new Map<string, PendingCode>();
+
+    let issuer = "";
+
+    const server = http.createServer(async (req, res) => {
+
+        const { pathname } = new URL(req.url ?? "/", issuer);
+
+        if (req.method === "GET" && pathname === "/.well-known/openid-configuration") {
+
+            return sendJson(res, 200, {
+                issuer,
+                authorization_endpoint: `${issuer}/authorize`,
+                token_endpoint: `${issuer}/token`,
+                jwks_uri: `${issuer}/jwks`,
+                id_token_signing_alg_values_supported: ["RS256"]
+            });
+
+        }
+
+        if (req.method === "GET" && pathname === "/jwks") return sendJson(res, 200, { keys: [jwk] });
+
+        if (req.method === "POST" && pathname === "/token") {
+
+            const form = await readForm(req);
+
+            const pending = codes.get(form.get("code") ?? "");
+
+            codes.delete(form.get("code") ?? "");
+
+            const challenge = crypto.createHash("sha256").update(form.get("code_verifier") ?? "").digest("base64url");
+
+            if (!pending || form.get("grant_type") !== "authorization_code" || form.get("client_id") !== clientId
+                || form.get("redirect_uri") !== redirectUri || challenge !== pending.codeChallenge) {
+
+                return sendJson(res, 400, { error: "invalid_grant" });
+
+            }
+
+            const idToken = jwt.sign(pending.claims, privateKey, { algorithm: "RS256", keyid: KEY_ID });
+
+            return sendJson(res, 200, { access_token: crypto.randomBytes(16).toString("hex"), token_type: "Bearer", id_token: idToken });
+
+        }
+
+        sendJson(res, 404, { error: "not_found" });
+
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        issuer,
+        clientId,
+        createCode: ({ nonce, codeChallenge, claims = {} }) => {
+
+            const code = crypto.randomBytes(16).toString("hex");
+
+            const now = Math.floor(Date.now() / 1000);
+
+            codes.set(code, {
+                codeChallenge,
+                claims: {
+                    iss: issuer,
+                    aud: clientId,
+                    sub: crypto.randomUUID(),
+                    email: "oidc.user@example.com",
+                    email_verified: true,
+                    name: "OIDC User",
+                    nonce,
+                    iat: now,
+                    exp: now + 300,
+                    ...claims
+                }
+            });
+
+            return code;
+
+        },
+        close: () => new Promise((resolve, reject) => server.close((error) => error ? reject(error) : resolve()))
+    };
+
+};
@@ -0,0 +1,15 @@
+import { memoryModel } from "./memoryModel";
+
+/** The in-memory models `tests/setup.ts` puts in place of the mongoose ones. */
+export const models = {
+    User: memoryModel({ defaults: () => ({ role: "customer", emailVerified: false }), unique: [["email"]] }),
+    UserIdentity: memoryModel({ unique: [["provider", "subject"]] }),
+    OidcAuthRequest: memoryModel({ unique: [["stateHash"]] }),
+    Session: memoryModel({ defaults: () => ({ revokedAt: null }) }),
+    ApiKey: memoryModel({ defaults: () => ({ revokedAt: null }) }),
+    TwoFactor: memoryModel({ defaults: () => ({ enabledAt: null, recoveryCodeHashes: [], lastUsedStep: null }), unique: [["user"]] }),
+    UserToken: memoryModel({ defaults: () => ({ usedAt: null }), unique: [["tokenHash"]] }),
+    AuditEvent: memoryModel()
+};
+
+export const resetModels = (): void => Object.values(models).forEach((model) => model.reset());
@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+import { fileURLToPath } from "url";
+
+export default defineConfig({
+    resolve: {
+        alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) }
+    },
+    test: {
+        environment: "node",
+        include: ["tests/**/*.test.ts"],
+        setupFiles: ["tests/setup.ts"],
+        env: {
+            JWT_SECRET: "test-jwt-secret",
+            APP_URL: "http://localhost:3000"
+        }
+    }
+});